@@ -0,0 +1,28 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Tests run offline: fixture patents, on-disk vectors and local embeddings,
+// with no Pinecone, OpenAI or Google Cloud credentials
+process.env.PATENT_STORAGE_BACKEND = 'local';
+process.env.VECTOR_STORE_PROVIDER = 'local';
+process.env.EMBEDDING_PROVIDER = 'local';
+process.env.EMBEDDING_INDEX_PROVIDERS = '';
+process.env.FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || 'patent-search-test';
+process.env.LOG_LEVEL = 'error';
+delete process.env.PINECONE_API_KEY;
+delete process.env.PINECONE_ENVIRONMENT;
+delete process.env.OPENAI_API_KEY;
+
+// Each test file gets its own vector index directory
+const vectorStorePath = fs.mkdtempSync(path.join(os.tmpdir(), 'patent-vectors-'));
+process.env.VECTOR_STORE_PATH = vectorStorePath;
+
+// Alias table edits never touch a developer's local table
+const assigneeStorePath = fs.mkdtempSync(path.join(os.tmpdir(), 'patent-assignees-'));
+process.env.ASSIGNEE_ALIASES_STORE_PATH = path.join(assigneeStorePath, 'assignee-aliases.json');
+
+afterAll(() => {
+    fs.rmSync(vectorStorePath, { recursive: true, force: true });
+    fs.rmSync(assigneeStorePath, { recursive: true, force: true });
+});
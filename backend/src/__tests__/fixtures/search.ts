@@ -0,0 +1,29 @@
+import { config } from '@/config/config';
+import { LocalPatentRepository } from '@/services/localPatentRepository';
+import { SemanticSearchService } from '@/services/semanticSearchService';
+import { PatentResult, PatentSearchFilters } from '@/types/patent';
+
+/**
+ * Embed the fixture patents into the calling test file's local vector index
+ */
+export const indexFixtures = async (): Promise<void> => {
+    const repository = new LocalPatentRepository(config.storage.fixturePath);
+    const { results } = await repository.searchPatentsByKeywords('', undefined, 100);
+    const fullText = await repository.getPatentFullText(results.map(patent => patent.patent_id));
+    await new SemanticSearchService().indexPatentEmbeddings(results, fullText);
+};
+
+export type FilterCheck = (patent: Pick<PatentResult, 'assignee' | 'classifications' | 'publication_date'>) => boolean;
+
+/**
+ * Each filter with a check every publication it lets through must pass
+ */
+export const FILTER_CASES: Array<[string, PatentSearchFilters, FilterCheck]> = [
+    ['assignee', { assignees: ['Tesla'] }, patent => patent.assignee === 'TESLA INC'],
+    ['CPC prefix', { classifications: ['H01M4'] }, patent => patent.classifications.some(code => code.startsWith('H01M4'))],
+    [
+        'date',
+        { dateRange: { start: '2021-06-01', end: '2021-12-31' } },
+        patent => patent.publication_date >= '2021-06-01' && patent.publication_date <= '2021-12-31',
+    ],
+];
@@ -0,0 +1,69 @@
+import { config, requiredEnvVars, validateConfig } from './config';
+
+const withProviders = (
+    vectorStore: string,
+    embedding: string,
+    indexProviders: Record<string, string> = {}
+): typeof config => ({
+    ...config,
+    vectorStore: { ...config.vectorStore, provider: vectorStore as typeof config.vectorStore.provider },
+    embedding: {
+        ...config.embedding,
+        provider: embedding as typeof config.embedding.provider,
+        indexProviders: indexProviders as typeof config.embedding.indexProviders,
+    },
+});
+
+describe('requiredEnvVars', () => {
+    it('needs only Firebase for a fully local setup', () => {
+        expect(requiredEnvVars(withProviders('local', 'local'))).toEqual(['FIREBASE_PROJECT_ID']);
+    });
+
+    it('needs Pinecone keys for the Pinecone vector store or embeddings', () => {
+        const pinecone = ['FIREBASE_PROJECT_ID', 'PINECONE_API_KEY', 'PINECONE_ENVIRONMENT'];
+        expect(requiredEnvVars(withProviders('pinecone', 'local'))).toEqual(pinecone);
+        expect(requiredEnvVars(withProviders('local', 'pinecone'))).toEqual(pinecone);
+        expect(requiredEnvVars(withProviders('local', 'local', { 'patent-embeddings': 'pinecone' }))).toEqual(pinecone);
+    });
+
+    it('needs the OpenAI key only for OpenAI embeddings', () => {
+        expect(requiredEnvVars(withProviders('local', 'openai'))).toEqual(['FIREBASE_PROJECT_ID', 'OPENAI_API_KEY']);
+        expect(requiredEnvVars(withProviders('local', 'local', { offline: 'openai' }))).toEqual(['FIREBASE_PROJECT_ID', 'OPENAI_API_KEY']);
+    });
+
+    it('needs the Redis URL only for the Redis cache store', () => {
+        const local = withProviders('local', 'local');
+        expect(requiredEnvVars({ ...local, cache: { ...local.cache, store: 'redis' } })).toEqual(['FIREBASE_PROJECT_ID', 'REDIS_URL']);
+    });
+});
+
+describe('validateConfig', () => {
+    it('accepts a local setup without Pinecone or OpenAI keys', () => {
+        expect(process.env.PINECONE_API_KEY).toBeUndefined();
+        expect(process.env.OPENAI_API_KEY).toBeUndefined();
+        expect(() => validateConfig()).not.toThrow();
+    });
+
+    it.each([
+        ['PORT', { ...config, port: NaN }],
+        ['BIGQUERY_STATS_SAMPLE_PERCENT', { ...config, bigquery: { ...config.bigquery, statisticsSamplePercent: NaN } }],
+        ['PASSAGE_OVERLAP_WORDS', { ...config, passages: { ...config.passages, overlapWords: NaN } }],
+        ['CACHE_TTL', { ...config, cache: { ...config.cache, ttl: NaN } }],
+    ])('rejects a %s that is not a number', (envVar, current) => {
+        expect(() => validateConfig(current)).toThrow(`${envVar} must be a number`);
+    });
+
+    it('fails at startup when a numeric variable does not parse', () => {
+        const previous = process.env.CACHE_MAX_SIZE;
+        process.env.CACHE_MAX_SIZE = 'abc';
+        try {
+            expect(() => jest.isolateModules(() => require('./config'))).toThrow('CACHE_MAX_SIZE must be a number');
+        } finally {
+            if (previous === undefined) {
+                delete process.env.CACHE_MAX_SIZE;
+            } else {
+                process.env.CACHE_MAX_SIZE = previous;
+            }
+        }
+    });
+});
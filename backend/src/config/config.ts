@@ -19,9 +19,30 @@ interface Config {
         dataset: string;
         location: string;
         maxResults: number;
+        /** Percent of the publications table sampled for keyword term statistics */
+        statisticsSamplePercent: number;
         publicDataset: boolean;
     };
 
+    // Patent Storage Configuration
+    storage: {
+        backend: 'bigquery' | 'local';
+        fixturePath: string;
+    };
+
+    // Classification Scheme Configuration
+    classification: {
+        schemePath: string;
+    };
+
+    // Assignee Alias Table Configuration
+    assignees: {
+        /** Alias table shipped with the code, read until an admin edits the table */
+        aliasesPath: string;
+        /** Where admin edits of the alias table are saved, outside the repository */
+        storePath: string;
+    };
+
     // Pinecone Configuration
     pinecone: {
         apiKey: string;
@@ -35,6 +56,28 @@ interface Config {
         region: string;
     };
 
+    // Vector Store Configuration
+    vectorStore: {
+        provider: 'pinecone' | 'local';
+        localPath: string;
+        metric: string;
+    };
+
+    // Embedding Configuration
+    embedding: {
+        provider: 'pinecone' | 'openai' | 'local';
+        indexProviders: Record<string, 'pinecone' | 'openai' | 'local'>;
+        localDimensions: number;
+    };
+
+    // Passage Indexing Configuration
+    passages: {
+        windowWords: number;
+        overlapWords: number;
+        aggregation: 'max' | 'sum_top_k';
+        aggregationTopK: number;
+    };
+
     // OpenAI Configuration
     openai: {
         apiKey: string;
@@ -59,25 +102,14 @@ interface Config {
 
     // Cache Configuration
     cache: {
+        enabled: boolean;
+        store: 'memory' | 'redis';
+        redisUrl: string;
         ttl: number;
         maxSize: number;
     };
 }
 
-const requiredEnvVars = [
-    'PINECONE_API_KEY',
-    'PINECONE_ENVIRONMENT',
-    'OPENAI_API_KEY',
-    'FIREBASE_PROJECT_ID',
-];
-
-// Validate required environment variables
-for (const envVar of requiredEnvVars) {
-    if (!process.env[envVar]) {
-        throw new Error(`Missing required environment variable: ${envVar}`);
-    }
-}
-
 export const config: Config = {
     nodeEnv: process.env.NODE_ENV || 'development',
     port: parseInt(process.env.PORT || '3001', 10),
@@ -94,12 +126,27 @@ export const config: Config = {
         dataset: 'patents-public-data.patents', // Full reference to Google's public patent dataset
         location: process.env.BIGQUERY_LOCATION || 'US',
         maxResults: parseInt(process.env.BIGQUERY_MAX_RESULTS || '1000', 10),
+        statisticsSamplePercent: parseFloat(process.env.BIGQUERY_STATS_SAMPLE_PERCENT || '1'),
         publicDataset: true, // Flag to indicate we're using public dataset
     },
 
+    storage: {
+        backend: (process.env.PATENT_STORAGE_BACKEND || 'bigquery') as Config['storage']['backend'],
+        fixturePath: process.env.PATENT_FIXTURE_PATH || './fixtures/patents.json',
+    },
+
+    classification: {
+        schemePath: process.env.CPC_SCHEME_PATH || './data/cpc-scheme.json',
+    },
+
+    assignees: {
+        aliasesPath: process.env.ASSIGNEE_ALIASES_PATH || './data/assignee-aliases.json',
+        storePath: process.env.ASSIGNEE_ALIASES_STORE_PATH || './local-data/assignee-aliases.json',
+    },
+
     pinecone: {
-        apiKey: process.env.PINECONE_API_KEY!,
-        environment: process.env.PINECONE_ENVIRONMENT!,
+        apiKey: process.env.PINECONE_API_KEY || '',
+        environment: process.env.PINECONE_ENVIRONMENT || '',
         indexName: process.env.PINECONE_INDEX_NAME || 'patent-embeddings',
         host: process.env.PINECONE_HOST,
         metric: process.env.PINECONE_METRIC || 'cosine',
@@ -109,15 +156,40 @@ export const config: Config = {
         region: process.env.PINECONE_REGION || 'us-west1-gcp',
     },
 
+    vectorStore: {
+        provider: (process.env.VECTOR_STORE_PROVIDER || 'pinecone') as Config['vectorStore']['provider'],
+        localPath: process.env.VECTOR_STORE_PATH || './vector-index',
+        metric: process.env.VECTOR_STORE_METRIC || 'cosine',
+    },
+
+    embedding: {
+        provider: (process.env.EMBEDDING_PROVIDER || 'pinecone') as Config['embedding']['provider'],
+        // Per-index overrides, e.g. "patent-embeddings:pinecone,patents-offline:local"
+        indexProviders: Object.fromEntries(
+            (process.env.EMBEDDING_INDEX_PROVIDERS || '')
+                .split(',')
+                .map(entry => entry.trim().split(':').map(part => part.trim()))
+                .filter((entry): entry is [string, string] => entry.length === 2 && !!entry[0] && !!entry[1])
+        ) as Config['embedding']['indexProviders'],
+        localDimensions: parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '262144', 10),
+    },
+
+    passages: {
+        windowWords: parseInt(process.env.PASSAGE_WINDOW_WORDS || '200', 10),
+        overlapWords: parseInt(process.env.PASSAGE_OVERLAP_WORDS || '40', 10),
+        aggregation: (process.env.PASSAGE_AGGREGATION || 'max') as Config['passages']['aggregation'],
+        aggregationTopK: parseInt(process.env.PASSAGE_AGGREGATION_TOP_K || '3', 10),
+    },
+
     openai: {
-        apiKey: process.env.OPENAI_API_KEY!,
+        apiKey: process.env.OPENAI_API_KEY || '',
         model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo',
         embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
         maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '4000', 10),
     },
 
     firebase: {
-        projectId: process.env.FIREBASE_PROJECT_ID!,
+        projectId: process.env.FIREBASE_PROJECT_ID || '',
         clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
         privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
         databaseURL: process.env.FIREBASE_DATABASE_URL,
@@ -129,24 +201,120 @@ export const config: Config = {
     },
 
     cache: {
+        enabled: process.env.CACHE_ENABLED !== 'false',
+        store: (process.env.CACHE_STORE || 'memory') as Config['cache']['store'],
+        redisUrl: process.env.REDIS_URL || '',
         ttl: parseInt(process.env.CACHE_TTL || '3600', 10), // 1 hour
         maxSize: parseInt(process.env.CACHE_MAX_SIZE || '1000', 10),
     },
 };
 
+/**
+ * Environment variables the selected providers need. Pinecone and OpenAI
+ * keys are only required when Pinecone or OpenAI is in use, so a fully local
+ * setup (local storage, vector store and embeddings) starts without them.
+ * The Redis URL is only required for the Redis cache store.
+ */
+export const requiredEnvVars = (current: Config = config): string[] => {
+    const embeddingProviders = [current.embedding.provider, ...Object.values(current.embedding.indexProviders)];
+    const required = ['FIREBASE_PROJECT_ID'];
+
+    if (current.vectorStore.provider === 'pinecone' || embeddingProviders.includes('pinecone')) {
+        required.push('PINECONE_API_KEY', 'PINECONE_ENVIRONMENT');
+    }
+    if (embeddingProviders.includes('openai')) {
+        required.push('OPENAI_API_KEY');
+    }
+    if (current.cache.store === 'redis') {
+        required.push('REDIS_URL');
+    }
+
+    return required;
+};
+
 // Validate configuration
-export const validateConfig = (): void => {
-    if (config.port < 1 || config.port > 65535) {
+export const validateConfig = (current: Config = config): void => {
+    for (const envVar of requiredEnvVars(current)) {
+        if (!process.env[envVar]) {
+            throw new Error(`Missing required environment variable: ${envVar}`);
+        }
+    }
+
+    // parseInt and parseFloat give NaN for values that are not numbers, which
+    // every range check below would let through
+    const numericSettings: Array<[string, number]> = [
+        ['PORT', current.port],
+        ['BIGQUERY_MAX_RESULTS', current.bigquery.maxResults],
+        ['BIGQUERY_STATS_SAMPLE_PERCENT', current.bigquery.statisticsSamplePercent],
+        ['LOCAL_EMBEDDING_DIMENSIONS', current.embedding.localDimensions],
+        ['PASSAGE_WINDOW_WORDS', current.passages.windowWords],
+        ['PASSAGE_OVERLAP_WORDS', current.passages.overlapWords],
+        ['PASSAGE_AGGREGATION_TOP_K', current.passages.aggregationTopK],
+        ['OPENAI_MAX_TOKENS', current.openai.maxTokens],
+        ['CACHE_TTL', current.cache.ttl],
+        ['CACHE_MAX_SIZE', current.cache.maxSize],
+    ];
+    for (const [envVar, value] of numericSettings) {
+        if (!Number.isFinite(value)) {
+            throw new Error(`${envVar} must be a number`);
+        }
+    }
+
+    if (current.port < 1 || current.port > 65535) {
         throw new Error('Port must be between 1 and 65535');
     }
 
-    if (config.openai.maxTokens < 1 || config.openai.maxTokens > 8000) {
+    if (current.openai.maxTokens < 1 || current.openai.maxTokens > 8000) {
         throw new Error('OpenAI max tokens must be between 1 and 8000');
     }
 
-    if (config.bigquery.maxResults < 1 || config.bigquery.maxResults > 10000) {
+    if (current.bigquery.maxResults < 1 || current.bigquery.maxResults > 10000) {
         throw new Error('BigQuery max results must be between 1 and 10000');
     }
+
+    if (!(current.bigquery.statisticsSamplePercent > 0 && current.bigquery.statisticsSamplePercent <= 100)) {
+        throw new Error('BigQuery statistics sample percent must be greater than 0 and at most 100');
+    }
+
+    if (!['bigquery', 'local'].includes(current.storage.backend)) {
+        throw new Error('Patent storage backend must be one of: bigquery, local');
+    }
+
+    if (!['pinecone', 'local'].includes(current.vectorStore.provider)) {
+        throw new Error('Vector store provider must be one of: pinecone, local');
+    }
+
+    const embeddingProviders = ['pinecone', 'openai', 'local'];
+    for (const provider of [current.embedding.provider, ...Object.values(current.embedding.indexProviders)]) {
+        if (!embeddingProviders.includes(provider)) {
+            throw new Error(`Embedding provider must be one of: ${embeddingProviders.join(', ')}`);
+        }
+    }
+
+    if (current.embedding.localDimensions < 1) {
+        throw new Error('Local embedding dimensions must be a positive integer');
+    }
+
+    if (!['cosine', 'dotproduct', 'euclidean'].includes(current.vectorStore.metric)) {
+        throw new Error('Vector store metric must be one of: cosine, dotproduct, euclidean');
+    }
+
+    if (current.passages.windowWords < 1 || current.passages.overlapWords < 0 ||
+        current.passages.overlapWords >= current.passages.windowWords) {
+        throw new Error('Passage window must be positive and larger than the passage overlap');
+    }
+
+    if (!['max', 'sum_top_k'].includes(current.passages.aggregation) || current.passages.aggregationTopK < 1) {
+        throw new Error('Passage aggregation must be max or sum_top_k with a positive top k');
+    }
+
+    if (!['memory', 'redis'].includes(current.cache.store)) {
+        throw new Error('Cache store must be one of: memory, redis');
+    }
+
+    if (current.cache.ttl < 1 || current.cache.maxSize < 1) {
+        throw new Error('Cache TTL and max size must be positive integers');
+    }
 };
 
 // Run validation
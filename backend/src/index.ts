@@ -14,6 +14,10 @@ import { authMiddleware } from '@/middleware/auth';
 import searchRoutes from '@/routes/search';
 import analyticsRoutes from '@/routes/analytics';
 import healthRoutes from '@/routes/health';
+import adminRoutes from '@/routes/admin';
+import classificationRoutes from '@/routes/classifications';
+import patentRoutes from '@/routes/patents';
+import assigneeRoutes from '@/routes/assignees';
 
 // Load environment variables
 dotenv.config();
@@ -79,6 +83,10 @@ app.use('/api', authMiddleware);
 // API routes
 app.use('/api/search', searchRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/classifications', classificationRoutes);
+app.use('/api/patents', patentRoutes);
+app.use('/api/assignees', assigneeRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -38,25 +38,28 @@ export const errorHandler = (
         message = 'Unauthorized access';
         isOperational = true;
     }
-    if (err.message.includes('BigQuery')) {
-        statusCode = 503;
-        message = 'Database service temporarily unavailable';
-        isOperational = true;
-    }
-    if (err.message.includes('OpenAI') || err.message.includes('embedding')) {
-        statusCode = 503;
-        message = 'AI service temporarily unavailable';
-        isOperational = true;
-    }
-    if (err.message.includes('Pinecone') || err.message.includes('vector')) {
-        statusCode = 503;
-        message = 'Vector search service temporarily unavailable';
-        isOperational = true;
-    }
-    if (err.message.includes('rate limit') || err.message.includes('quota')) {
-        statusCode = 429;
-        message = 'Rate limit exceeded. Please try again later.';
-        isOperational = true;
+    // Client errors keep their own message; only classify server failures
+    if (statusCode >= 500) {
+        if (err.message.includes('BigQuery')) {
+            statusCode = 503;
+            message = 'Database service temporarily unavailable';
+            isOperational = true;
+        }
+        if (err.message.includes('OpenAI') || err.message.includes('embedding')) {
+            statusCode = 503;
+            message = 'AI service temporarily unavailable';
+            isOperational = true;
+        }
+        if (err.message.includes('Pinecone') || err.message.includes('vector')) {
+            statusCode = 503;
+            message = 'Vector search service temporarily unavailable';
+            isOperational = true;
+        }
+        if (err.message.includes('rate limit') || err.message.includes('quota')) {
+            statusCode = 429;
+            message = 'Rate limit exceeded. Please try again later.';
+            isOperational = true;
+        }
     }
     const errorLog = {
         message: err.message,
@@ -110,6 +113,9 @@ export const createUnauthorizedError = (message: string = 'Unauthorized'): AppEr
 export const createForbiddenError = (message: string = 'Forbidden'): AppError => {
     return new AppError(message, 403);
 };
+export const createNotFoundError = (message: string = 'Not found'): AppError => {
+    return new AppError(message, 404);
+};
 export const createServiceUnavailableError = (message: string): AppError => {
     return new AppError(message, 503);
 };
@@ -0,0 +1,123 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { AuthenticatedRequest, requireAdminRole } from '@/middleware/auth';
+import { createNotFoundError, createValidationError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { CACHE_NAMESPACES, cacheService } from '@/services/cacheService';
+import { AssigneeTableError, assigneeService } from '@/services/assigneeService';
+const router = Router();
+router.use(requireAdminRole);
+// GET /api/admin/cache
+router.get('/cache', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const stats = await cacheService.getStats();
+    res.json({
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString(),
+    });
+}));
+// DELETE /api/admin/cache?namespace=search
+router.delete('/cache', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { namespace } = z.object({
+            namespace: z.enum(CACHE_NAMESPACES).optional(),
+        }).parse(req.query);
+        logger.info('Cache flush request', {
+            userId: req.user?.uid,
+            namespace: namespace || 'all',
+        });
+        const removed = await cacheService.flush(namespace);
+        res.json({
+            success: true,
+            data: {
+                namespace: namespace || 'all',
+                removed,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+const assigneeEntitySchema = z.object({
+    name: z.string().trim().min(1, 'Company name is required').max(200),
+    aliases: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+    parent: z.string().trim().min(1).max(200).optional(),
+    /** Name the company is stored under, when renaming it */
+    current_name: z.string().trim().min(1).max(200).optional(),
+});
+const assigneeNameSchema = z.object({
+    name: z.string().trim().min(1, 'Company name is required'),
+});
+// GET /api/admin/assignees
+router.get('/assignees', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+        success: true,
+        data: {
+            entities: assigneeService.listEntities(),
+        },
+        timestamp: new Date().toISOString(),
+    });
+}));
+// PUT /api/admin/assignees
+router.put('/assignees', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { current_name, ...entity } = assigneeEntitySchema.parse(req.body);
+        logger.info('Assignee entity update request', {
+            userId: req.user?.uid,
+            name: entity.name,
+            currentName: current_name,
+        });
+        const saved = assigneeService.upsertEntity(entity, current_name);
+        // Cached searches were filtered with the previous table
+        await cacheService.flush('search');
+        res.json({
+            success: true,
+            data: saved,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        if (error instanceof AssigneeTableError) {
+            throw createValidationError(error.message);
+        }
+        throw error;
+    }
+}));
+// DELETE /api/admin/assignees?name=Waymo
+router.delete('/assignees', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { name } = assigneeNameSchema.parse(req.query);
+        logger.info('Assignee entity delete request', {
+            userId: req.user?.uid,
+            name,
+        });
+        if (!assigneeService.deleteEntity(name)) {
+            throw createNotFoundError(`${name} is not in the assignee alias table`);
+        }
+        await cacheService.flush('search');
+        res.json({
+            success: true,
+            data: { name },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+export default router;
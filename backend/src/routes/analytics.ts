@@ -5,19 +5,41 @@ import { PatentSearchService } from '@/services/patentSearchService';
 import { AuthenticatedRequest } from '@/middleware/auth';
 import { createValidationError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { QuerySyntaxError } from '@/utils/queryParser';
+import { isIsoDate } from '@/utils/dates';
 const router = Router();
 const patentSearchService = new PatentSearchService();
+const isoDateSchema = z.string().refine(isIsoDate, 'Dates must be ISO 8601 (YYYY-MM-DD)');
 const landscapeSchema = z.object({
     query: z.string().min(1, 'Query is required').max(1000, 'Query too long'),
     filters: z.object({
         dateRange: z.object({
-            start: z.string().optional(),
-            end: z.string().optional(),
+            start: isoDateSchema.optional(),
+            end: isoDateSchema.optional(),
         }).optional(),
         countries: z.array(z.string()).optional(),
         assignees: z.array(z.string()).optional(),
         classifications: z.array(z.string()).optional(),
     }).optional(),
+    citations: z.object({
+        hops: z.union([z.literal(0), z.literal(1), z.literal(2)]).default(0),
+        categories: z.array(z.enum(['applicant', 'examiner', 'search_report', 'other'])).min(1).optional(),
+    }).default({}),
+    clustering: z.object({
+        k: z.number().int().min(1).max(20).optional(),
+        seed: z.number().int().min(0).max(2 ** 32 - 1).default(42),
+    }).default({}),
+});
+const portfolioSchema = z.object({
+    assignees: z.array(z.string().trim().min(1).max(200)).min(1, 'At least one assignee is required').max(20),
+    filters: z.object({
+        dateRange: z.object({
+            start: isoDateSchema.optional(),
+            end: isoDateSchema.optional(),
+        }).optional(),
+        countries: z.array(z.string()).optional(),
+        classifications: z.array(z.string()).optional(),
+    }).optional(),
 });
 router.post('/landscape', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -25,16 +47,46 @@ router.post('/landscape', asyncHandler(async (req: AuthenticatedRequest, res: Re
         logger.info('Patent landscape request', {
             userId: req.user?.uid,
             query: validatedData.query.substring(0, 100),
+            citationHops: validatedData.citations.hops,
         });
         const landscapeData = await patentSearchService.generatePatentLandscape(
             validatedData.query,
-            validatedData.filters
+            validatedData.filters,
+            { citations: validatedData.citations, clustering: validatedData.clustering }
         );
         res.json({
             success: true,
             data: landscapeData,
             timestamp: new Date().toISOString(),
         });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        if (error instanceof QuerySyntaxError) {
+            throw createValidationError(error.message);
+        }
+        throw error;
+    }
+}));
+router.post('/portfolio', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const validatedData = portfolioSchema.parse(req.body);
+        logger.info('Portfolio analysis request', {
+            userId: req.user?.uid,
+            assignees: validatedData.assignees,
+        });
+        const portfolio = await patentSearchService.analyzePortfolio(
+            validatedData.assignees,
+            validatedData.filters
+        );
+        res.json({
+            success: true,
+            data: portfolio,
+            timestamp: new Date().toISOString(),
+        });
     } catch (error) {
         if (error instanceof z.ZodError) {
             throw createValidationError(
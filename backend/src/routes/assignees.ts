@@ -0,0 +1,41 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PatentSearchService } from '@/services/patentSearchService';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { createValidationError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+const router = Router();
+const patentSearchService = new PatentSearchService();
+const assigneeSearchSchema = z.object({
+    q: z.string().trim().min(2, 'Query must be at least 2 characters').max(100),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+// GET /api/assignees/search?q=goog
+router.get('/search', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { q, limit } = assigneeSearchSchema.parse(req.query);
+        logger.info('Assignee search request', {
+            userId: req.user?.uid,
+            query: q,
+            limit,
+        });
+        const suggestions = await patentSearchService.searchAssignees(q, limit);
+        res.json({
+            success: true,
+            data: {
+                query: q,
+                suggestions,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+export default router;
@@ -0,0 +1,102 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PatentSearchService } from '@/services/patentSearchService';
+import {
+    ClassificationService,
+    cpcSearchPrefix,
+    isCpcSymbol,
+    normalizeCpcSymbol,
+} from '@/services/classificationService';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { createNotFoundError, createValidationError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { isIsoDate } from '@/utils/dates';
+const router = Router();
+const patentSearchService = new PatentSearchService();
+const classificationService = new ClassificationService();
+// Symbols contain a slash, so clients URL-encode them (H01M4%2F386)
+const codeSchema = z.string()
+    .min(1, 'Classification code is required')
+    .refine(isCpcSymbol, 'Invalid CPC code')
+    .transform(normalizeCpcSymbol);
+const classificationPatentsSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    countries: z.string().optional()
+        .transform(value => value ? value.split(',').map(country => country.trim().toUpperCase()).filter(Boolean) : undefined),
+    start: z.string().refine(isIsoDate, 'Dates must be ISO 8601 (YYYY-MM-DD)').optional(),
+    end: z.string().refine(isIsoDate, 'Dates must be ISO 8601 (YYYY-MM-DD)').optional(),
+});
+// GET /api/classifications
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+        success: true,
+        data: {
+            sections: classificationService.getSections(),
+        },
+        timestamp: new Date().toISOString(),
+    });
+}));
+// GET /api/classifications/:code
+router.get('/:code', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const code = codeSchema.parse(req.params.code);
+        const node = classificationService.getNode(code);
+        if (!node) {
+            throw createNotFoundError(`CPC code ${code} not found in the classification scheme`);
+        }
+        res.json({
+            success: true,
+            data: node,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+// GET /api/classifications/:code/patents
+router.get('/:code/patents', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const code = codeSchema.parse(req.params.code);
+        const { limit, countries, start, end } = classificationPatentsSchema.parse(req.query);
+        logger.info('Classification patents request', {
+            userId: req.user?.uid,
+            code,
+            limit,
+        });
+        // Codes missing from a partial scheme are still searchable; they just have no title
+        const node = classificationService.getNode(code);
+        const searchPrefix = node?.search_prefix || cpcSearchPrefix(code);
+        const results = await patentSearchService.getPatentsByClassification(
+            [searchPrefix],
+            {
+                ...(countries && { countries }),
+                ...((start || end) && { dateRange: { start, end } }),
+            },
+            limit
+        );
+        res.json({
+            success: true,
+            data: {
+                classification: node ? { symbol: node.symbol, title: node.title, level: node.level } : { symbol: code },
+                search_prefix: searchPrefix,
+                results,
+                total_results: results.length,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+export default router;
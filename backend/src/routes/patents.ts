@@ -0,0 +1,44 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PatentSearchService } from '@/services/patentSearchService';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { createNotFoundError, createValidationError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+const router = Router();
+const patentSearchService = new PatentSearchService();
+const patentIdSchema = z.string()
+    .min(1, 'Patent ID is required')
+    .max(100, 'Patent ID too long');
+// ?languages=de,en picks the title and abstract shown, most preferred first
+const languagesSchema = z.string().max(100).optional()
+    .transform(value => value ? value.split(',').map(language => language.trim()).filter(Boolean) : undefined);
+// GET /api/patents/:patentId
+router.get('/:patentId', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const patentId = patentIdSchema.parse(req.params.patentId);
+        const languages = languagesSchema.parse(req.query.languages);
+        logger.info('Patent detail request', {
+            userId: req.user?.uid,
+            patentId,
+            languages,
+        });
+        const detail = await patentSearchService.getPatentDetail(patentId, languages);
+        if (!detail) {
+            throw createNotFoundError(`Patent ${patentId} not found`);
+        }
+        res.json({
+            success: true,
+            data: detail,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            throw createValidationError(
+                `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+            );
+        }
+        throw error;
+    }
+}));
+export default router;
@@ -0,0 +1,121 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { indexFixtures } from '@/__tests__/fixtures/search';
+import { errorHandler } from '@/middleware/errorHandler';
+import { PatentSearchService } from '@/services/patentSearchService';
+import { SemanticSearchService } from '@/services/semanticSearchService';
+import { PatentResult, PatentSearchFilters } from '@/types/patent';
+import searchRoutes from './search';
+
+// Filtering itself is covered by the service tests; the routes only pass it on
+const FILTERS: PatentSearchFilters = {
+    assignees: ['Tesla'],
+    dateRange: { start: '2021-06-01', end: '2021-12-31' },
+};
+
+let server: Server;
+let baseUrl: string;
+
+const post = async (path: string, body: unknown): Promise<{ status: number; body: any }> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+};
+
+beforeAll(async () => {
+    await indexFixtures();
+
+    // The search routes without the Firebase authentication in front of them
+    const app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}, 30000);
+
+afterAll(done => {
+    server.close(done);
+});
+
+describe('POST /api/search/quick', () => {
+    it('passes filters on to a keyword search and returns one page of results', async () => {
+        const search = jest.spyOn(PatentSearchService.prototype, 'searchPatents');
+        try {
+            const response = await post('/api/search/quick', { query: 'battery', filters: FILTERS, pageSize: 5 });
+
+            expect(search).toHaveBeenCalledWith(expect.objectContaining({ query: 'battery', searchType: 'keyword', filters: FILTERS, pageSize: 5 }));
+            expect(response.status).toBe(200);
+            expect(response.body.success).toBe(true);
+            expect(Object.keys(response.body.data).sort()).toEqual(
+                ['next_cursor', 'results', 'search_time_ms', 'total_is_estimate', 'total_results']
+            );
+            const results: PatentResult[] = response.body.data.results;
+            expect(results.map(patent => patent.patent_id)).toEqual(['US-11200001-B2']);
+        } finally {
+            search.mockRestore();
+        }
+    });
+
+    it('rejects malformed filters', async () => {
+        const response = await post('/api/search/quick', { query: 'battery', filters: { dateRange: { start: '2021' } } });
+        expect(response.status).toBe(400);
+    });
+
+    it('returns the query parser message for malformed queries', async () => {
+        const response = await post('/api/search/quick', { query: 'battery AND (anode' });
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toBe('Invalid query at position 18 near "<end of query>": missing closing parenthesis');
+    });
+});
+
+describe('POST /api/search/batch', () => {
+    it('passes filters on to a hybrid search per query and reports each outcome', async () => {
+        const search = jest.spyOn(PatentSearchService.prototype, 'searchPatents');
+        try {
+            const queries = ['battery', 'lithium anode'];
+            const response = await post('/api/search/batch', { queries, filters: FILTERS });
+
+            expect(search).toHaveBeenCalledTimes(queries.length);
+            for (const query of queries) {
+                expect(search).toHaveBeenCalledWith(expect.objectContaining({ query, searchType: 'hybrid', filters: FILTERS, limit: 10 }));
+            }
+            expect(response.status).toBe(200);
+            expect(response.body.data).toMatchObject({ total_queries: 2, successful_queries: 2 });
+            expect(response.body.data.results.map((result: any) => [result.index, result.query, result.success])).toEqual([
+                [0, 'battery', true],
+                [1, 'lithium anode', true],
+            ]);
+            expect(response.body.data.results[0].data.results.length).toBeGreaterThan(0);
+        } finally {
+            search.mockRestore();
+        }
+    });
+});
+
+describe('GET /api/search/related/:patentId', () => {
+    const get = async (path: string): Promise<{ status: number; body: any }> => {
+        const response = await fetch(`${baseUrl}${path}`);
+        return { status: response.status, body: await response.json() };
+    };
+
+    it('lists no similar patents when no neighbour is close enough', async () => {
+        const semanticSearch = jest.spyOn(SemanticSearchService.prototype, 'semanticPatentSearch')
+            .mockResolvedValue([{ patent_id: 'KR-102300006-B1', similarity_score: 0.3 }]);
+        try {
+            const response = await get('/api/search/related/US-11400007-B2');
+
+            expect(semanticSearch).toHaveBeenCalled();
+            expect(response.status).toBe(200);
+            expect(response.body.data.related_patents.similar).toEqual([]);
+            expect(response.body.data.total_similar).toBe(0);
+        } finally {
+            semanticSearch.mockRestore();
+        }
+    });
+});
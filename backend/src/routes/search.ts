@@ -5,30 +5,60 @@ import { PatentSearchService } from '@/services/patentSearchService';
 import { AuthenticatedRequest } from '@/middleware/auth';
 import { createValidationError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { QuerySyntaxError } from '@/utils/queryParser';
+import { CursorError } from '@/utils/pagination';
+import { isIsoDate } from '@/utils/dates';
 import { SemanticSearchService } from '@/services/semanticSearchService';
 
 const router = Router();
 const patentSearchService = new PatentSearchService();
 
 // Validation schemas
+const isoDateSchema = z.string().refine(isIsoDate, 'Dates must be ISO 8601 (YYYY-MM-DD)');
+
+const searchFiltersSchema = z.object({
+    dateRange: z.object({
+        start: isoDateSchema.optional(),
+        end: isoDateSchema.optional(),
+    }).optional(),
+    countries: z.array(z.string()).optional(),
+    assignees: z.array(z.string()).optional(),
+    classifications: z.array(z.string()).optional(),
+});
+
+// Language codes such as "de" or "zh-CN", most preferred first
+const preferredLanguagesSchema = z.array(z.string().min(2).max(8)).max(10).optional();
+
+// Country codes such as "US" or "EP", most preferred first
+const preferredJurisdictionsSchema = z.array(z.string().length(2).transform(code => code.toUpperCase())).max(20).optional();
+
 const semanticSearchSchema = z.object({
     query: z.string().min(1, 'Query is required').max(5000, 'Query too long'),
     searchType: z.enum(['semantic', 'keyword', 'hybrid']).default('hybrid'),
+    scope: z.enum(['claims', 'abstract', 'full']).default('abstract'),
     limit: z.number().min(1).max(100).default(50),
+    pageSize: z.number().int().min(1).max(100).optional(),
+    cursor: z.string().max(1000).optional(),
     minSimilarity: z.number().min(0).max(1).default(0.7),
-    filters: z.object({
-        dateRange: z.object({
-            start: z.string().optional(),
-            end: z.string().optional(),
+    filters: searchFiltersSchema.optional(),
+    preferredLanguages: preferredLanguagesSchema,
+    groupBy: z.enum(['publication', 'family']).default('publication'),
+    preferredJurisdictions: preferredJurisdictionsSchema,
+    fusion: z.object({
+        method: z.enum(['rrf', 'weighted']).default('rrf'),
+        k: z.number().int().min(1).max(1000).optional(),
+        weights: z.object({
+            semantic: z.number().min(0).max(10).optional(),
+            keyword: z.number().min(0).max(10).optional(),
         }).optional(),
-        countries: z.array(z.string()).optional(),
-        assignees: z.array(z.string()).optional(),
-        classifications: z.array(z.string()).optional(),
     }).optional(),
 });
 
 const relatedPatentsSchema = z.object({
     patentId: z.string().min(1, 'Patent ID is required'),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z.string().max(1000).optional(),
+    family: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
 });
 
 // POST /api/search/semantic
@@ -41,6 +71,8 @@ router.post('/semantic', asyncHandler(async (req: AuthenticatedRequest, res: Res
             userId: req.user?.uid,
             query: validatedData.query.substring(0, 100),
             searchType: validatedData.searchType,
+            scope: validatedData.scope,
+            groupBy: validatedData.groupBy,
             limit: validatedData.limit,
         });
 
@@ -48,9 +80,16 @@ router.post('/semantic', asyncHandler(async (req: AuthenticatedRequest, res: Res
         const searchResult = await patentSearchService.searchPatents({
             query: validatedData.query,
             searchType: validatedData.searchType,
+            scope: validatedData.scope,
             filters: validatedData.filters,
             limit: validatedData.limit,
+            pageSize: validatedData.pageSize,
+            cursor: validatedData.cursor,
             minSimilarity: validatedData.minSimilarity,
+            fusion: validatedData.fusion,
+            preferredLanguages: validatedData.preferredLanguages,
+            groupBy: validatedData.groupBy,
+            preferredJurisdictions: validatedData.preferredJurisdictions,
         });
 
         res.json({
@@ -65,6 +104,9 @@ router.post('/semantic', asyncHandler(async (req: AuthenticatedRequest, res: Res
                 `Validation error: ${error.errors.map(e => e.message).join(', ')}`
             );
         }
+        if (error instanceof QuerySyntaxError || error instanceof CursorError) {
+            throw createValidationError(error.message);
+        }
         throw error;
     }
 }));
@@ -72,23 +114,27 @@ router.post('/semantic', asyncHandler(async (req: AuthenticatedRequest, res: Res
 // GET /api/search/related/:patentId
 router.get('/related/:patentId', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { patentId } = relatedPatentsSchema.parse({ patentId: req.params.patentId });
+        const { patentId, limit, cursor, family } = relatedPatentsSchema.parse({ ...req.query, patentId: req.params.patentId });
 
         logger.info('Related patents request', {
             userId: req.user?.uid,
             patentId,
+            limit,
+            family,
         });
 
-        const relatedPatents = await patentSearchService.getRelatedPatents(patentId);
+        const { citing, cited, similar, total_citing, total_cited, next_cursor } =
+            await patentSearchService.getRelatedPatents(patentId, { limit, cursor, family });
 
         res.json({
             success: true,
             data: {
                 patent_id: patentId,
-                related_patents: relatedPatents,
-                total_citing: relatedPatents.citing.length,
-                total_cited: relatedPatents.cited.length,
-                total_similar: relatedPatents.similar.length,
+                related_patents: { citing, cited, similar },
+                total_citing,
+                total_cited,
+                total_similar: similar.length,
+                next_cursor,
             },
             timestamp: new Date().toISOString(),
         });
@@ -99,6 +145,9 @@ router.get('/related/:patentId', asyncHandler(async (req: AuthenticatedRequest,
                 `Validation error: ${error.errors.map(e => e.message).join(', ')}`
             );
         }
+        if (error instanceof CursorError) {
+            throw createValidationError(error.message);
+        }
         throw error;
     }
 }));
@@ -106,8 +155,12 @@ router.get('/related/:patentId', asyncHandler(async (req: AuthenticatedRequest,
 // POST /api/search/quick
 router.post('/quick', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { query } = z.object({
+        const { query, filters, pageSize, cursor, preferredLanguages } = z.object({
             query: z.string().min(1, 'Query is required').max(1000, 'Query too long'),
+            filters: searchFiltersSchema.optional(),
+            pageSize: z.number().int().min(1).max(100).default(20),
+            cursor: z.string().max(1000).optional(),
+            preferredLanguages: preferredLanguagesSchema,
         }).parse(req.body);
 
         logger.info('Quick search request', {
@@ -119,7 +172,10 @@ router.post('/quick', asyncHandler(async (req: AuthenticatedRequest, res: Respon
         const searchResult = await patentSearchService.searchPatents({
             query,
             searchType: 'keyword',
-            limit: 20,
+            filters,
+            pageSize,
+            cursor,
+            preferredLanguages,
         });
 
         res.json({
@@ -127,6 +183,8 @@ router.post('/quick', asyncHandler(async (req: AuthenticatedRequest, res: Respon
             data: {
                 results: searchResult.results,
                 total_results: searchResult.total_results,
+                total_is_estimate: searchResult.total_is_estimate,
+                next_cursor: searchResult.next_cursor,
                 search_time_ms: searchResult.search_time_ms,
             },
             timestamp: new Date().toISOString(),
@@ -138,6 +196,9 @@ router.post('/quick', asyncHandler(async (req: AuthenticatedRequest, res: Respon
                 `Validation error: ${error.errors.map(e => e.message).join(', ')}`
             );
         }
+        if (error instanceof QuerySyntaxError || error instanceof CursorError) {
+            throw createValidationError(error.message);
+        }
         throw error;
     }
 }));
@@ -194,8 +255,9 @@ router.get('/status', asyncHandler(async (req: AuthenticatedRequest, res: Respon
 // POST /api/search/batch
 router.post('/batch', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { queries } = z.object({
+        const { queries, filters } = z.object({
             queries: z.array(z.string().min(1).max(1000)).min(1).max(10),
+            filters: searchFiltersSchema.optional(),
         }).parse(req.body);
 
         logger.info('Batch search request', {
@@ -209,6 +271,7 @@ router.post('/batch', asyncHandler(async (req: AuthenticatedRequest, res: Respon
                 const result = await patentSearchService.searchPatents({
                     query,
                     searchType: 'hybrid',
+                    filters,
                     limit: 10, // Smaller limit for batch requests
                 });
 
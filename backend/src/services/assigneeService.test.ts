@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AssigneeService, AssigneeTableError } from './assigneeService';
+
+const TABLE = {
+    description: 'Test alias table',
+    entities: [
+        { name: 'Alphabet', aliases: [] },
+        { name: 'Google', aliases: ['Google Technology Holdings'], parent: 'Alphabet' },
+        { name: 'Waymo', aliases: [], parent: 'Google' },
+        { name: 'CATL', aliases: ['Contemporary Amperex Technology'] },
+    ],
+};
+
+describe('AssigneeService', () => {
+    let directory: string;
+    let aliasesPath: string;
+    let storePath: string;
+    let service: AssigneeService;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'assignee-service-'));
+        aliasesPath = path.join(directory, 'assignee-aliases.json');
+        storePath = path.join(directory, 'store', 'assignee-aliases.json');
+        fs.writeFileSync(aliasesPath, JSON.stringify(TABLE));
+        service = new AssigneeService(aliasesPath, storePath);
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('normalizes names through their aliases, or to their title-cased key', () => {
+        expect(service.normalize('GOOGLE LLC')).toBe('Google');
+        expect(service.normalize('Google Technology Holdings LLC')).toBe('Google');
+        expect(service.normalize('CONTEMPORARY AMPEREX TECHNOLOGY CO LTD')).toBe('CATL');
+        expect(service.normalize('LG CHEM LTD')).toBe('LG Chem');
+    });
+
+    it('resolves a subsidiary to its top-level parent', () => {
+        expect(service.resolve('WAYMO LLC')).toEqual({ name: 'Waymo', parent: 'Alphabet' });
+        expect(service.resolve('Alphabet Inc')).toEqual({ name: 'Alphabet' });
+        expect(service.resolve('TESLA INC')).toEqual({ name: 'Tesla' });
+    });
+
+    it('expands an assignee filter to the names of the company and its subsidiaries', () => {
+        expect(service.expandFilters({ assignees: ['Alphabet', 'Tesla Inc'] })?.assignees).toEqual([
+            'ALPHABET', 'GOOGLE', 'GOOGLE TECHNOLOGY HOLDINGS', 'WAYMO', 'TESLA',
+        ]);
+        expect(service.expandFilters({ countries: ['US'] })).toEqual({ countries: ['US'] });
+    });
+
+    it('rolls counts up into top-level companies with per-company counts', () => {
+        expect(service.aggregate([
+            { assignee: 'GOOGLE LLC', count: 5 },
+            { assignee: 'WAYMO LLC', count: 2 },
+            { assignee: 'Google Inc.', count: 1 },
+            { assignee: 'TESLA INC', count: 4 },
+        ])).toEqual([
+            { assignee: 'Alphabet', count: 8, companies: [{ name: 'Google', count: 6 }, { name: 'Waymo', count: 2 }] },
+            { assignee: 'Tesla', count: 4, companies: [{ name: 'Tesla', count: 4 }] },
+        ]);
+    });
+
+    it('suggests companies whose names, aliases or harmonized names match, counting subsidiaries', () => {
+        const suggestions = service.suggest('goo', [
+            { name: 'GOOGLE LLC', count: 5 },
+            { name: 'WAYMO LLC', count: 2 },
+        ], 10);
+        expect(suggestions).toEqual([
+            { name: 'Google', parent: 'Alphabet', matched_names: ['GOOGLE LLC', 'WAYMO LLC'], patent_count: 7 },
+        ]);
+    });
+
+    it('suggests nothing for a legal form alone', () => {
+        expect(service.searchTerms('Co')).toEqual(['Co']);
+        expect(service.suggest('Co', [{ name: 'GOOGLE LLC', count: 5 }], 10)).toEqual([]);
+    });
+
+    it('saves edits to the store and leaves the shipped table untouched', () => {
+        service.upsertEntity({ name: 'Tesla', aliases: ['Tesla Motors'] });
+
+        expect(fs.readFileSync(aliasesPath, 'utf8')).toBe(JSON.stringify(TABLE));
+        const stored = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+        expect(stored.description).toBe('Test alias table');
+        expect(stored.entities.map((entity: { name: string }) => entity.name)).toEqual(['Alphabet', 'CATL', 'Google', 'Tesla', 'Waymo']);
+
+        const reloaded = new AssigneeService(aliasesPath, storePath);
+        expect(reloaded.normalize('TESLA MOTORS INC')).toBe('Tesla');
+    });
+
+    it('moves subsidiaries along on rename and up to the parent on delete', () => {
+        service.upsertEntity({ name: 'Google Group', aliases: [], parent: 'Alphabet' }, 'Google');
+        expect(service.resolve('Waymo')).toEqual({ name: 'Waymo', parent: 'Alphabet' });
+        expect(service.listEntities().find(entity => entity.name === 'Waymo')?.parent).toBe('Google Group');
+
+        expect(service.deleteEntity('Google Group')).toBe(true);
+        expect(service.listEntities().find(entity => entity.name === 'Waymo')?.parent).toBe('Alphabet');
+        expect(service.deleteEntity('Google Group')).toBe(false);
+    });
+
+    it('rejects parents that are missing or would make a company its own ancestor', () => {
+        expect(() => service.upsertEntity({ name: 'Tesla', aliases: [], parent: 'SpaceX' })).toThrow(AssigneeTableError);
+        expect(() => service.upsertEntity({ name: 'Alphabet', aliases: [], parent: 'Alphabet' })).toThrow(/own parent/);
+        expect(() => service.upsertEntity({ name: 'Alphabet', aliases: [], parent: 'Waymo' })).toThrow(/own subsidiary/);
+        expect(fs.existsSync(storePath)).toBe(false);
+    });
+
+    it('rejects names that belong to another company', () => {
+        expect(() => service.upsertEntity({ name: 'Tesla', aliases: ['Google Inc'] })).toThrow('"Google Inc" already belongs to Google');
+    });
+});
@@ -0,0 +1,381 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { assigneeKey, assigneeWordPattern, displayAssigneeName } from '@/utils/assigneeNames';
+import { AssigneeEntity, AssigneeRollup, AssigneeSuggestion, PatentSearchFilters } from '@/types/patent';
+
+export interface ResolvedAssignee {
+    /** Normalized company name */
+    name: string;
+    /** Top-level parent company, when the company is a subsidiary */
+    parent?: string;
+}
+
+interface AliasFile {
+    description?: string;
+    entities: AssigneeEntity[];
+}
+
+/**
+ * Rejected edit of the alias table, such as a parent that would make a
+ * company its own ancestor
+ */
+export class AssigneeTableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AssigneeTableError';
+    }
+}
+
+/**
+ * Assignee entity resolution over the alias table, loaded on first use.
+ *
+ * Names resolve through their comparison key (see assigneeKey): a key equal
+ * to a company's name or one of its aliases resolves to that company, any
+ * other name to its own title-cased key. The table shipped at
+ * config.assignees.aliasesPath is read-only; admin edits are saved to
+ * config.assignees.storePath, which is read instead once it exists.
+ */
+export class AssigneeService {
+    private entities?: AssigneeEntity[];
+    private description?: string;
+    // Comparison key of every entity name and alias → entity
+    private byKey?: Map<string, AssigneeEntity>;
+
+    constructor(
+        private readonly aliasesPath: string = config.assignees.aliasesPath,
+        private readonly storePath: string = config.assignees.storePath
+    ) { }
+
+    /**
+     * Display name of the company an assignee name belongs to
+     */
+    normalize(name: string): string {
+        const key = assigneeKey(name);
+        return this.index().get(key)?.name ?? displayAssigneeName(key);
+    }
+
+    /**
+     * The company an assignee name belongs to, with its top-level parent
+     */
+    resolve(name: string): ResolvedAssignee {
+        const entity = this.index().get(assigneeKey(name));
+        if (!entity) {
+            return { name: this.normalize(name) };
+        }
+
+        const lineage = this.lineage(entity);
+        const top = lineage[lineage.length - 1] as AssigneeEntity;
+        return top === entity ? { name: entity.name } : { name: entity.name, parent: top.name };
+    }
+
+    /**
+     * Replace the assignee filter with every name its companies file under:
+     * each known company's name and aliases, and those of its subsidiaries.
+     * Unknown names are kept as given.
+     */
+    expandFilters(filters?: PatentSearchFilters): PatentSearchFilters | undefined {
+        if (!filters?.assignees?.length) {
+            return filters;
+        }
+
+        const names = filters.assignees.flatMap(assignee => this.companyNames(assignee)).map(assigneeKey);
+        return { ...filters, assignees: [...new Set(names.filter(key => key.length > 0))] };
+    }
+
+    /**
+     * Roll per-name counts up into their top-level companies, largest first.
+     * Each rollup sums the names merged into the company and its
+     * subsidiaries, and lists the per-company counts it is made of.
+     */
+    aggregate(counts: { assignee: string; count: number }[], limit: number = 20): AssigneeRollup[] {
+        const rollups = new Map<string, { count: number; companies: Map<string, number> }>();
+        for (const { assignee, count } of counts) {
+            const { name, parent } = this.resolve(assignee);
+            const top = parent ?? name;
+            let rollup = rollups.get(top);
+            if (!rollup) {
+                rollup = { count: 0, companies: new Map() };
+                rollups.set(top, rollup);
+            }
+            rollup.count += count;
+            rollup.companies.set(name, (rollup.companies.get(name) || 0) + count);
+        }
+
+        const largestFirst = (a: { name: string; count: number }, b: { name: string; count: number }) =>
+            b.count - a.count || a.name.localeCompare(b.name);
+
+        return Array.from(rollups.entries(), ([name, { count, companies }]) => ({
+            name,
+            count,
+            companies: Array.from(companies.entries(), ([company, total]) => ({ name: company, count: total })).sort(largestFirst),
+        }))
+            .sort(largestFirst)
+            .slice(0, limit)
+            .map(({ name, count, companies }) => ({ assignee: name, count, companies }));
+    }
+
+    /**
+     * Terms to look up harmonized names by for an autocomplete query: the
+     * query itself plus the names of the companies it matches, so a parent
+     * company's suggestion can count its subsidiaries' publications
+     */
+    searchTerms(query: string): string[] {
+        const pattern = new RegExp(assigneeWordPattern([query]));
+        const matched = this.load().filter(entity =>
+            [entity.name, ...entity.aliases].some(name => pattern.test(assigneeKey(name)))
+        );
+
+        return [query, ...matched.flatMap(entity => this.companyNames(entity.name))];
+    }
+
+    /**
+     * Autocomplete suggestions for a query, from the harmonized names found
+     * for its `searchTerms`. A company is suggested when its name, an alias or
+     * one of its harmonized names matches the query; its count includes its
+     * subsidiaries' names.
+     */
+    suggest(query: string, observed: { name: string; count: number }[], limit: number): AssigneeSuggestion[] {
+        const pattern = new RegExp(assigneeWordPattern([query]));
+        const companies = new Map<string, AssigneeSuggestion & { matches: boolean }>();
+        const company = (name: string) => {
+            let suggestion = companies.get(name);
+            if (!suggestion) {
+                const { parent } = this.resolve(name);
+                suggestion = { name, ...(parent && { parent }), matched_names: [], patent_count: 0, matches: false };
+                companies.set(name, suggestion);
+            }
+            return suggestion;
+        };
+
+        for (const entity of this.load()) {
+            if ([entity.name, ...entity.aliases].some(name => pattern.test(assigneeKey(name)))) {
+                company(entity.name).matches = true;
+            }
+        }
+
+        for (const { name, count } of observed) {
+            const entity = this.index().get(assigneeKey(name));
+            const owners = entity ? this.lineage(entity).map(owner => owner.name) : [this.normalize(name)];
+            for (const owner of owners) {
+                const suggestion = company(owner);
+                suggestion.matched_names.push(name);
+                suggestion.patent_count += count;
+            }
+            if (pattern.test(assigneeKey(name))) {
+                company(owners[0] as string).matches = true;
+            }
+        }
+
+        return Array.from(companies.values())
+            .filter(suggestion => suggestion.matches)
+            .sort((a, b) => b.patent_count - a.patent_count || a.name.localeCompare(b.name))
+            .slice(0, limit)
+            .map(({ matches, ...suggestion }) => suggestion);
+    }
+
+    /**
+     * Every company in the alias table, by name
+     */
+    listEntities(): AssigneeEntity[] {
+        return [...this.load()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Add a company or replace the one with the same name (or `currentName`,
+     * when renaming), and save the table. Subsidiaries follow a renamed parent.
+     */
+    upsertEntity(entity: AssigneeEntity, currentName: string = entity.name): AssigneeEntity {
+        const entities = this.load();
+        const currentKey = assigneeKey(currentName);
+        const key = assigneeKey(entity.name);
+        if (!key) {
+            throw new AssigneeTableError('Company name must contain letters or digits');
+        }
+
+        const existing = entities.find(candidate => assigneeKey(candidate.name) === currentKey);
+        const saved: AssigneeEntity = {
+            name: entity.name.trim(),
+            aliases: [...new Set(entity.aliases.map(alias => alias.trim()))]
+                .filter(alias => assigneeKey(alias) && assigneeKey(alias) !== key),
+            ...(entity.parent?.trim() && { parent: entity.parent.trim() }),
+        };
+
+        for (const name of [saved.name, ...saved.aliases]) {
+            const owner = this.index().get(assigneeKey(name));
+            if (owner && owner !== existing) {
+                throw new AssigneeTableError(`"${name}" already belongs to ${owner.name}`);
+            }
+        }
+
+        const others = entities.filter(candidate => candidate !== existing);
+        if (saved.parent) {
+            const parentKey = assigneeKey(saved.parent);
+            if (parentKey === key || parentKey === currentKey) {
+                throw new AssigneeTableError(`${saved.name} cannot be its own parent`);
+            }
+            const parent = others.find(candidate => assigneeKey(candidate.name) === parentKey);
+            if (!parent) {
+                throw new AssigneeTableError(`Parent company ${saved.parent} is not in the alias table`);
+            }
+            const ancestors: AssigneeEntity[] = [];
+            for (let ancestor: AssigneeEntity | undefined = parent; ancestor && !ancestors.includes(ancestor); ancestor = this.parentOf(ancestor, others)) {
+                if (ancestor.parent && [key, currentKey].includes(assigneeKey(ancestor.parent))) {
+                    throw new AssigneeTableError(`${saved.name} cannot be a subsidiary of its own subsidiary ${parent.name}`);
+                }
+                ancestors.push(ancestor);
+            }
+            saved.parent = parent.name;
+        }
+
+        if (existing && currentKey !== key) {
+            for (const child of others.filter(candidate => candidate.parent && assigneeKey(candidate.parent) === currentKey)) {
+                child.parent = saved.name;
+            }
+        }
+
+        this.save([...others, saved]);
+        logger.info('Assignee entity saved', { name: saved.name, previousName: existing?.name });
+        return saved;
+    }
+
+    /**
+     * Remove a company and save the table; its subsidiaries move up to its
+     * parent. False when the company is not in the table.
+     */
+    deleteEntity(name: string): boolean {
+        const entities = this.load();
+        const key = assigneeKey(name);
+        const existing = entities.find(candidate => assigneeKey(candidate.name) === key);
+        if (!existing) {
+            return false;
+        }
+
+        const others = entities.filter(candidate => candidate !== existing);
+        for (const child of others.filter(candidate => candidate.parent && assigneeKey(candidate.parent) === key)) {
+            if (existing.parent) {
+                child.parent = existing.parent;
+            } else {
+                delete child.parent;
+            }
+        }
+
+        this.save(others);
+        logger.info('Assignee entity deleted', { name: existing.name });
+        return true;
+    }
+
+    /**
+     * Names a company files under, including its subsidiaries'; just the
+     * given name for companies not in the table
+     */
+    private companyNames(name: string): string[] {
+        const root = this.index().get(assigneeKey(name));
+        if (!root) {
+            return [name];
+        }
+
+        const names: string[] = [];
+        const queue = [root];
+        const seen = new Set<AssigneeEntity>();
+        for (let entity = queue.shift(); entity; entity = queue.shift()) {
+            if (seen.has(entity)) {
+                continue;
+            }
+            seen.add(entity);
+            names.push(entity.name, ...entity.aliases);
+            const key = assigneeKey(entity.name);
+            queue.push(...this.load().filter(child => child.parent && assigneeKey(child.parent) === key));
+        }
+        return names;
+    }
+
+    /**
+     * The entity followed by its parent, grandparent and so on
+     */
+    private lineage(entity: AssigneeEntity): AssigneeEntity[] {
+        const lineage = [entity];
+        for (let parent = this.parentOf(entity); parent && !lineage.includes(parent); parent = this.parentOf(parent)) {
+            lineage.push(parent);
+        }
+        return lineage;
+    }
+
+    private parentOf(entity: AssigneeEntity, entities: AssigneeEntity[] = this.load()): AssigneeEntity | undefined {
+        if (!entity.parent) {
+            return undefined;
+        }
+        const key = assigneeKey(entity.parent);
+        return entities.find(candidate => assigneeKey(candidate.name) === key);
+    }
+
+    private index(): Map<string, AssigneeEntity> {
+        if (this.byKey) {
+            return this.byKey;
+        }
+
+        const byKey = new Map<string, AssigneeEntity>();
+        for (const entity of this.load()) {
+            for (const name of [entity.name, ...entity.aliases]) {
+                const key = assigneeKey(name);
+                if (!key) {
+                    continue;
+                }
+                if (byKey.has(key)) {
+                    logger.warn('Skipping duplicate assignee alias', { name, entity: entity.name });
+                    continue;
+                }
+                byKey.set(key, entity);
+            }
+        }
+
+        this.byKey = byKey;
+        return byKey;
+    }
+
+    private load(): AssigneeEntity[] {
+        if (this.entities) {
+            return this.entities;
+        }
+
+        const storePath = path.resolve(this.storePath);
+        const resolvedPath = fs.existsSync(storePath) ? storePath : path.resolve(this.aliasesPath);
+        if (!fs.existsSync(resolvedPath)) {
+            logger.warn('Assignee alias table not found; names are only normalized', { aliasesPath: resolvedPath });
+            this.entities = [];
+            return this.entities;
+        }
+
+        const file = JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as AliasFile;
+        this.description = file.description;
+        this.entities = (file.entities || []).map(entity => ({
+            name: entity.name,
+            aliases: entity.aliases || [],
+            ...(entity.parent && { parent: entity.parent }),
+        }));
+
+        logger.info('Assignee alias table loaded', { aliasesPath: resolvedPath, entities: this.entities.length });
+        return this.entities;
+    }
+
+    private save(entities: AssigneeEntity[]): void {
+        const sorted = [...entities].sort((a, b) => a.name.localeCompare(b.name));
+        const file: AliasFile = {
+            ...(this.description && { description: this.description }),
+            entities: sorted,
+        };
+
+        // Write then rename so a crash never leaves a truncated table behind
+        const resolvedPath = path.resolve(this.storePath);
+        fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+        const tempPath = `${resolvedPath}.tmp`;
+        fs.writeFileSync(tempPath, `${JSON.stringify(file, null, 4)}\n`);
+        fs.renameSync(tempPath, resolvedPath);
+
+        this.entities = sorted;
+        this.byKey = undefined;
+    }
+}
+
+export const assigneeService = new AssigneeService();
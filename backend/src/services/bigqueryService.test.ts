@@ -0,0 +1,169 @@
+import { BigQueryService } from './bigqueryService';
+import { ParameterizedQuery } from '@/utils/queryBuilder';
+import { PatentSearchFilters } from '@/types/patent';
+
+const HOSTILE = [
+    'O\'Reilly "quoted"',
+    '100%_done',
+    'back\\slash\\',
+    '\'; DROP TABLE publications; --',
+];
+
+const HOSTILE_FILTERS: PatentSearchFilters = {
+    dateRange: { start: '2021-01-01', end: '2022-12-31' },
+    countries: ['US', '\'; DROP TABLE publications; --'],
+    assignees: ['O\'Reilly "quoted"', 'back\\slash\\'],
+    classifications: ['H01M_%', '\'; DROP TABLE publications; --'],
+};
+
+// Statements built from hostile input must only carry it as parameter values
+const expectParameterized = (built: ParameterizedQuery) => {
+    for (const value of HOSTILE) {
+        expect(built.query).not.toContain(value);
+    }
+    expect(built.query).not.toContain('DROP');
+    expect(built.query).not.toContain('Reilly');
+    for (const placeholder of built.query.match(/@[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+        expect(built.params).toHaveProperty(placeholder.slice(1));
+    }
+};
+
+describe('BigQueryService query builders', () => {
+    const service = new BigQueryService();
+
+    it.each(HOSTILE)('builds keyword searches for %s', keywords => {
+        const built: ParameterizedQuery = service['buildKeywordSearchQuery'](keywords, HOSTILE_FILTERS, 50, 'full');
+        expect(built).toMatchSnapshot();
+        expectParameterized(built);
+    });
+
+    it('builds fielded keyword searches without scoring terms', () => {
+        const built: ParameterizedQuery = service['buildKeywordSearchQuery']('assignee:"O\'Reilly 100%"', undefined, 10, 'abstract');
+        expect(built).toMatchSnapshot();
+        expectParameterized(built);
+    });
+
+    it('takes keyword term statistics from a fixed sample and reads full text of candidates only', () => {
+        const built: ParameterizedQuery = service['buildKeywordSearchQuery']('battery anode', { countries: ['US'] }, 10, 'full');
+        const section = (from: string, to: string) => built.query.slice(built.query.indexOf(from), built.query.indexOf(to));
+
+        const sample = section('WITH sample AS', 'corpus_stats AS');
+        expect(sample).toContain('TABLESAMPLE SYSTEM (1 PERCENT)');
+        expect(sample).toContain('p.publication_date >= 20200101');
+        expect(sample).not.toMatch(/@\w+/);
+
+        const candidates = section('candidates AS', 'scored AS');
+        expect(candidates).toContain('p.country_code IN UNNEST(@countries)');
+        expect(candidates).toMatch(/AND \(?\(EXISTS\(SELECT 1 FROM UNNEST\(p\.title_localized\)/);
+        expect(built.query.match(/LOWER\(/g)).toHaveLength(6);
+        expect(section('scored AS', 'SELECT c.*')).toContain('FROM candidates c');
+    });
+
+    it('builds publication, full text and detail lookups', () => {
+        const lookups: ParameterizedQuery[] = [
+            service['buildPatentIdQuery'](HOSTILE),
+            service['buildFullTextQuery'](HOSTILE),
+            service['buildPatentDetailQuery'](HOSTILE[3] as string),
+            service['buildFamilyQuery'](HOSTILE[0] as string, HOSTILE[3] as string),
+            service['buildFamilyMembersQuery'](HOSTILE),
+            service['buildCitationLinksQuery'](HOSTILE),
+            service['buildForwardCitationCountQuery'](HOSTILE[2] as string),
+        ];
+        for (const built of lookups) {
+            expect(built).toMatchSnapshot();
+            expectParameterized(built);
+        }
+    });
+
+    it('builds assignee name lookups', () => {
+        const built: ParameterizedQuery = service['buildAssigneeNamesQuery'](HOSTILE, 10);
+        expect(built).toMatchSnapshot();
+        expectParameterized(built);
+    });
+
+    it('builds classification searches with escaped, upper-cased prefixes', () => {
+        const built: ParameterizedQuery = service['buildClassificationSearchQuery'](HOSTILE, HOSTILE_FILTERS, 25);
+        expect(built).toMatchSnapshot();
+        expectParameterized(built);
+        expect(built.params.cpc1).toBe('100\\%\\_DONE%');
+        expect(built.params.cpc2).toBe('BACK\\\\SLASH\\\\%');
+        // One row per publication, with the same columns as ID lookups
+        const columns = (query: string) => query.slice(query.indexOf('SELECT'), query.indexOf('FROM'));
+        expect(columns(built.query)).toBe(columns(service['buildPatentIdQuery'](['US-1-A']).query));
+        expect(built.query).not.toMatch(/JOIN|GROUP BY/);
+    });
+
+    it.each(['citing', 'cited'] as const)('builds %s citation queries', direction => {
+        for (const family of [false, true]) {
+            const built: ParameterizedQuery = service['buildCitationQuery'](HOSTILE[3] as string, direction, { family, limit: 20, offset: 40 });
+            expect(built).toMatchSnapshot();
+            expectParameterized(built);
+        }
+    });
+
+    it('builds landscape statistics over a hostile scope', () => {
+        const statements: Record<string, ParameterizedQuery> = service['buildStatisticsQueries']({
+            query: HOSTILE[1],
+            scope: 'claims',
+            patentIds: HOSTILE,
+            filters: HOSTILE_FILTERS,
+        });
+        for (const built of Object.values(statements)) {
+            expect(built).toMatchSnapshot();
+            expectParameterized(built);
+        }
+    });
+
+    it('builds portfolio statistics over hostile filters', () => {
+        const statements: Record<string, ParameterizedQuery> = service['buildPortfolioQueries'](HOSTILE_FILTERS);
+        for (const built of Object.values(statements)) {
+            expect(built).toMatchSnapshot();
+            expectParameterized(built);
+        }
+    });
+
+    describe('date predicates', () => {
+        const range = { dateRange: { start: '2021-03-01', end: '2021-12-31' } };
+        const builders: Record<string, (filters: PatentSearchFilters) => ParameterizedQuery> = {
+            keyword: filters => service['buildKeywordSearchQuery']('battery', filters),
+            classification: filters => service['buildClassificationSearchQuery'](['H01M'], filters),
+            statistics: filters => service['buildStatisticsQueries']({ query: 'battery', filters }).total,
+            portfolio: filters => service['buildPortfolioQueries'](filters).total,
+        };
+
+        it.each(Object.keys(builders))('binds %s date bounds as inclusive YYYYMMDD numbers', name => {
+            const build = builders[name] as (filters: PatentSearchFilters) => ParameterizedQuery;
+
+            const both = build(range);
+            expect(both.query).toContain('p.publication_date >= @dateStart');
+            expect(both.query).toContain('p.publication_date <= @dateEnd');
+            expect(both.params).toMatchObject({ dateStart: 20210301, dateEnd: 20211231 });
+            expect(both.types).toMatchObject({ dateStart: 'INT64', dateEnd: 'INT64' });
+
+            const startOnly = build({ dateRange: { start: '2021-03-01' } });
+            expect(startOnly.params).toHaveProperty('dateStart', 20210301);
+            expect(startOnly.params).not.toHaveProperty('dateEnd');
+            expect(startOnly.query).not.toContain('@dateEnd');
+
+            const endOnly = build({ dateRange: { end: '2021-12-31' } });
+            expect(endOnly.params).toHaveProperty('dateEnd', 20211231);
+            expect(endOnly.params).not.toHaveProperty('dateStart');
+            expect(endOnly.query).not.toContain('@dateStart');
+
+            const none = build({});
+            expect(none.query).not.toMatch(/@date(Start|End)/);
+        });
+
+        it('keeps searches within the dataset window', () => {
+            expect(builders.keyword?.({}).query).toContain('p.publication_date >= 20200101');
+            expect(builders.classification?.({}).query).toContain('p.publication_date >= 20200101');
+        });
+
+        it('binds pd: query clauses the same way', () => {
+            const built: ParameterizedQuery = service['buildKeywordSearchQuery']('battery pd:[2021 TO 2022-06-30]');
+            expect(built.query).toContain('(p.publication_date >= @q1 AND p.publication_date <= @q2)');
+            expect(built.params).toMatchObject({ q1: 20210101, q2: 20220630 });
+            expect(built.types).toMatchObject({ q1: 'INT64', q2: 'INT64' });
+        });
+    });
+});
@@ -1,45 +1,82 @@
 import { BigQuery } from '@google-cloud/bigquery';
 import { config } from '@/config/config';
 import { logger, patentLogger } from '@/utils/logger';
-
-export interface PatentSearchFilters {
-  dateRange?: {
-    start?: string;
-    end?: string;
-  };
-  countries?: string[];
-  assignees?: string[];
-  classifications?: string[];
-}
-
-export interface PatentResult {
-  patent_id: string;
-  title: string;
-  abstract: string;
-  publication_date: string;
-  assignee: string;
-  inventors: string[];
-  country_code: string;
-  kind_code: string;
-  family_id: string;
-  classifications: string[];
-  similarity_score: number;
-  url: string;
+import {
+  ParameterizedQuery,
+  QueryParameters,
+  clampLimit,
+  prefixPattern,
+} from '@/utils/queryBuilder';
+import { BM25_B, BM25_K1, FIELD_BOOSTS, SCOPE_FIELDS, ScoredField } from '@/utils/keywordScoring';
+import { matchClaim, parseLocalizedClaims } from '@/utils/claimParser';
+import { pickLocalized } from '@/utils/languages';
+import { EARLIEST_PUBLICATION_DATE, toDateNumber, toIsoDate } from '@/utils/dates';
+import { assigneeWordPattern } from '@/utils/assigneeNames';
+import { parseQuery } from '@/utils/queryParser';
+import { compileToSql, filterClauses, scoringTerms } from '@/utils/queryCompiler';
+import {
+  CitationLink,
+  ClassificationScheme,
+  PatentCitationOptions,
+  PatentCitations,
+  PatentClassification,
+  PatentDetail,
+  PatentFamilyMember,
+  PatentFullText,
+  PatentResult,
+  PatentSearchFilters,
+  PatentSearchPage,
+  PatentStatistics,
+  PortfolioStatistics,
+  SearchScope,
+  StatisticsScope,
+} from '@/types/patent';
+import { PatentRepository } from './patentRepository';
+import { cacheService } from './cacheService';
+import { assigneeService } from './assigneeService';
+
+export interface BigQueryClassification {
+  code: string;
+  inventive: boolean;
+  first: boolean;
 }
 
-interface BigQueryPatent {
+export interface BigQueryPatent {
   publication_number: string;
   title_localized: Array<{ text: string; language: string }>;
   abstract_localized: Array<{ text: string; language: string }>;
-  publication_date: string;
+  /** YYYYMMDD dates; 0 when unknown */
+  publication_date: number;
+  filing_date?: number;
+  priority_date?: number;
+  grant_date?: number;
   assignee_harmonized: Array<{ name: string }>;
   inventor_harmonized: Array<{ name: string }>;
   country_code: string;
   kind_code: string;
   family_id: string;
+  cpc?: BigQueryClassification[];
+  ipc?: BigQueryClassification[];
+  relevance_score?: number;
+  keyword_matches?: string[];
+  /** Selected by keyword searches whose scope includes claims */
+  claims_localized?: Array<{ text: string; language: string; truncated?: boolean }>;
+  /** Selected for passage indexing */
+  description_localized?: Array<{ text: string; language: string; truncated?: boolean }>;
 }
 
-export class BigQueryService {
+/**
+ * Publication row with the long-text and date columns only the detail view reads
+ */
+export interface BigQueryPatentDetail extends BigQueryPatent {
+  application_number: string;
+  claims_localized: Array<{ text: string; language: string; truncated?: boolean }>;
+  description_localized: Array<{ text: string; language: string; truncated?: boolean }>;
+  assignee_harmonized: Array<{ name: string; country_code?: string }>;
+  inventor_harmonized: Array<{ name: string; country_code?: string }>;
+}
+
+export class BigQueryService implements PatentRepository {
   private bigquery: BigQuery;
   private readonly projectId: string;
 
@@ -63,29 +100,34 @@ export class BigQueryService {
   }
 
   /**
-   * Search patents by keywords in title and abstract
+   * Search patents by keywords in the title, abstract and/or claims
    */
   async searchPatentsByKeywords(
     keywords: string,
     filters?: PatentSearchFilters,
-    limit: number = 100
-  ): Promise<PatentResult[]> {
+    limit: number = 100,
+    scope: SearchScope = 'abstract',
+    offset: number = 0
+  ): Promise<PatentSearchPage> {
     const startTime = Date.now();
 
-    const query = this.buildKeywordSearchQuery(keywords, filters, limit);
+    const query = this.buildKeywordSearchQuery(keywords, filters, limit, scope, offset);
 
-    logger.debug('Executing BigQuery keyword search', { query: query.substring(0, 200) });
+    logger.debug('Executing BigQuery keyword search', { query: query.query.substring(0, 200), scope });
 
-    const [rows] = await this.bigquery.query({
-      query,
-      location: config.bigquery.location,
-    });
+    const rows = await this.runQuery(query);
 
-    const results = this.transformBigQueryResults(rows as BigQueryPatent[]);
+    const transformed = transformBigQueryResults(rows as BigQueryPatent[]);
+    const results = SCOPE_FIELDS[scope].includes('claims')
+      ? attachMatchedClaims(transformed, rows as BigQueryPatent[])
+      : transformed;
 
-    patentLogger.bigqueryQuery(query, Date.now() - startTime);
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
 
-    return results;
+    return {
+      results,
+      totalMatches: rows.length > 0 ? Number(rows[0].total_matches) : 0,
+    };
   }
 
   /**
@@ -96,18 +138,77 @@ export class BigQueryService {
 
     const query = this.buildPatentIdQuery(patentIds);
 
-    const [rows] = await this.bigquery.query({
-      query,
-      location: config.bigquery.location,
-    });
+    const rows = await this.runQuery(query);
 
-    const results = this.transformBigQueryResults(rows as BigQueryPatent[]);
+    const results = transformBigQueryResults(rows as BigQueryPatent[]);
 
-    patentLogger.bigqueryQuery(query, Date.now() - startTime);
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
 
     return results;
   }
 
+  /**
+   * Get the parsed claims and description of several publications
+   */
+  async getPatentFullText(patentIds: string[]): Promise<Map<string, PatentFullText>> {
+    const startTime = Date.now();
+
+    const query = this.buildFullTextQuery(patentIds);
+
+    const rows = await this.runQuery(query);
+
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
+
+    return toFullTextByPublication(rows as BigQueryPatent[]);
+  }
+
+  /**
+   * Get the full record of one publication with its family and citation counts
+   */
+  async getPatentDetail(patentId: string): Promise<PatentDetail | undefined> {
+    const startTime = Date.now();
+
+    const [row] = await this.runQuery(this.buildPatentDetailQuery(patentId));
+    if (!row) {
+      return undefined;
+    }
+
+    const [familyRows, forwardRows] = await Promise.all([
+      row.family_id && row.family_id !== '-1'
+        ? this.runQuery(this.buildFamilyQuery(row.family_id, patentId))
+        : Promise.resolve([]),
+      this.runQuery(this.buildForwardCitationCountQuery(patentId)),
+    ]);
+
+    patentLogger.bigqueryQuery(`Patent detail queries for ${patentId}`, Date.now() - startTime);
+
+    return transformPatentDetail(row as BigQueryPatentDetail, familyRows as BigQueryPatent[], {
+      backward: Number(row.backward_citations) || 0,
+      forward: Number(forwardRows[0]?.forward_citations) || 0,
+      non_patent: Number(row.non_patent_citations) || 0,
+    });
+  }
+
+  /**
+   * Get every publication of several families
+   */
+  async getFamilyMembers(familyIds: string[]): Promise<Map<string, PatentFamilyMember[]>> {
+    const startTime = Date.now();
+
+    const ids = familyIds.filter(id => id && id !== '-1');
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const query = this.buildFamilyMembersQuery(ids);
+
+    const rows = await this.runQuery(query);
+
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
+
+    return toFamilyMembersByFamily(rows as BigQueryPatent[]);
+  }
+
   /**
    * Search patents by CPC/IPC classification codes
    */
@@ -120,14 +221,11 @@ export class BigQueryService {
 
     const query = this.buildClassificationSearchQuery(classifications, filters, limit);
 
-    const [rows] = await this.bigquery.query({
-      query,
-      location: config.bigquery.location,
-    });
+    const rows = await this.runQuery(query);
 
-    const results = this.transformBigQueryResults(rows as BigQueryPatent[]);
+    const results = transformBigQueryResults(rows as BigQueryPatent[]);
 
-    patentLogger.bigqueryQuery(query, Date.now() - startTime);
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
 
     return results;
   }
@@ -135,65 +233,82 @@ export class BigQueryService {
   /**
    * Get patent citation network (forward and backward citations)
    */
-  async getPatentCitations(patentId: string): Promise<{
-    citing: PatentResult[];
-    cited: PatentResult[];
-  }> {
+  async getPatentCitations(patentId: string, options: PatentCitationOptions): Promise<PatentCitations> {
     const startTime = Date.now();
 
-    const [citingQuery, citedQuery] = this.buildCitationQueries(patentId);
-
-    const [citingResults, citedResults] = await Promise.all([
-      this.bigquery.query({ query: citingQuery, location: config.bigquery.location }),
-      this.bigquery.query({ query: citedQuery, location: config.bigquery.location }),
+    const [citingRows, citedRows] = await Promise.all([
+      this.runQuery(this.buildCitationQuery(patentId, 'citing', options)),
+      this.runQuery(this.buildCitationQuery(patentId, 'cited', options)),
     ]);
 
-    const citing = this.transformBigQueryResults(citingResults[0] as BigQueryPatent[]);
-    const cited = this.transformBigQueryResults(citedResults[0] as BigQueryPatent[]);
-
     patentLogger.bigqueryQuery(`Citation queries for ${patentId}`, Date.now() - startTime);
 
-    return { citing, cited };
+    return {
+      citing: transformBigQueryResults(citingRows as BigQueryPatent[]),
+      cited: transformBigQueryResults(citedRows as BigQueryPatent[]),
+      total_citing: Number(citingRows[0]?.total_count) || 0,
+      total_cited: Number(citedRows[0]?.total_count) || 0,
+    };
+  }
+
+  /**
+   * Get the citations made or received by any of the publications, from the
+   * publications' `citation` arrays
+   */
+  async getCitationLinks(patentIds: string[]): Promise<CitationLink[]> {
+    const startTime = Date.now();
+
+    if (patentIds.length === 0) {
+      return [];
+    }
+
+    const query = this.buildCitationLinksQuery(patentIds);
+
+    const rows = await this.runQuery(query);
+
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
+
+    return rows.map(row => ({
+      citing: row.citing_publication_number,
+      cited: row.cited_publication_number,
+      category: row.category || '',
+    }));
   }
 
   /**
-   * Get patent statistics for landscape analysis
+   * Get landscape statistics over the publications matching the scope's
+   * keyword query or listed among its patent IDs
    */
-  async getPatentStatistics(filters?: PatentSearchFilters): Promise<{
-    totalPatents: number;
-    yearlyDistribution: { year: number; count: number }[];
-    topAssignees: { assignee: string; count: number }[];
-    topClassifications: { classification: string; count: number }[];
-  }> {
+  async getPatentStatistics(scope: StatisticsScope): Promise<PatentStatistics> {
     const startTime = Date.now();
 
-    const queries = this.buildStatisticsQueries(filters);
+    const queries = this.buildStatisticsQueries(scope);
 
     const [
-      totalResult,
-      yearlyResult,
-      assigneesResult,
-      classificationsResult,
+      totalRows,
+      yearlyRows,
+      assigneesRows,
+      classificationsRows,
     ] = await Promise.all([
-      this.bigquery.query({ query: queries.total, location: config.bigquery.location }),
-      this.bigquery.query({ query: queries.yearly, location: config.bigquery.location }),
-      this.bigquery.query({ query: queries.assignees, location: config.bigquery.location }),
-      this.bigquery.query({ query: queries.classifications, location: config.bigquery.location }),
+      this.runQuery(queries.total),
+      this.runQuery(queries.yearly),
+      this.runQuery(queries.assignees),
+      this.runQuery(queries.classifications),
     ]);
 
-    const result = {
-      totalPatents: totalResult[0][0]?.total || 0,
-      yearlyDistribution: yearlyResult[0].map((row: any) => ({
-        year: row.year,
-        count: row.count,
+    const result: PatentStatistics = {
+      totalPatents: Number(totalRows[0]?.total) || 0,
+      yearlyDistribution: yearlyRows.map((row: any) => ({
+        year: Number(row.year),
+        count: Number(row.count),
       })),
-      topAssignees: assigneesResult[0].map((row: any) => ({
+      topAssignees: assigneesRows.map((row: any) => ({
         assignee: row.assignee,
-        count: row.count,
+        count: Number(row.count),
       })),
-      topClassifications: classificationsResult[0].map((row: any) => ({
+      topClassifications: classificationsRows.map((row: any) => ({
         classification: row.classification,
-        count: row.count,
+        count: Number(row.count),
       })),
     };
 
@@ -202,281 +317,860 @@ export class BigQueryService {
     return result;
   }
 
+  /**
+   * Get portfolio statistics over every publication within the filters
+   */
+  async getPortfolioStatistics(filters: PatentSearchFilters): Promise<PortfolioStatistics> {
+    const startTime = Date.now();
+
+    const queries = this.buildPortfolioQueries(filters);
+
+    const [
+      totalRows,
+      trendRows,
+      cpcRows,
+      inventorRows,
+      familySizeRows,
+      impactRows,
+      topCitedRows,
+    ] = await Promise.all([
+      this.runQuery(queries.total),
+      this.runQuery(queries.filingTrend),
+      this.runQuery(queries.cpc),
+      this.runQuery(queries.inventors),
+      this.runQuery(queries.familySizes),
+      this.runQuery(queries.impact),
+      this.runQuery(queries.topCited),
+    ]);
+
+    const totalPatents = Number(totalRows[0]?.total) || 0;
+    const forwardCitations = Number(impactRows[0]?.forward_citations) || 0;
+
+    const result: PortfolioStatistics = {
+      totalPatents,
+      totalFamilies: Number(totalRows[0]?.families) || 0,
+      filingTrend: trendRows.map((row: any) => ({
+        year: Number(row.year),
+        country_code: row.country_code,
+        count: Number(row.count),
+      })),
+      cpcDistribution: cpcRows.map((row: any) => ({
+        classification: row.classification,
+        count: Number(row.count),
+      })),
+      topInventors: inventorRows.map((row: any) => ({
+        inventor: row.inventor,
+        count: Number(row.count),
+      })),
+      familySizes: familySizeRows.map((row: any) => ({
+        size: Number(row.size),
+        families: Number(row.families),
+      })),
+      citationImpact: {
+        forward_citations: forwardCitations,
+        cited_patents: Number(impactRows[0]?.cited_patents) || 0,
+        citations_per_patent: totalPatents > 0 ? forwardCitations / totalPatents : 0,
+      },
+      topCitedPatents: topCitedRows.map((row: any) => ({
+        patent_id: row.publication_number,
+        title: pickLocalized<BigQueryPatent['title_localized'][number]>(row.title_localized)?.text || 'Untitled Patent',
+        publication_date: toIsoDate(row.publication_date) || '',
+        country_code: row.country_code,
+        forward_citations: Number(row.forward_citations),
+      })),
+    };
+
+    patentLogger.bigqueryQuery('Portfolio statistics queries', Date.now() - startTime);
+
+    return result;
+  }
+
+  /**
+   * Find harmonized assignee names with a word starting with any of the terms
+   */
+  async searchAssigneeNames(terms: string[], limit: number): Promise<Array<{ name: string; count: number }>> {
+    const startTime = Date.now();
+
+    const query = this.buildAssigneeNamesQuery(terms, limit);
+
+    const rows = await this.runQuery(query);
+
+    patentLogger.bigqueryQuery(query.query, Date.now() - startTime);
+
+    return rows.map((row: any) => ({
+      name: row.name,
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Execute a parameterized query against the configured location. Rows are
+   * cached per statement and parameter values.
+   */
+  private async runQuery(query: ParameterizedQuery): Promise<any[]> {
+    return cacheService.getOrLoad('bigquery', query, async () => {
+      const [rows] = await this.bigquery.query({
+        query: query.query,
+        params: query.params,
+        types: query.types,
+        location: config.bigquery.location,
+      });
+
+      return rows;
+    });
+  }
+
   private buildKeywordSearchQuery(
     keywords: string,
     filters?: PatentSearchFilters,
-    limit: number = 100
-  ): string {
-    const baseQuery = `
+    limit: number = 100,
+    scope: SearchScope = 'abstract',
+    offset: number = 0
+  ): ParameterizedQuery {
+    const params = new QueryParameters();
+    const page = () => `LIMIT ${params.scalar('limit', clampLimit(limit, config.bigquery.maxResults), 'INT64')}
+      OFFSET ${params.scalar('offset', Math.max(0, Math.floor(offset) || 0), 'INT64')}`;
+
+    const baseConditions = `
+        p.publication_date >= ${EARLIEST_PUBLICATION_DATE}
+    `;
+    const filterConditions = filters ? this.buildFilterConditions(filters, params) : '';
+    const ast = keywords.trim() ? parseQuery(keywords) : undefined;
+    const predicate = ast ? compileToSql(ast, params, 'p', scope) : 'TRUE';
+    const terms = ast ? scoringTerms(ast) : [];
+
+    if (terms.length === 0) {
+      // Nothing to score (e.g. only fielded clauses) - newest matches first
+      return params.build(`
       SELECT 
         p.publication_number,
         p.title_localized,
         p.abstract_localized,
         p.publication_date,
+        p.filing_date,
+        p.priority_date,
+        p.grant_date,
         p.assignee_harmonized,
         p.inventor_harmonized,
         p.country_code,
         p.kind_code,
-        p.family_id
+        p.family_id,
+        p.cpc,
+        p.ipc,
+        COUNT(*) OVER () AS total_matches
       FROM \`patents-public-data.patents.publications\` p
-      WHERE 1=1
-        AND p.publication_date IS NOT NULL
-        AND p.publication_date > 0
-        AND LENGTH(CAST(p.publication_date AS STRING)) = 8
-        AND EXTRACT(YEAR FROM PARSE_DATE('%Y%m%d', CAST(p.publication_date AS STRING))) >= 2020
-    `;
-
-    let conditions = '';
-
-    if (keywords.trim()) {
-      const searchTerms = keywords.split(' ').filter(term => term.length > 0);
-      const titleSearch = searchTerms.map(term =>
-        `EXISTS(SELECT 1 FROM UNNEST(p.title_localized) AS title WHERE LOWER(title.text) LIKE LOWER('%${term}%'))`
-      ).join(' AND ');
-      const abstractSearch = searchTerms.map(term =>
-        `EXISTS(SELECT 1 FROM UNNEST(p.abstract_localized) AS abstract WHERE LOWER(abstract.text) LIKE LOWER('%${term}%'))`
-      ).join(' AND ');
-
-      conditions += ` AND ((${titleSearch}) OR (${abstractSearch}))`;
-    }
-
-    if (filters) {
-      conditions += this.buildFilterConditions(filters);
+      WHERE ${baseConditions}${filterConditions}
+        AND ${predicate}
+      ORDER BY p.publication_date DESC, p.publication_number
+      ${page()}
+    `);
     }
 
-    const orderBy = `ORDER BY p.publication_date DESC`;
-    const limitClause = `LIMIT ${Math.min(limit, config.bigquery.maxResults)}`;
-
-    return `${baseQuery}${conditions} ${orderBy} ${limitClause}`;
+    const termsParam = params.array('terms', terms, 'STRING');
+    const fields = SCOPE_FIELDS[scope];
+    const withClaims = fields.includes('claims');
+
+    // Non-overlapping occurrences of a literal term, without regex escaping concerns
+    const occurrences = (field: string) => `DIV(LENGTH(${field}) - LENGTH(REPLACE(${field}, term, '')), LENGTH(term))`;
+    const fieldLength = (field: string) => `ARRAY_LENGTH(SPLIT(${field}, ' '))`;
+    const textColumn = (field: ScoredField) =>
+      `LOWER(ARRAY_TO_STRING(ARRAY(SELECT x.text FROM UNNEST(p.${field}_localized) x), ' ')) AS ${field}_text`;
+
+    // BM25F: boosted, length-normalized term frequency per field, saturated by k1
+    // and weighted by IDF. Document frequencies and average field lengths come
+    // from a fixed block sample of the publications in the dataset window, so
+    // a search reads the full text of its candidates only instead of every
+    // publication. Claims are returned when in scope so each hit can name its
+    // best-matching claim.
+    return params.build(`
+      WITH sample AS (
+        SELECT
+          ${fields.map(textColumn).join(`,
+          `)}
+        FROM \`patents-public-data.patents.publications\` p
+          TABLESAMPLE SYSTEM (${config.bigquery.statisticsSamplePercent} PERCENT)
+        WHERE ${baseConditions}
+      ),
+      corpus_stats AS (
+        SELECT
+          COUNT(*) AS doc_count,
+          ${fields.map(field => `GREATEST(AVG(${fieldLength(`${field}_text`)}), 1) AS avg_${field}_length`).join(`,
+          `)}
+        FROM sample
+      ),
+      term_idf AS (
+        SELECT
+          df.term,
+          LN(1 + (s.doc_count - df.document_frequency + 0.5) / (df.document_frequency + 0.5)) AS idf
+        FROM (
+          SELECT term, COUNTIF(${fields.map(field => `STRPOS(c.${field}_text, term) > 0`).join(' OR ')}) AS document_frequency
+          FROM sample c
+          CROSS JOIN UNNEST(${termsParam}) AS term
+          GROUP BY term
+        ) df
+        CROSS JOIN corpus_stats s
+      ),
+      candidates AS (
+        SELECT 
+          p.publication_number,
+          p.title_localized,
+          p.abstract_localized,
+          p.publication_date,
+          p.filing_date,
+          p.priority_date,
+          p.grant_date,
+          p.assignee_harmonized,
+          p.inventor_harmonized,
+          p.country_code,
+          p.kind_code,
+          p.family_id,
+          p.cpc,
+          p.ipc,${withClaims ? `
+          p.claims_localized,` : ''}
+          ${fields.map(textColumn).join(`,
+          `)}
+        FROM \`patents-public-data.patents.publications\` p
+        WHERE ${baseConditions}${filterConditions}
+          AND ${predicate}
+      ),
+      scored AS (
+        SELECT
+          w.publication_number,
+          SUM(IF(w.weighted_tf > 0, i.idf * w.weighted_tf / (${BM25_K1} + w.weighted_tf), 0)) AS relevance_score,
+          ARRAY_AGG(IF(w.weighted_tf > 0, w.term, NULL) IGNORE NULLS) AS keyword_matches
+        FROM (
+          SELECT
+            c.publication_number,
+            term,
+            ${fields.map(field => `${FIELD_BOOSTS[field]} * ${occurrences(`c.${field}_text`)}
+              / (1 - ${BM25_B} + ${BM25_B} * ${fieldLength(`c.${field}_text`)} / s.avg_${field}_length)`).join(`
+            + `)} AS weighted_tf
+          FROM candidates c
+          CROSS JOIN UNNEST(${termsParam}) AS term
+          CROSS JOIN corpus_stats s
+        ) w
+        JOIN term_idf i ON i.term = w.term
+        GROUP BY w.publication_number
+      )
+      SELECT c.* EXCEPT (${fields.map(field => `${field}_text`).join(', ')}), sc.relevance_score, sc.keyword_matches,
+        COUNT(*) OVER () AS total_matches
+      FROM candidates c
+      JOIN scored sc ON sc.publication_number = c.publication_number
+      ORDER BY sc.relevance_score DESC, c.publication_date DESC, c.publication_number
+      ${page()}
+    `);
   }
 
-  private buildPatentIdQuery(patentIds: string[]): string {
-    const idsString = patentIds.map(id => `'${id}'`).join(',');
+  private buildPatentIdQuery(patentIds: string[]): ParameterizedQuery {
+    const params = new QueryParameters();
+    const ids = params.array('patentIds', patentIds, 'STRING');
 
-    return `
+    return params.build(`
       SELECT 
         p.publication_number,
         p.title_localized,
         p.abstract_localized,
         p.publication_date,
+        p.filing_date,
+        p.priority_date,
+        p.grant_date,
         p.assignee_harmonized,
         p.inventor_harmonized,
         p.country_code,
         p.kind_code,
-        p.family_id
+        p.family_id,
+        p.cpc,
+        p.ipc
       FROM \`patents-public-data.patents.publications\` p
-      WHERE p.publication_number IN (${idsString})
-    `;
+      WHERE p.publication_number IN UNNEST(${ids})
+    `);
   }
 
-  private buildClassificationSearchQuery(
-    classifications: string[],
-    filters?: PatentSearchFilters,
-    limit: number = 100
-  ): string {
-    const classificationConditions = classifications
-      .map(code => `c.code LIKE '${code}%'`)
-      .join(' OR ');
+  private buildFullTextQuery(patentIds: string[]): ParameterizedQuery {
+    const params = new QueryParameters();
+    const ids = params.array('patentIds', patentIds, 'STRING');
 
-    let query = `
+    return params.build(`
       SELECT 
         p.publication_number,
+        p.claims_localized,
+        p.description_localized
+      FROM \`patents-public-data.patents.publications\` p
+      WHERE p.publication_number IN UNNEST(${ids})
+    `);
+  }
+
+  private buildPatentDetailQuery(patentId: string): ParameterizedQuery {
+    const params = new QueryParameters();
+
+    return params.build(`
+      SELECT 
+        p.publication_number,
+        p.application_number,
         p.title_localized,
         p.abstract_localized,
+        p.claims_localized,
+        p.description_localized,
         p.publication_date,
-        p.application_date,
-        a.name as assignee,
+        p.filing_date,
+        p.priority_date,
+        p.grant_date,
+        p.assignee_harmonized,
         p.inventor_harmonized,
         p.country_code,
         p.kind_code,
         p.family_id,
-        ARRAY_AGG(DISTINCT c.code) as cpc_codes
+        p.cpc,
+        p.ipc,
+        (SELECT COUNT(*) FROM UNNEST(p.citation) c WHERE c.publication_number != '') AS backward_citations,
+        (SELECT COUNT(*) FROM UNNEST(p.citation) c WHERE c.publication_number = '' AND c.npl_text != '') AS non_patent_citations
       FROM \`patents-public-data.patents.publications\` p
-      INNER JOIN \`patents-public-data.patents.cpc_current\` c 
-        ON p.publication_number = c.publication_number
-      LEFT JOIN \`patents-public-data.patents.assignees\` a
-        ON p.publication_number = a.publication_number
-      WHERE (${classificationConditions})
-        AND p.publication_date >= '2020-01-01'
-    `;
-
-    if (filters) {
-      query += this.buildFilterConditions(filters);
-    }
-
-    query += `
-      GROUP BY 
-        p.publication_number, p.title_localized, p.abstract_localized, p.publication_date,
-        p.application_date, a.name, p.inventor_harmonized, p.country_code,
-        p.kind_code, p.family_id
-      ORDER BY p.publication_date DESC
-      LIMIT ${Math.min(limit, config.bigquery.maxResults)}
-    `;
-
-    return query;
+      WHERE p.publication_number = ${params.scalar('patentId', patentId, 'STRING')}
+      LIMIT 1
+    `);
   }
 
-  private buildCitationQueries(patentId: string): [string, string] {
-    // Patents that cite this patent (forward citations)
-    // Note: Google Patents public dataset may have different citation table structure
-    const citingQuery = `
+  private buildFamilyQuery(familyId: string, patentId: string): ParameterizedQuery {
+    const params = new QueryParameters();
+
+    return params.build(`
       SELECT 
         p.publication_number,
         p.title_localized,
-        p.abstract_localized,
         p.publication_date,
-        p.application_date,
-        a.name as assignee,
-        p.inventor_harmonized,
         p.country_code,
-        p.kind_code,
+        p.kind_code
+      FROM \`patents-public-data.patents.publications\` p
+      WHERE p.family_id = ${params.scalar('familyId', familyId, 'STRING')}
+        AND p.publication_number != ${params.scalar('patentId', patentId, 'STRING')}
+      ORDER BY p.publication_date, p.publication_number
+      LIMIT 100
+    `);
+  }
+
+  private buildFamilyMembersQuery(familyIds: string[]): ParameterizedQuery {
+    const params = new QueryParameters();
+    const ids = params.array('familyIds', familyIds, 'STRING');
+
+    return params.build(`
+      SELECT
+        p.publication_number,
         p.family_id,
-        ARRAY_AGG(DISTINCT c.code) as cpc_codes
+        p.title_localized,
+        p.publication_date,
+        p.country_code,
+        p.kind_code
       FROM \`patents-public-data.patents.publications\` p
-      LEFT JOIN \`patents-public-data.patents.cpc_current\` c 
-        ON p.publication_number = c.publication_number
-      LEFT JOIN \`patents-public-data.patents.assignees\` a
-        ON p.publication_number = a.publication_number
-      WHERE p.publication_number IN (
-        SELECT citing_publication_number 
-        FROM \`patents-public-data.patents.uspatentcitations\` 
-        WHERE cited_publication_number = '${patentId}'
-        LIMIT 100
-      )
-      GROUP BY 
-        p.publication_number, p.title_localized, p.abstract_localized, p.publication_date,
-        p.application_date, a.name, p.inventor_harmonized, p.country_code,
-        p.kind_code, p.family_id
-      LIMIT 50
-    `;
+      WHERE p.family_id IN UNNEST(${ids})
+      ORDER BY p.family_id, p.publication_date, p.publication_number
+      LIMIT ${params.scalar('limit', familyIds.length * 100, 'INT64')}
+    `);
+  }
+
+  private buildAssigneeNamesQuery(terms: string[], limit: number): ParameterizedQuery {
+    const params = new QueryParameters();
+
+    return params.build(`
+      SELECT
+        a.name,
+        COUNT(DISTINCT p.publication_number) AS count
+      FROM \`patents-public-data.patents.publications\` p,
+        UNNEST(p.assignee_harmonized) a
+      WHERE p.publication_date >= ${EARLIEST_PUBLICATION_DATE}
+        AND REGEXP_CONTAINS(UPPER(a.name), ${params.scalar('pattern', assigneeWordPattern(terms), 'STRING')})
+      GROUP BY a.name
+      ORDER BY count DESC, a.name
+      LIMIT ${params.scalar('limit', clampLimit(limit, config.bigquery.maxResults), 'INT64')}
+    `);
+  }
+
+  private buildCitationLinksQuery(patentIds: string[]): ParameterizedQuery {
+    const params = new QueryParameters();
+    const ids = params.array('patentIds', patentIds, 'STRING');
+
+    return params.build(`
+      SELECT
+        p.publication_number AS citing_publication_number,
+        c.publication_number AS cited_publication_number,
+        c.category
+      FROM \`patents-public-data.patents.publications\` p,
+        UNNEST(p.citation) c
+      WHERE c.publication_number != ''
+        AND (p.publication_number IN UNNEST(${ids}) OR c.publication_number IN UNNEST(${ids}))
+      LIMIT ${params.scalar('limit', config.bigquery.maxResults * 10, 'INT64')}
+    `);
+  }
+
+  private buildForwardCitationCountQuery(patentId: string): ParameterizedQuery {
+    const params = new QueryParameters();
+
+    return params.build(`
+      SELECT COUNT(DISTINCT p.publication_number) AS forward_citations
+      FROM \`patents-public-data.patents.publications\` p, UNNEST(p.citation) c
+      WHERE c.publication_number = ${params.scalar('patentId', patentId, 'STRING')}
+    `);
+  }
+
+  private buildClassificationSearchQuery(
+    classifications: string[],
+    filters?: PatentSearchFilters,
+    limit: number = 100
+  ): ParameterizedQuery {
+    const params = new QueryParameters();
+
+    const classificationConditions = classifications
+      .map(code => `c.code LIKE ${params.indexed('cpc', prefixPattern(code.toUpperCase()), 'STRING')}`)
+      .join(' OR ');
+    const filterConditions = filters ? this.buildFilterConditions(filters, params) : '';
 
-    // Patents cited by this patent (backward citations)
-    const citedQuery = `
+    return params.build(`
       SELECT 
         p.publication_number,
         p.title_localized,
         p.abstract_localized,
         p.publication_date,
-        p.application_date,
-        a.name as assignee,
+        p.filing_date,
+        p.priority_date,
+        p.grant_date,
+        p.assignee_harmonized,
         p.inventor_harmonized,
         p.country_code,
         p.kind_code,
         p.family_id,
-        ARRAY_AGG(DISTINCT c.code) as cpc_codes
+        p.cpc,
+        p.ipc
       FROM \`patents-public-data.patents.publications\` p
-      LEFT JOIN \`patents-public-data.patents.cpc_current\` c 
-        ON p.publication_number = c.publication_number
-      LEFT JOIN \`patents-public-data.patents.assignees\` a
-        ON p.publication_number = a.publication_number
-      WHERE p.publication_number IN (
-        SELECT cited_publication_number 
-        FROM \`patents-public-data.patents.uspatentcitations\` 
-        WHERE citing_publication_number = '${patentId}'
-        LIMIT 100
-      )
-      GROUP BY 
-        p.publication_number, p.title_localized, p.abstract_localized, p.publication_date,
-        p.application_date, a.name, p.inventor_harmonized, p.country_code,
-        p.kind_code, p.family_id
-      LIMIT 50
-    `;
+      WHERE EXISTS(SELECT 1 FROM UNNEST(p.cpc) c WHERE ${classificationConditions || 'FALSE'})
+        AND p.publication_date >= ${EARLIEST_PUBLICATION_DATE}${filterConditions}
+      ORDER BY p.publication_date DESC, p.publication_number
+      LIMIT ${params.scalar('limit', clampLimit(limit, config.bigquery.maxResults), 'INT64')}
+    `);
+  }
 
-    return [citingQuery, citedQuery];
+  /**
+   * Publications cited by (`cited`) or citing (`citing`) a publication, read
+   * from the `citation` arrays of `publications` so every jurisdiction is
+   * covered. With `family`, the citations of every family member count and
+   * each other family appears once, through its earliest publication.
+   */
+  private buildCitationQuery(
+    patentId: string,
+    direction: 'citing' | 'cited',
+    options: PatentCitationOptions
+  ): ParameterizedQuery {
+    const params = new QueryParameters();
+    const id = params.scalar('patentId', patentId, 'STRING');
+
+    const sources = options.family
+      ? `SELECT s.publication_number, s.family_id
+        FROM \`patents-public-data.patents.publications\` s
+        WHERE s.publication_number = ${id}
+          OR (s.family_id != '-1' AND s.family_id = (
+            SELECT family_id FROM \`patents-public-data.patents.publications\` WHERE publication_number = ${id}
+          ))`
+      : `SELECT s.publication_number, s.family_id
+        FROM \`patents-public-data.patents.publications\` s
+        WHERE s.publication_number = ${id}`;
+
+    const linked = direction === 'cited'
+      ? `SELECT DISTINCT c.publication_number
+        FROM \`patents-public-data.patents.publications\` p, UNNEST(p.citation) c
+        WHERE p.publication_number IN (SELECT publication_number FROM sources)
+          AND c.publication_number != ''`
+      : `SELECT DISTINCT p.publication_number
+        FROM \`patents-public-data.patents.publications\` p, UNNEST(p.citation) c
+        WHERE c.publication_number IN (SELECT publication_number FROM sources)`;
+
+    return params.build(`
+      WITH sources AS (
+        ${sources}
+      ),
+      linked AS (
+        ${linked}
+      ),
+      candidates AS (
+        SELECT
+          p.publication_number,
+          p.title_localized,
+          p.abstract_localized,
+          p.publication_date,
+          p.filing_date,
+          p.priority_date,
+          p.grant_date,
+          p.assignee_harmonized,
+          p.inventor_harmonized,
+          p.country_code,
+          p.kind_code,
+          p.family_id,
+          p.cpc,
+          p.ipc,
+          ROW_NUMBER() OVER (
+            PARTITION BY ${options.family ? `IF(p.family_id = '-1', p.publication_number, p.family_id)` : 'p.publication_number'}
+            ORDER BY p.publication_date, p.publication_number
+          ) AS family_rank
+        FROM \`patents-public-data.patents.publications\` p
+        JOIN linked l ON l.publication_number = p.publication_number
+        WHERE p.publication_number NOT IN (SELECT publication_number FROM sources)
+          ${options.family ? `AND p.family_id NOT IN (SELECT family_id FROM sources WHERE family_id != '-1')` : ''}
+      )
+      SELECT * EXCEPT (family_rank), COUNT(*) OVER () AS total_count
+      FROM candidates
+      WHERE family_rank = 1
+      ORDER BY publication_date DESC, publication_number
+      LIMIT ${params.scalar('limit', clampLimit(options.limit, config.bigquery.maxResults), 'INT64')}
+      OFFSET ${params.scalar('offset', options.offset, 'INT64')}
+    `);
   }
 
-  private buildStatisticsQueries(filters?: PatentSearchFilters): {
-    total: string;
-    yearly: string;
-    assignees: string;
-    classifications: string;
+  private buildStatisticsQueries(scope: StatisticsScope): {
+    total: ParameterizedQuery;
+    yearly: ParameterizedQuery;
+    assignees: ParameterizedQuery;
+    classifications: ParameterizedQuery;
   } {
-    const baseConditions = this.buildFilterConditions(filters || {});
-
-    const total = `
-      SELECT COUNT(*) as total
-      FROM \`patents-public-data.patents.publications\` p
-      WHERE p.publication_date >= '2020-01-01'
-      ${baseConditions}
-    `;
+    // Each statement gets its own collector so unused parameters are never sent
+    const statement = (select: string): ParameterizedQuery => {
+      const params = new QueryParameters();
+      return params.build(`
+      WITH population AS (
+        SELECT
+          p.publication_number,
+          p.publication_date,
+          p.assignee_harmonized,
+          p.cpc
+        FROM \`patents-public-data.patents.publications\` p
+        WHERE ${this.buildPopulationConditions(scope, params)}
+      )
+      ${select}
+    `);
+    };
 
-    const yearly = `
-      SELECT 
-        EXTRACT(YEAR FROM PARSE_DATE('%Y-%m-%d', p.publication_date)) as year,
-        COUNT(*) as count
-      FROM \`patents-public-data.patents.publications\` p
-      WHERE p.publication_date >= '2020-01-01'
-      ${baseConditions}
+    const total = statement(`
+      SELECT COUNT(*) AS total
+      FROM population
+    `);
+
+    // Every year in the population, so the trend spans the requested date range
+    const yearly = statement(`
+      SELECT
+        DIV(publication_date, 10000) AS year,
+        COUNT(*) AS count
+      FROM population
+      WHERE publication_date > 0
       GROUP BY year
-      ORDER BY year DESC
-      LIMIT 10
-    `;
-
-    const assignees = `
-      SELECT 
-        a.name as assignee,
-        COUNT(*) as count
-      FROM \`patents-public-data.patents.publications\` p
-      JOIN \`patents-public-data.patents.assignees\` a
-        ON p.publication_number = a.publication_number
-      WHERE p.publication_date >= '2020-01-01'
-      ${baseConditions}
+      ORDER BY year
+    `);
+
+    const assignees = statement(`
+      SELECT
+        a.name AS assignee,
+        COUNT(DISTINCT publication_number) AS count
+      FROM population, UNNEST(assignee_harmonized) a
       GROUP BY a.name
-      ORDER BY count DESC
-      LIMIT 20
-    `;
-
-    const classifications = `
-      SELECT 
-        c.code as classification,
-        COUNT(*) as count
-      FROM \`patents-public-data.patents.publications\` p
-      JOIN \`patents-public-data.patents.cpc_current\` c
-        ON p.publication_number = c.publication_number
-      WHERE p.publication_date >= '2020-01-01'
-      ${baseConditions}
+      ORDER BY count DESC, assignee
+      LIMIT 100
+    `);
+
+    const classifications = statement(`
+      SELECT
+        c.code AS classification,
+        COUNT(DISTINCT publication_number) AS count
+      FROM population, UNNEST(cpc) c
       GROUP BY c.code
-      ORDER BY count DESC
+      ORDER BY count DESC, classification
       LIMIT 20
-    `;
+    `);
 
     return { total, yearly, assignees, classifications };
   }
 
-  private buildFilterConditions(filters: PatentSearchFilters, tableAlias = 'p'): string {
+  private buildPortfolioQueries(filters: PatentSearchFilters): {
+    total: ParameterizedQuery;
+    filingTrend: ParameterizedQuery;
+    cpc: ParameterizedQuery;
+    inventors: ParameterizedQuery;
+    familySizes: ParameterizedQuery;
+    impact: ParameterizedQuery;
+    topCited: ParameterizedQuery;
+  } {
+    // Each statement gets its own collector so unused parameters are never sent
+    const statement = (select: string): ParameterizedQuery => {
+      const params = new QueryParameters();
+      return params.build(`
+      WITH population AS (
+        SELECT
+          p.publication_number,
+          p.family_id,
+          p.title_localized,
+          p.publication_date,
+          p.filing_date,
+          p.country_code,
+          p.inventor_harmonized,
+          p.cpc
+        FROM \`patents-public-data.patents.publications\` p
+        WHERE TRUE${this.buildFilterConditions(filters, params)}
+      ),
+      forward AS (
+        SELECT
+          c.publication_number,
+          COUNT(DISTINCT citing.publication_number) AS forward_citations
+        FROM \`patents-public-data.patents.publications\` citing, UNNEST(citing.citation) c
+        WHERE c.publication_number IN (SELECT publication_number FROM population)
+        GROUP BY c.publication_number
+      )
+      ${select}
+    `);
+    };
+
+    const total = statement(`
+      SELECT
+        COUNT(*) AS total,
+        COUNT(DISTINCT IF(family_id = '-1', publication_number, family_id)) AS families
+      FROM population
+    `);
+
+    const filingTrend = statement(`
+      SELECT
+        DIV(IF(filing_date > 0, filing_date, publication_date), 10000) AS year,
+        country_code,
+        COUNT(*) AS count
+      FROM population
+      WHERE filing_date > 0 OR publication_date > 0
+      GROUP BY year, country_code
+      ORDER BY year, country_code
+    `);
+
+    const cpc = statement(`
+      SELECT
+        SUBSTR(c.code, 1, 4) AS classification,
+        COUNT(DISTINCT publication_number) AS count
+      FROM population, UNNEST(cpc) c
+      GROUP BY classification
+      ORDER BY count DESC, classification
+      LIMIT 20
+    `);
+
+    const inventors = statement(`
+      SELECT
+        i.name AS inventor,
+        COUNT(DISTINCT publication_number) AS count
+      FROM population, UNNEST(inventor_harmonized) i
+      GROUP BY i.name
+      ORDER BY count DESC, inventor
+      LIMIT 20
+    `);
+
+    // Family size counts every publication of the family, in or out of the portfolio;
+    // publications without a family count as families of one
+    const familySizes = statement(`
+      SELECT
+        size,
+        COUNT(*) AS families
+      FROM (
+        SELECT f.family_id, COUNT(*) AS size
+        FROM \`patents-public-data.patents.publications\` f
+        WHERE f.family_id IN (SELECT family_id FROM population WHERE family_id != '-1')
+        GROUP BY f.family_id
+        UNION ALL
+        SELECT publication_number, 1
+        FROM population
+        WHERE family_id = '-1'
+      )
+      GROUP BY size
+      ORDER BY size
+    `);
+
+    const impact = statement(`
+      SELECT
+        COALESCE(SUM(forward_citations), 0) AS forward_citations,
+        COUNT(*) AS cited_patents
+      FROM forward
+    `);
+
+    const topCited = statement(`
+      SELECT
+        population.publication_number,
+        population.title_localized,
+        population.publication_date,
+        population.country_code,
+        forward.forward_citations
+      FROM population
+      JOIN forward USING (publication_number)
+      ORDER BY forward.forward_citations DESC, population.publication_number
+      LIMIT 10
+    `);
+
+    return { total, filingTrend, cpc, inventors, familySizes, impact, topCited };
+  }
+
+  /**
+   * Publications matching the keyword query or among the listed IDs, within
+   * the filters. Everything within the filters when neither is given.
+   */
+  private buildPopulationConditions(scope: StatisticsScope, params: QueryParameters): string {
+    const members: string[] = [];
+
+    const ast = scope.query?.trim() ? parseQuery(scope.query) : undefined;
+    if (ast) {
+      members.push(compileToSql(ast, params, 'p', scope.scope));
+    }
+    if (scope.patentIds && scope.patentIds.length > 0) {
+      members.push(`p.publication_number IN UNNEST(${params.array('patentIds', scope.patentIds, 'STRING')})`);
+    }
+
+    const population = members.length > 0 ? `(${members.join(' OR ')})` : 'TRUE';
+    return `${population}${this.buildFilterConditions(scope.filters || {}, params)}`;
+  }
+
+  private buildFilterConditions(
+    filters: PatentSearchFilters,
+    params: QueryParameters,
+    tableAlias = 'p'
+  ): string {
     let conditions = '';
 
     if (filters.dateRange) {
       if (filters.dateRange.start) {
-        conditions += ` AND ${tableAlias}.publication_date >= '${filters.dateRange.start}'`;
+        conditions += ` AND ${tableAlias}.publication_date >= ${params.scalar('dateStart', toDateNumber(filters.dateRange.start), 'INT64')}`;
       }
       if (filters.dateRange.end) {
-        conditions += ` AND ${tableAlias}.publication_date <= '${filters.dateRange.end}'`;
+        conditions += ` AND ${tableAlias}.publication_date <= ${params.scalar('dateEnd', toDateNumber(filters.dateRange.end), 'INT64')}`;
       }
     }
 
     if (filters.countries && filters.countries.length > 0) {
-      const countryList = filters.countries.map(c => `'${c}'`).join(',');
-      conditions += ` AND ${tableAlias}.country_code IN (${countryList})`;
+      conditions += ` AND ${tableAlias}.country_code IN UNNEST(${params.array('countries', filters.countries, 'STRING')})`;
+    }
+
+    // Assignees match harmonized names word by word, classifications by CPC prefix
+    const facets = filterClauses(filters);
+    if (facets) {
+      conditions += ` AND ${compileToSql(facets, params, tableAlias)}`;
     }
 
     return conditions;
   }
+}
 
-  private transformBigQueryResults(rows: BigQueryPatent[]): PatentResult[] {
-    return rows.map(row => ({
+/**
+ * Map raw publication rows onto the API's PatentResult shape
+ */
+export const transformBigQueryResults = (rows: BigQueryPatent[]): PatentResult[] => {
+  return rows.map(row => {
+    const details = toPatentClassifications(row);
+    const priorityDate = toIsoDate(row.priority_date);
+    const filingDate = toIsoDate(row.filing_date);
+    const grantDate = toIsoDate(row.grant_date);
+
+    return {
       patent_id: row.publication_number,
-      title: row.title_localized?.[0]?.text || 'Untitled Patent',
-      abstract: row.abstract_localized?.[0]?.text || 'No abstract available',
-      publication_date: row.publication_date,
+      title: pickLocalized(row.title_localized)?.text || 'Untitled Patent',
+      abstract: pickLocalized(row.abstract_localized)?.text || 'No abstract available',
+      titles: row.title_localized || [],
+      abstracts: row.abstract_localized || [],
+      publication_date: toIsoDate(row.publication_date) || '',
+      ...(priorityDate && { priority_date: priorityDate }),
+      ...(filingDate && { filing_date: filingDate }),
+      ...(grantDate && { grant_date: grantDate }),
       assignee: row.assignee_harmonized?.[0]?.name || 'Unknown',
+      assignee_normalized: row.assignee_harmonized?.[0]?.name
+        ? assigneeService.normalize(row.assignee_harmonized[0].name)
+        : 'Unknown',
       inventors: row.inventor_harmonized?.map(inv => inv.name) || ['Unknown'],
       country_code: row.country_code,
       kind_code: row.kind_code || '',
       family_id: row.family_id || '',
-      classifications: [], // Will be populated separately from CPC table
-      similarity_score: 0, // Will be set by semantic search
+      classifications: details.filter(c => c.scheme === 'CPC').map(c => c.code),
+      classification_details: details,
+      similarity_score: row.relevance_score ?? 0, // BM25F score for keyword hits; set by semantic search otherwise
+      ...(row.keyword_matches && { keyword_matches: row.keyword_matches }),
       url: `https://patents.google.com/patent/${row.publication_number}`,
-    }));
+    };
+  });
+};
+
+/**
+ * Map a publication row, its family members and citation counts onto the
+ * API's PatentDetail shape
+ */
+export const transformPatentDetail = (
+  row: BigQueryPatentDetail,
+  family: BigQueryPatent[],
+  citationCounts: PatentDetail['citation_counts']
+): PatentDetail => {
+  const [result] = transformBigQueryResults([row]) as [PatentResult];
+
+  return {
+    ...result,
+    application_number: row.application_number || '',
+    claims: row.claims_localized || [],
+    parsed_claims: parseLocalizedClaims(row.claims_localized),
+    descriptions: row.description_localized || [],
+    assignees: row.assignee_harmonized || [],
+    inventor_details: row.inventor_harmonized || [],
+    family_members: family.map(toFamilyMember),
+    citation_counts: citationCounts,
+  };
+};
+
+/**
+ * Group publication rows by family, keeping their order within each family
+ */
+export const toFamilyMembersByFamily = (rows: BigQueryPatent[]): Map<string, PatentFamilyMember[]> => {
+  const families = new Map<string, PatentFamilyMember[]>();
+  for (const row of rows) {
+    const members = families.get(row.family_id) || [];
+    members.push(toFamilyMember(row));
+    families.set(row.family_id, members);
   }
-} 
\ No newline at end of file
+  return families;
+};
+
+const toFamilyMember = (row: BigQueryPatent): PatentFamilyMember => ({
+  patent_id: row.publication_number,
+  title: pickLocalized(row.title_localized)?.text || 'Untitled Patent',
+  country_code: row.country_code,
+  kind_code: row.kind_code || '',
+  publication_date: toIsoDate(row.publication_date) || '',
+});
+
+/**
+ * Name the claim holding most of each keyword hit's matched terms. `rows`
+ * are the publication rows the results were transformed from.
+ */
+export const attachMatchedClaims = (results: PatentResult[], rows: BigQueryPatent[]): PatentResult[] =>
+  results.map((result, i) => {
+    const claim = matchClaim(parseLocalizedClaims(rows[i]?.claims_localized), result.keyword_matches || []);
+    return claim ? { ...result, matched_claim: claim } : result;
+  });
+
+/**
+ * Parse the claims and pick the description of each row, preferring English
+ */
+export const toFullTextByPublication = (rows: BigQueryPatent[]): Map<string, PatentFullText> => {
+  return new Map(rows.map(row => {
+    const description = pickLocalized(row.description_localized);
+    return [row.publication_number, {
+      claims: parseLocalizedClaims(row.claims_localized),
+      description: description?.text || '',
+    }];
+  }));
+};
+
+/**
+ * Flatten the publication's `cpc` and `ipc` arrays. Within each scheme the
+ * first-listed code leads, followed by inventive and then additional codes.
+ */
+const toPatentClassifications = (row: BigQueryPatent): PatentClassification[] => {
+
+  // Array.prototype.sort is stable, so listing order is kept within each rank
+  const scheme = (name: ClassificationScheme, entries: BigQueryClassification[]): PatentClassification[] => {
+    const seen = new Set<string>();
+    return entries
+      .filter(entry => entry.code && !seen.has(entry.code) && seen.add(entry.code))
+      .map(entry => ({ scheme: name, code: entry.code, inventive: !!entry.inventive, first: !!entry.first }))
+      .sort((a, b) => Number(b.first) - Number(a.first) || Number(b.inventive) - Number(a.inventive));
+  };
+
+  return [...scheme('CPC', row.cpc || []), ...scheme('IPC', row.ipc || [])];
+};
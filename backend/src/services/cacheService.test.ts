@@ -0,0 +1,79 @@
+import { CacheService } from './cacheService';
+import { MemoryCacheStore } from './memoryCacheStore';
+
+const load = (value: unknown) => jest.fn(async () => value);
+
+describe('CacheService', () => {
+    it('loads once per key and serves the cached value after', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, true);
+        const loader = load({ results: [1] });
+
+        expect(await cache.getOrLoad('search', { query: 'anode' }, loader)).toEqual({ results: [1] });
+        expect(await cache.getOrLoad('search', { query: 'anode' }, loader)).toEqual({ results: [1] });
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        const stats = await cache.getStats();
+        expect(stats.namespaces.search).toEqual({ hits: 1, misses: 1, writes: 1, errors: 0, hitRate: 0.5 });
+    });
+
+    it('keeps namespaces apart for the same key', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, true);
+        await cache.getOrLoad('search', 'anode', load('search'));
+
+        expect(await cache.getOrLoad('embeddings', 'anode', load('embedding'))).toBe('embedding');
+    });
+
+    it('flushes one namespace and leaves the others', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, true);
+        await cache.getOrLoad('search', 'a', load(1));
+        await cache.getOrLoad('search', 'b', load(2));
+        await cache.getOrLoad('embeddings', 'a', load(3));
+
+        expect(await cache.flush('search')).toBe(2);
+        expect((await cache.getStats()).entries).toBe(1);
+
+        const reload = load(4);
+        expect(await cache.getOrLoad('search', 'a', reload)).toBe(4);
+        expect(await cache.getOrLoad('embeddings', 'a', load(5))).toBe(3);
+        expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it('flushes every namespace when none is given', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, true);
+        await cache.getOrLoad('search', 'a', load(1));
+        await cache.getOrLoad('bigquery', 'a', load(2));
+
+        expect(await cache.flush()).toBe(2);
+        expect((await cache.getStats()).entries).toBe(0);
+    });
+
+    it('shares one load between concurrent misses', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, true);
+        const loader = load('value');
+
+        const values = await Promise.all([
+            cache.getOrLoad('search', 'a', loader),
+            cache.getOrLoad('search', 'a', loader),
+        ]);
+        expect(values).toEqual(['value', 'value']);
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('always loads when disabled', async () => {
+        const cache = new CacheService(new MemoryCacheStore(10), 60, false);
+        const loader = load('value');
+        await cache.getOrLoad('search', 'a', loader);
+        await cache.getOrLoad('search', 'a', loader);
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('loads the value when the store fails', async () => {
+        const store = new MemoryCacheStore(10);
+        jest.spyOn(store, 'get').mockRejectedValue(new Error('connection refused'));
+        jest.spyOn(store, 'set').mockRejectedValue(new Error('connection refused'));
+        const cache = new CacheService(store, 60, true);
+
+        expect(await cache.getOrLoad('search', 'a', load('value'))).toBe('value');
+        expect((await cache.getStats()).namespaces.search.errors).toBe(2);
+    });
+});
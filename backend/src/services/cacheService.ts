@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { CacheStore, createCacheStore } from './cacheStore';
+
+export const CACHE_NAMESPACES = ['embeddings', 'bigquery', 'search'] as const;
+
+export type CacheNamespace = typeof CACHE_NAMESPACES[number];
+
+export interface CacheNamespaceStats {
+    hits: number;
+    misses: number;
+    writes: number;
+    errors: number;
+    hitRate: number;
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    provider: string;
+    entries: number;
+    ttlSeconds: number;
+    namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+}
+
+/**
+ * Read-through cache shared by every service in the process.
+ *
+ * Keys are hashed from a namespace and an arbitrary JSON-serializable key, so
+ * callers pass whatever identifies the work (normalized text, a parameterized
+ * query, a search request). Store failures are logged and counted but never
+ * fail the request; the value is simply recomputed.
+ */
+export class CacheService {
+    private readonly counters = {} as Record<CacheNamespace, Omit<CacheNamespaceStats, 'hitRate'>>;
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+
+    constructor(
+        private store: CacheStore,
+        private readonly ttlSeconds: number = config.cache.ttl,
+        private readonly enabled: boolean = config.cache.enabled
+    ) {
+        for (const namespace of CACHE_NAMESPACES) {
+            this.counters[namespace] = { hits: 0, misses: 0, writes: 0, errors: 0 };
+        }
+    }
+
+    /**
+     * Return the cached value for a key, or run `load`, cache and return its
+     * result. Concurrent misses for the same key share one load.
+     */
+    async getOrLoad<T>(namespace: CacheNamespace, key: unknown, load: () => Promise<T>): Promise<T> {
+        if (!this.enabled) {
+            return load();
+        }
+
+        const cacheKey = this.buildKey(namespace, key);
+        const counters = this.counters[namespace];
+
+        try {
+            const cached = await this.store.get(cacheKey);
+            if (cached !== undefined) {
+                counters.hits++;
+                return JSON.parse(cached) as T;
+            }
+        } catch (error) {
+            counters.errors++;
+            logger.warn('Cache read failed', { namespace, error: (error as Error).message });
+        }
+
+        counters.misses++;
+
+        const pending = this.inFlight.get(cacheKey);
+        if (pending) {
+            return pending as Promise<T>;
+        }
+
+        const loading = load()
+            .then(async value => {
+                try {
+                    await this.store.set(cacheKey, JSON.stringify(value), this.ttlSeconds);
+                    counters.writes++;
+                } catch (error) {
+                    counters.errors++;
+                    logger.warn('Cache write failed', { namespace, error: (error as Error).message });
+                }
+                return value;
+            })
+            .finally(() => this.inFlight.delete(cacheKey));
+
+        this.inFlight.set(cacheKey, loading);
+        return loading;
+    }
+
+    /**
+     * Remove cached entries for one namespace, or all of them
+     */
+    async flush(namespace?: CacheNamespace): Promise<number> {
+        const namespaces = namespace ? [namespace] : [...CACHE_NAMESPACES];
+        let removed = 0;
+
+        for (const name of namespaces) {
+            removed += await this.store.deleteByPrefix(`${name}:`);
+        }
+
+        logger.info('Cache flushed', { namespaces, removed });
+        return removed;
+    }
+
+    async getStats(): Promise<CacheStats> {
+        const namespaces = {} as Record<CacheNamespace, CacheNamespaceStats>;
+        for (const namespace of CACHE_NAMESPACES) {
+            const counters = this.counters[namespace];
+            const lookups = counters.hits + counters.misses;
+            namespaces[namespace] = { ...counters, hitRate: lookups > 0 ? counters.hits / lookups : 0 };
+        }
+
+        return {
+            enabled: this.enabled,
+            provider: this.store.provider,
+            entries: await this.store.size(),
+            ttlSeconds: this.ttlSeconds,
+            namespaces,
+        };
+    }
+
+    /**
+     * Replace the backing store
+     */
+    useStore(store: CacheStore): void {
+        this.store = store;
+        this.inFlight.clear();
+    }
+
+    private buildKey(namespace: CacheNamespace, key: unknown): string {
+        const hash = crypto.createHash('sha256').update(JSON.stringify(key)).digest('hex');
+        return `${namespace}:${hash}`;
+    }
+}
+
+export const cacheService = new CacheService(createCacheStore());
@@ -0,0 +1,38 @@
+import Redis from 'ioredis';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { MemoryCacheStore } from './memoryCacheStore';
+import { RedisCacheStore } from './redisCacheStore';
+
+/**
+ * Key-value store behind the cache service. Values are serialized JSON so
+ * in-process and networked stores behave the same, and cached objects can
+ * never be mutated by the caller that read them.
+ */
+export interface CacheStore {
+    readonly provider: string;
+
+    get(key: string): Promise<string | undefined>;
+
+    set(key: string, value: string, ttlSeconds: number): Promise<void>;
+
+    /** Remove every key starting with `prefix`, returning how many were removed */
+    deleteByPrefix(prefix: string): Promise<number>;
+
+    size(): Promise<number>;
+}
+
+/**
+ * Create the store selected by config.cache.store: an in-process LRU sized by
+ * config.cache.maxSize, or a Redis store at config.cache.redisUrl shared by
+ * every API instance
+ */
+export const createCacheStore = (): CacheStore => {
+    if (config.cache.store !== 'redis') {
+        return new MemoryCacheStore(config.cache.maxSize);
+    }
+
+    const client = new Redis(config.cache.redisUrl);
+    client.on('error', error => logger.warn('Redis cache connection error', { error: error.message }));
+    return new RedisCacheStore(client);
+};
@@ -0,0 +1,116 @@
+import { CitationLink } from '@/types/patent';
+import { buildCitationNetwork, citationCategory, pageRank } from './citationNetwork';
+
+const sum = (ranks: Map<string, number>) => Array.from(ranks.values()).reduce((total, rank) => total + rank, 0);
+
+describe('pageRank', () => {
+    it('is empty without nodes', () => {
+        expect(pageRank([], [])).toEqual(new Map());
+    });
+
+    it('ranks unconnected nodes equally', () => {
+        const ranks = pageRank(['a', 'b', 'c', 'd'], []);
+        expect(Array.from(ranks.values())).toEqual([0.25, 0.25, 0.25, 0.25]);
+    });
+
+    it('spreads the rank of dangling nodes over every node', () => {
+        // b cites nothing: r_a = 0.15/2 + 0.85 * r_b/2, and r_a + r_b = 1
+        const ranks = pageRank(['a', 'b'], [{ source: 'a', target: 'b' }]);
+        expect(ranks.get('a')).toBeCloseTo(0.5 / 1.425, 6);
+        expect(ranks.get('b')).toBeCloseTo(1 - 0.5 / 1.425, 6);
+    });
+
+    it('ranks every member of a cycle equally', () => {
+        const ranks = pageRank(['a', 'b', 'c'], [
+            { source: 'a', target: 'b' },
+            { source: 'b', target: 'c' },
+            { source: 'c', target: 'a' },
+        ]);
+        for (const rank of ranks.values()) {
+            expect(rank).toBeCloseTo(1 / 3, 6);
+        }
+    });
+
+    it('ranks a cycle above the node feeding it', () => {
+        const ranks = pageRank(['a', 'b', 'c'], [
+            { source: 'a', target: 'b' },
+            { source: 'b', target: 'c' },
+            { source: 'c', target: 'b' },
+        ]);
+        expect(ranks.get('a')).toBeCloseTo(0.05, 6);
+        expect(ranks.get('b')).toBeGreaterThan(ranks.get('c') as number);
+        expect(sum(ranks)).toBeCloseTo(1, 6);
+    });
+
+    it('sums to 1 with dangling nodes, cycles and edges to unknown nodes', () => {
+        const ranks = pageRank(['a', 'b', 'c', 'd', 'e'], [
+            { source: 'a', target: 'b' },
+            { source: 'b', target: 'a' },
+            { source: 'c', target: 'a' },
+            { source: 'c', target: 'd' },
+            { source: 'd', target: 'x' },
+        ]);
+        expect(ranks.size).toBe(5);
+        expect(sum(ranks)).toBeCloseTo(1, 9);
+        expect(ranks.get('e')).toBeCloseTo(ranks.get('c') as number, 9);
+        expect(Array.from(ranks.values()).every(rank => rank > 0)).toBe(true);
+    });
+});
+
+describe('citationCategory', () => {
+    it.each([
+        ['APP', 'applicant'],
+        ['exa', 'examiner'],
+        [' SEA ', 'search_report'],
+        ['ISR', 'search_report'],
+        ['SUP', 'search_report'],
+        ['', 'other'],
+        ['FOP', 'other'],
+    ])('maps %j to %s', (code, category) => {
+        expect(citationCategory(code)).toBe(category);
+    });
+});
+
+describe('buildCitationNetwork', () => {
+    const nodes = ['a', 'b', 'c'].map(id => ({ id, title: id.toUpperCase(), hop: 0 }));
+    const link = (citing: string, cited: string, category: string): CitationLink => ({ citing, cited, category });
+
+    it('weights each citing/cited pair by its records and keeps the strongest category', () => {
+        const network = buildCitationNetwork(nodes, [
+            link('a', 'b', 'APP'),
+            link('a', 'b', 'EXA'),
+            link('a', 'b', 'SEA'),
+            link('b', 'c', 'APP'),
+        ]);
+        expect(network.edges).toEqual([
+            { source: 'a', target: 'b', weight: 3, category: 'examiner' },
+            { source: 'b', target: 'c', weight: 1, category: 'applicant' },
+        ]);
+    });
+
+    it('drops self-citations, links leaving the network and unrequested categories', () => {
+        const network = buildCitationNetwork(nodes, [
+            link('a', 'a', 'EXA'),
+            link('a', 'x', 'EXA'),
+            link('a', 'b', 'APP'),
+            link('b', 'c', 'EXA'),
+        ], ['examiner']);
+        expect(network.edges).toEqual([{ source: 'b', target: 'c', weight: 1, category: 'examiner' }]);
+    });
+
+    it('reports degrees and PageRank for every node, edges or not', () => {
+        const network = buildCitationNetwork([...nodes, { id: 'd', title: 'D', hop: 1 }], [
+            link('a', 'c', 'EXA'),
+            link('b', 'c', 'APP'),
+        ]);
+        expect(network.nodes.map(node => [node.id, node.hop, node.in_degree, node.out_degree])).toEqual([
+            ['a', 0, 0, 1],
+            ['b', 0, 0, 1],
+            ['c', 0, 2, 0],
+            ['d', 1, 0, 0],
+        ]);
+        const ranks = network.nodes.map(node => node.pagerank);
+        expect(ranks.reduce((total, rank) => total + rank, 0)).toBeCloseTo(1, 9);
+        expect(Math.max(...ranks)).toBe(network.nodes[2]?.pagerank);
+    });
+});
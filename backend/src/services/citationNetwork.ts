@@ -0,0 +1,133 @@
+import {
+    CitationCategory,
+    CitationLink,
+    CitationNetwork,
+    CitationNetworkEdge,
+    CitationNetworkNode,
+} from '@/types/patent';
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-8;
+
+// Category codes of the publications `citation` array
+const CATEGORY_CODES: Record<string, CitationCategory> = {
+    APP: 'applicant',
+    EXA: 'examiner',
+    SEA: 'search_report',
+    ISR: 'search_report',
+    SUP: 'search_report',
+};
+
+// When one publication cites another under several categories, the edge keeps the first listed here
+const CATEGORY_PRECEDENCE: CitationCategory[] = ['examiner', 'search_report', 'applicant', 'other'];
+
+/**
+ * Map a published citation category code onto who put the citation on record
+ */
+export const citationCategory = (code: string): CitationCategory =>
+    CATEGORY_CODES[code.trim().toUpperCase()] ?? 'other';
+
+/**
+ * Build a citation network over the given publications.
+ *
+ * Links with an end outside `nodes` are dropped, as are links in categories
+ * not listed in `categories` (when given). Each citing/cited pair becomes one
+ * edge weighted by how often it is recorded. Degrees and PageRank are
+ * computed over the resulting edges, with rank flowing from the citing to the
+ * cited publication.
+ */
+export const buildCitationNetwork = (
+    nodes: Array<Pick<CitationNetworkNode, 'id' | 'title' | 'year' | 'hop'>>,
+    links: CitationLink[],
+    categories?: CitationCategory[]
+): CitationNetwork => {
+    const ids = new Set(nodes.map(node => node.id));
+    const edgesByPair = new Map<string, CitationNetworkEdge>();
+
+    for (const link of links) {
+        const category = citationCategory(link.category);
+        if (!ids.has(link.citing) || !ids.has(link.cited) || link.citing === link.cited ||
+            (categories && !categories.includes(category))) {
+            continue;
+        }
+
+        const key = `${link.citing}\u0000${link.cited}`;
+        const existing = edgesByPair.get(key);
+        if (!existing) {
+            edgesByPair.set(key, { source: link.citing, target: link.cited, weight: 1, category });
+            continue;
+        }
+
+        existing.weight++;
+        if (CATEGORY_PRECEDENCE.indexOf(category) < CATEGORY_PRECEDENCE.indexOf(existing.category)) {
+            existing.category = category;
+        }
+    }
+
+    const edges = Array.from(edgesByPair.values());
+    const ranks = pageRank(nodes.map(node => node.id), edges);
+    const inDegree = new Map<string, number>();
+    const outDegree = new Map<string, number>();
+    for (const edge of edges) {
+        inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+        outDegree.set(edge.source, (outDegree.get(edge.source) || 0) + 1);
+    }
+
+    return {
+        nodes: nodes.map(node => ({
+            ...node,
+            in_degree: inDegree.get(node.id) || 0,
+            out_degree: outDegree.get(node.id) || 0,
+            pagerank: ranks.get(node.id) ?? 0,
+        })),
+        edges,
+    };
+};
+
+/**
+ * PageRank by power iteration. Publications citing nothing in the network
+ * spread their rank evenly over every node.
+ */
+export const pageRank = (
+    ids: string[],
+    edges: Array<{ source: string; target: string }>,
+    damping: number = PAGERANK_DAMPING
+): Map<string, number> => {
+    const count = ids.length;
+    if (count === 0) {
+        return new Map();
+    }
+
+    const index = new Map(ids.map((id, i) => [id, i]));
+    const outLinks: number[][] = ids.map(() => []);
+    for (const edge of edges) {
+        const source = index.get(edge.source);
+        const target = index.get(edge.target);
+        if (source !== undefined && target !== undefined) {
+            outLinks[source]?.push(target);
+        }
+    }
+
+    let ranks = new Array<number>(count).fill(1 / count);
+
+    for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+        const dangling = ranks.reduce((sum, rank, i) => (outLinks[i]?.length ? sum : sum + rank), 0);
+        const next = new Array<number>(count).fill((1 - damping) / count + damping * dangling / count);
+
+        ranks.forEach((rank, i) => {
+            const targets = outLinks[i] || [];
+            for (const target of targets) {
+                next[target] = (next[target] ?? 0) + damping * rank / targets.length;
+            }
+        });
+
+        const change = next.reduce((sum, rank, i) => sum + Math.abs(rank - (ranks[i] ?? 0)), 0);
+        ranks = next;
+        if (change < PAGERANK_TOLERANCE) {
+            break;
+        }
+    }
+
+    return new Map(ids.map((id, i) => [id, ranks[i] ?? 0]));
+};
@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+
+export type CpcLevel = 'section' | 'class' | 'subclass' | 'group' | 'subgroup';
+
+export interface CpcNode {
+    symbol: string;
+    title: string;
+    level: CpcLevel;
+    parent?: string;
+    /** Code prefix that matches this entry and everything below it */
+    search_prefix: string;
+    has_children: boolean;
+}
+
+export interface CpcNodeDetail extends CpcNode {
+    /** Section first, direct parent last */
+    ancestors: CpcNode[];
+    children: CpcNode[];
+}
+
+interface SchemeEntry {
+    symbol: string;
+    title: string;
+    /** Only needed for subgroups nested below another subgroup */
+    parent?: string;
+}
+
+interface SchemeFile {
+    entries: SchemeEntry[];
+}
+
+const CPC_SYMBOL = /^([A-HY])(\d{2}([A-Z](\d{1,4}(\/\d{2,6})?)?)?)?$/;
+
+/**
+ * Canonical form of a CPC symbol: upper case without spaces, so
+ * "h01m 4/38" and "H01M4/38" name the same entry
+ */
+export const normalizeCpcSymbol = (symbol: string): string => symbol.replace(/\s+/g, '').toUpperCase();
+
+export const isCpcSymbol = (symbol: string): boolean => CPC_SYMBOL.test(normalizeCpcSymbol(symbol));
+
+/**
+ * Hierarchy level implied by the shape of a normalized CPC symbol
+ */
+export const cpcLevel = (symbol: string): CpcLevel => {
+    if (symbol.length === 1) {
+        return 'section';
+    }
+    if (symbol.length === 3) {
+        return 'class';
+    }
+    if (symbol.length === 4) {
+        return 'subclass';
+    }
+    return symbol.endsWith('/00') ? 'group' : 'subgroup';
+};
+
+/**
+ * Prefix used to match patent codes against a scheme entry. Main groups
+ * drop their "/00" so "H01M4/00" covers H01M4/386.
+ */
+export const cpcSearchPrefix = (symbol: string): string =>
+    cpcLevel(symbol) === 'group' ? symbol.slice(0, -2) : symbol;
+
+/**
+ * Parent implied by the symbol alone. Subgroups default to their main group;
+ * deeper nesting (the scheme's dot levels) comes from the scheme file.
+ */
+const impliedParent = (symbol: string): string | undefined => {
+    switch (cpcLevel(symbol)) {
+        case 'section':
+            return undefined;
+        case 'class':
+            return symbol.slice(0, 1);
+        case 'subclass':
+            return symbol.slice(0, 3);
+        case 'group':
+            return symbol.slice(0, 4);
+        case 'subgroup':
+            return `${symbol.slice(0, symbol.indexOf('/'))}/00`;
+    }
+};
+
+/**
+ * Cooperative Patent Classification hierarchy (section → class → subclass →
+ * group → subgroup) with titles, loaded from the scheme file at
+ * config.classification.schemePath on first use
+ */
+export class ClassificationService {
+    private entries?: Map<string, SchemeEntry>;
+    private children?: Map<string, string[]>;
+
+    constructor(private readonly schemePath: string = config.classification.schemePath) { }
+
+    /**
+     * Top level of the hierarchy
+     */
+    getSections(): CpcNode[] {
+        return this.childSymbols('').map(symbol => this.toNode(symbol));
+    }
+
+    /**
+     * Look up one entry with its ancestors and direct children, or undefined
+     * when the symbol is not in the scheme
+     */
+    getNode(symbol: string): CpcNodeDetail | undefined {
+        const normalized = normalizeCpcSymbol(symbol);
+        const entry = this.load().get(normalized);
+        if (!entry) {
+            return undefined;
+        }
+
+        const ancestors: CpcNode[] = [];
+        for (let parent = entry.parent; parent; parent = this.load().get(parent)?.parent) {
+            ancestors.unshift(this.toNode(parent));
+        }
+
+        return {
+            ...this.toNode(normalized),
+            ancestors,
+            children: this.childSymbols(normalized).map(child => this.toNode(child)),
+        };
+    }
+
+    private toNode(symbol: string): CpcNode {
+        const entry = this.load().get(symbol);
+        return {
+            symbol,
+            title: entry?.title || '',
+            level: cpcLevel(symbol),
+            ...(entry?.parent && { parent: entry.parent }),
+            search_prefix: cpcSearchPrefix(symbol),
+            has_children: this.childSymbols(symbol).length > 0,
+        };
+    }
+
+    private childSymbols(symbol: string): string[] {
+        this.load();
+        return this.children?.get(symbol) || [];
+    }
+
+    private load(): Map<string, SchemeEntry> {
+        if (this.entries) {
+            return this.entries;
+        }
+
+        const resolvedPath = path.resolve(this.schemePath);
+        const scheme = JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as SchemeFile;
+
+        const entries = new Map<string, SchemeEntry>();
+        for (const entry of scheme.entries || []) {
+            const symbol = normalizeCpcSymbol(entry.symbol);
+            if (!CPC_SYMBOL.test(symbol)) {
+                logger.warn('Skipping malformed CPC scheme entry', { symbol: entry.symbol });
+                continue;
+            }
+            entries.set(symbol, {
+                symbol,
+                title: entry.title,
+                parent: entry.parent ? normalizeCpcSymbol(entry.parent) : impliedParent(symbol),
+            });
+        }
+
+        // Entries whose parent is missing from a partial scheme hang off the nearest ancestor present
+        const children = new Map<string, string[]>();
+        for (const entry of entries.values()) {
+            let parent = entry.parent;
+            while (parent && !entries.has(parent)) {
+                parent = impliedParent(parent);
+            }
+            entry.parent = parent;
+
+            const siblings = children.get(parent || '') || [];
+            siblings.push(entry.symbol);
+            children.set(parent || '', siblings);
+        }
+
+        for (const siblings of children.values()) {
+            siblings.sort(compareCpcSymbols);
+        }
+
+        this.entries = entries;
+        this.children = children;
+
+        logger.info('CPC scheme loaded', { schemePath: resolvedPath, entries: entries.size });
+        return entries;
+    }
+}
+
+/**
+ * Scheme order: alphabetical, except group and subgroup numbers compare numerically
+ * and subgroups compare as decimals (H01M4/386 sits between /38 and /58)
+ */
+const compareCpcSymbols = (a: string, b: string): number => {
+    const [aHead = '', aGroup = '', aSub = ''] = a.split(/(?<=^[A-HY]\d{2}[A-Z])|\//);
+    const [bHead = '', bGroup = '', bSub = ''] = b.split(/(?<=^[A-HY]\d{2}[A-Z])|\//);
+
+    return aHead.localeCompare(bHead)
+        || Number(aGroup || 0) - Number(bGroup || 0)
+        || Number(`0.${aSub}`) - Number(`0.${bSub}`);
+};
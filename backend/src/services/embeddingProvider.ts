@@ -0,0 +1,55 @@
+import { config } from '@/config/config';
+import { LocalEmbeddingProvider } from './localEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from './openaiEmbeddingProvider';
+import { PineconeEmbeddingProvider } from './pineconeEmbeddingProvider';
+import { SparseVector } from './vectorStore';
+
+export type EmbeddingProviderName = 'pinecone' | 'openai' | 'local';
+
+export type EmbeddingInputType = 'query' | 'passage';
+
+/**
+ * A text embedding. Sparse providers fill `sparse`, dense providers fill `dense`.
+ */
+export interface Embedding {
+    sparse?: SparseVector;
+    dense?: number[];
+}
+
+export interface EmbeddingBatch {
+    embeddings: Embedding[];
+    tokens: number; // Total tokens consumed by the batch, as reported by the provider
+}
+
+/**
+ * Turns text into vectors for the semantic index
+ */
+export interface EmbeddingProvider {
+    readonly name: EmbeddingProviderName;
+    readonly model: string;
+    /** Dense output dimension, or undefined for sparse providers */
+    readonly dimension?: number;
+
+    embed(texts: string[], inputType: EmbeddingInputType): Promise<EmbeddingBatch>;
+}
+
+/**
+ * Create the embedding provider configured for an index, falling back to the default provider
+ */
+export const createEmbeddingProvider = (indexName: string): EmbeddingProvider => {
+    const provider = config.embedding.indexProviders[indexName] || config.embedding.provider;
+
+    switch (provider) {
+        case 'pinecone':
+            return new PineconeEmbeddingProvider();
+
+        case 'openai':
+            return new OpenAIEmbeddingProvider();
+
+        case 'local':
+            return new LocalEmbeddingProvider(config.embedding.localDimensions);
+
+        default:
+            throw new Error(`Unsupported embedding provider: ${provider}`);
+    }
+};
@@ -0,0 +1,107 @@
+import { PatentFamilyMember, PatentResult } from '@/types/patent';
+import { attachFamilyMembers, familyRepresentativeIds, groupByFamily, representFamilies } from './familyGrouping';
+
+const publication = (patentId: string, familyId: string, overrides: Partial<PatentResult> = {}): PatentResult => ({
+    patent_id: patentId,
+    title: patentId,
+    abstract: '',
+    titles: [],
+    abstracts: [],
+    publication_date: '2021-01-01',
+    assignee: 'TESLA INC',
+    assignee_normalized: 'Tesla',
+    inventors: [],
+    country_code: patentId.slice(0, 2),
+    kind_code: patentId.split('-')[2] ?? '',
+    family_id: familyId,
+    classifications: [],
+    classification_details: [],
+    similarity_score: 0,
+    url: `https://patents.google.com/patent/${patentId}`,
+    ...overrides,
+});
+
+const member = (patentId: string, publicationDate: string): PatentFamilyMember => ({
+    patent_id: patentId,
+    title: patentId,
+    country_code: patentId.slice(0, 2),
+    kind_code: patentId.split('-')[2] ?? '',
+    publication_date: publicationDate,
+});
+
+// One invention published in the US, at the EPO and in China, earliest first
+const FAMILY = [
+    member('CN-113000001-A', '2021-02-01'),
+    member('US-20210050001-A1', '2021-02-18'),
+    member('EP-3900001-A1', '2021-10-27'),
+    member('US-11200001-B2', '2021-12-14'),
+];
+const FAMILIES = new Map([['50001', FAMILY]]);
+
+const MATCHED = [
+    publication('US-11200001-B2', '50001', {
+        similarity_score: 0.9,
+        keyword_matches: ['anode'],
+        matched_passage: { section: 'abstract', text: 'silicon anode', start: 0, end: 13, score: 0.9, highlights: [] },
+    }),
+    publication('US-20210050001-A1', '50001', { similarity_score: 0.8 }),
+    publication('KR-102300006-B1', '-1', { similarity_score: 0.5 }),
+];
+
+describe('groupByFamily', () => {
+    it('keeps one result per family at its best member\'s position', () => {
+        const grouped = groupByFamily(MATCHED);
+        expect(grouped.map(result => result.patent_id)).toEqual(['US-11200001-B2', 'KR-102300006-B1']);
+    });
+
+    it('prefers a matching member from a preferred jurisdiction', () => {
+        const grouped = groupByFamily([...MATCHED].reverse(), ['US']);
+        expect(grouped.map(result => result.patent_id)).toEqual(['KR-102300006-B1', 'US-20210050001-A1']);
+    });
+});
+
+describe('familyRepresentativeIds', () => {
+    const grouped = groupByFamily(MATCHED, ['EP', 'US']);
+
+    it('chooses from every member of the family, not only the matches', () => {
+        expect(familyRepresentativeIds(grouped, FAMILIES, ['EP', 'US'])).toEqual(['EP-3900001-A1', 'KR-102300006-B1']);
+        expect(familyRepresentativeIds(grouped, FAMILIES, ['cn'])).toEqual(['CN-113000001-A', 'KR-102300006-B1']);
+    });
+
+    it('keeps a result already from the first preferred jurisdiction the family has', () => {
+        expect(familyRepresentativeIds(grouped, FAMILIES, ['JP', 'US', 'EP'])).toEqual(['US-11200001-B2', 'KR-102300006-B1']);
+    });
+
+    it('keeps every result without preferred jurisdictions', () => {
+        expect(familyRepresentativeIds(grouped, FAMILIES)).toEqual(['US-11200001-B2', 'KR-102300006-B1']);
+    });
+});
+
+describe('representFamilies', () => {
+    it('shows the chosen members with the best match\'s score, ranking and matched text', () => {
+        const grouped = groupByFamily(MATCHED);
+        const ids = familyRepresentativeIds(grouped, FAMILIES, ['EP']);
+        const europe = publication('EP-3900001-A1', '50001');
+
+        const represented = attachFamilyMembers(representFamilies(grouped, ids, new Map([[europe.patent_id, europe]])), FAMILIES);
+
+        const [family, standalone] = represented;
+        expect(family).toMatchObject({
+            patent_id: 'EP-3900001-A1',
+            country_code: 'EP',
+            similarity_score: 0.9,
+            keyword_matches: ['anode'],
+            matched_passage: { text: 'silicon anode' },
+        });
+        expect(family?.family_members?.map(other => other.patent_id)).toEqual([
+            'CN-113000001-A', 'US-20210050001-A1', 'US-11200001-B2',
+        ]);
+        expect(standalone).toEqual({ ...grouped[1], family_members: [] });
+    });
+
+    it('keeps results whose chosen member could not be fetched', () => {
+        const grouped = groupByFamily(MATCHED);
+        const ids = familyRepresentativeIds(grouped, FAMILIES, ['EP']);
+        expect(representFamilies(grouped, ids, new Map())).toEqual(grouped);
+    });
+});
@@ -0,0 +1,106 @@
+import { PatentFamilyMember, PatentResult } from '@/types/patent';
+
+/**
+ * Collapse a ranked result list to one result per patent family.
+ *
+ * Each family takes the position of its best-ranked member. The family is
+ * represented by its matching member from the first jurisdiction in
+ * `preferredJurisdictions` (the best-ranked member when none matches), which
+ * inherits the best member's score, ranking and matched text when it has
+ * none of its own. Publications without a family stand alone. Members that
+ * did not match are only considered later, by `familyRepresentativeIds`.
+ */
+export const groupByFamily = (results: PatentResult[], preferredJurisdictions: string[] = []): PatentResult[] => {
+    const families = new Map<string, PatentResult[]>();
+
+    for (const result of results) {
+        const key = familyKey(result);
+        const members = families.get(key) || [];
+        members.push(result);
+        families.set(key, members);
+    }
+
+    return Array.from(families.values()).map(members => {
+        const best = members[0] as PatentResult;
+        const representative = pickRepresentative(members, preferredJurisdictions);
+
+        return inheritMatch(representative, best);
+    });
+};
+
+/**
+ * Id of the publication to show for each grouped result, chosen from its
+ * whole family rather than only the members that matched: the earliest
+ * member from the first of `preferredJurisdictions` the family has one in.
+ * The result itself is kept when it is from that jurisdiction or no
+ * preferred jurisdiction applies.
+ */
+export const familyRepresentativeIds = (
+    results: PatentResult[],
+    families: Map<string, PatentFamilyMember[]>,
+    preferredJurisdictions: string[] = []
+): string[] =>
+    results.map(result => {
+        const family = families.get(result.family_id) || [];
+        for (const jurisdiction of preferredJurisdictions.map(code => code.toUpperCase())) {
+            if (result.country_code === jurisdiction) {
+                return result.patent_id;
+            }
+            const member = family.find(candidate => candidate.country_code === jurisdiction);
+            if (member) {
+                return member.patent_id;
+            }
+        }
+        return result.patent_id;
+    });
+
+/**
+ * Show each grouped result as the publication chosen for it by
+ * `familyRepresentativeIds`, which inherits the result's score, ranking and
+ * matched text. Results whose publication is not in `publications` are kept.
+ */
+export const representFamilies = (
+    results: PatentResult[],
+    representativeIds: string[],
+    publications: Map<string, PatentResult>
+): PatentResult[] =>
+    results.map((result, index) => {
+        const representative = publications.get(representativeIds[index] ?? result.patent_id);
+        return representative && representative.patent_id !== result.patent_id
+            ? inheritMatch(representative, result)
+            : result;
+    });
+
+/**
+ * List the other publications of each grouped result's family
+ */
+export const attachFamilyMembers = (
+    results: PatentResult[],
+    families: Map<string, PatentFamilyMember[]>
+): PatentResult[] =>
+    results.map(result => ({
+        ...result,
+        family_members: (families.get(result.family_id) || []).filter(member => member.patent_id !== result.patent_id),
+    }));
+
+const familyKey = (result: PatentResult): string =>
+    result.family_id && result.family_id !== '-1' ? `family:${result.family_id}` : `publication:${result.patent_id}`;
+
+const inheritMatch = (representative: PatentResult, best: PatentResult): PatentResult => ({
+    ...representative,
+    similarity_score: best.similarity_score,
+    ...(best.ranking && { ranking: best.ranking }),
+    ...(!representative.keyword_matches && best.keyword_matches && { keyword_matches: best.keyword_matches }),
+    ...(!representative.matched_passage && best.matched_passage && { matched_passage: best.matched_passage }),
+    ...(!representative.matched_claim && best.matched_claim && { matched_claim: best.matched_claim }),
+});
+
+const pickRepresentative = (members: PatentResult[], preferredJurisdictions: string[]): PatentResult => {
+    for (const jurisdiction of preferredJurisdictions) {
+        const match = members.find(member => member.country_code === jurisdiction.toUpperCase());
+        if (match) {
+            return match;
+        }
+    }
+    return members[0] as PatentResult;
+};
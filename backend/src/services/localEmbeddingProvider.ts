@@ -0,0 +1,68 @@
+import { termFrequencies, tokenizeForIndexing } from '@/utils/tokenizer';
+import { EmbeddingBatch, EmbeddingInputType, EmbeddingProvider } from './embeddingProvider';
+import { SparseVector } from './vectorStore';
+
+// BM25 term-frequency saturation parameters
+const K1 = 1.2;
+const B = 0.75;
+const AVERAGE_PASSAGE_LENGTH = 120; // Typical title + abstract length in tokens
+
+/**
+ * Deterministic, offline sparse embeddings.
+ *
+ * Tokens are hashed into a fixed number of buckets. Passages carry BM25
+ * saturated term frequencies and queries carry unit weights, so the dot
+ * product of a query and a passage is the passage's BM25 TF score.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'local' as const;
+    readonly model: string;
+
+    constructor(private readonly dimensions: number) {
+        this.model = `hashed-bm25-${dimensions}`;
+    }
+
+    async embed(texts: string[], inputType: EmbeddingInputType): Promise<EmbeddingBatch> {
+        let tokens = 0;
+
+        const embeddings = texts.map(text => {
+            const terms = tokenizeForIndexing(text);
+            tokens += terms.length;
+            return { sparse: this.toSparseVector(terms, inputType) };
+        });
+
+        return { embeddings, tokens };
+    }
+
+    private toSparseVector(terms: string[], inputType: EmbeddingInputType): SparseVector {
+        const buckets = new Map<number, number>();
+        const lengthNorm = 1 - B + B * (terms.length / AVERAGE_PASSAGE_LENGTH);
+
+        for (const [term, frequency] of termFrequencies(terms)) {
+            const weight = inputType === 'query'
+                ? 1
+                : (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+            const bucket = fnv1a(term) % this.dimensions;
+            buckets.set(bucket, (buckets.get(bucket) || 0) + weight);
+        }
+
+        const indices = Array.from(buckets.keys()).sort((a, b) => a - b);
+
+        return {
+            indices,
+            values: indices.map(index => buckets.get(index) as number),
+        };
+    }
+}
+
+/**
+ * 32-bit FNV-1a hash, stable across processes and platforms
+ */
+const fnv1a = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
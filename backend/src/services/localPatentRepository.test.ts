@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalPatentRepository } from './localPatentRepository';
+
+// The fixtures plus an older copy of the first publication, from before the search window
+const withOlderPublication = (directory: string): string => {
+    const fixture = JSON.parse(fs.readFileSync(path.resolve('./fixtures/patents.json'), 'utf8'));
+    const [first] = fixture.publications;
+    fixture.publications.push({ ...first, publication_number: 'US-10900009-B2', family_id: '59999', publication_date: 20191231 });
+
+    const fixturePath = path.join(directory, 'patents.json');
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture));
+    return fixturePath;
+};
+
+describe('LocalPatentRepository', () => {
+    let directory: string;
+    let repository: LocalPatentRepository;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-repository-'));
+        repository = new LocalPatentRepository(withOlderPublication(directory));
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('searches publications from 2020 on only', async () => {
+        const keyword = await repository.searchPatentsByKeywords('silicon graphite', undefined, 100);
+        const all = await repository.searchPatentsByKeywords('', undefined, 100);
+        const classification = await repository.searchPatentsByClassification(['H01M'], undefined, 100);
+        const names = await repository.searchAssigneeNames(['tesla'], 10);
+
+        for (const results of [keyword.results, all.results, classification]) {
+            expect(results.length).toBeGreaterThan(0);
+            expect(results.map(result => result.patent_id)).not.toContain('US-10900009-B2');
+        }
+        expect(all.totalMatches).toBe(10);
+        expect(names.reduce((total, { count }) => total + count, 0)).toBe(2);
+        expect(await repository.getPatentsByIds(['US-10900009-B2'])).toHaveLength(1);
+    });
+
+    it('matches classification prefixes regardless of case', async () => {
+        const upper = await repository.searchPatentsByClassification(['H01M4'], undefined, 100);
+        expect(upper.length).toBeGreaterThan(0);
+        expect(await repository.searchPatentsByClassification(['h01m4'], undefined, 100)).toEqual(upper);
+    });
+
+    it('pages keyword results by offset', async () => {
+        const all = await repository.searchPatentsByKeywords('', undefined, 100);
+        const pages = await Promise.all([0, 4, 8].map(offset => repository.searchPatentsByKeywords('', undefined, 4, 'abstract', offset)));
+
+        expect(pages.flatMap(page => page.results.map(result => result.patent_id))).toEqual(all.results.map(result => result.patent_id));
+        expect(pages.map(page => page.results.length)).toEqual([4, 4, 2]);
+        expect(pages.every(page => page.totalMatches === 10)).toBe(true);
+    });
+});
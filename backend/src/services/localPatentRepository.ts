@@ -0,0 +1,479 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { clampLimit } from '@/utils/queryBuilder';
+import { SCOPE_FIELDS, ScoredDocument, scoreDocuments } from '@/utils/keywordScoring';
+import { parseQuery } from '@/utils/queryParser';
+import { QueryDocument, evaluateQuery, filterClauses, scoringTerms } from '@/utils/queryCompiler';
+import { EARLIEST_PUBLICATION_DATE, toDateNumber, toIsoDate } from '@/utils/dates';
+import { pickLocalized } from '@/utils/languages';
+import { assigneeWordPattern } from '@/utils/assigneeNames';
+import {
+    CitationLink,
+    PatentCitationOptions,
+    PatentCitations,
+    PatentDetail,
+    PatentFamilyMember,
+    PatentFullText,
+    PatentResult,
+    PatentSearchFilters,
+    PatentSearchPage,
+    PatentStatistics,
+    PortfolioStatistics,
+    SearchScope,
+    StatisticsScope,
+} from '@/types/patent';
+import {
+    BigQueryPatentDetail,
+    attachMatchedClaims,
+    toFamilyMembersByFamily,
+    toFullTextByPublication,
+    transformBigQueryResults,
+    transformPatentDetail,
+} from './bigqueryService';
+import { PatentRepository } from './patentRepository';
+
+/**
+ * Publication row as stored in the fixture file. Mirrors the columns of
+ * `patents-public-data.patents.publications`, including the INT64 date and
+ * the nested `cpc` and `ipc` arrays.
+ */
+type FixturePublication = BigQueryPatentDetail;
+
+interface FixtureFile {
+    publications: FixturePublication[];
+    citations: Array<{ citing_publication_number: string; cited_publication_number: string; category?: string }>;
+}
+
+/**
+ * In-memory patent repository loaded from a JSON fixture, for offline
+ * development and integration tests
+ */
+export class LocalPatentRepository implements PatentRepository {
+    private readonly publications: FixturePublication[];
+    private readonly publicationsById: Map<string, FixturePublication>;
+    private readonly cpcByPublication: Map<string, string[]>;
+    private readonly citations: FixtureFile['citations'];
+
+    constructor(fixturePath: string) {
+        const resolvedPath = path.resolve(fixturePath);
+        const fixture = JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as FixtureFile;
+
+        this.publications = fixture.publications || [];
+        this.publicationsById = new Map(this.publications.map(p => [p.publication_number, p]));
+        this.citations = fixture.citations || [];
+
+        this.cpcByPublication = new Map(this.publications.map(p => [
+            p.publication_number,
+            (p.cpc || []).map(c => c.code),
+        ]));
+
+        logger.info('Local patent repository initialized', {
+            fixturePath: resolvedPath,
+            publications: this.publications.length,
+            cpcCodes: this.publications.reduce((sum, p) => sum + (p.cpc?.length || 0), 0),
+            citations: this.citations.length,
+        });
+    }
+
+    /**
+     * Search patents by keywords in the title, abstract and/or claims
+     */
+    async searchPatentsByKeywords(
+        keywords: string,
+        filters?: PatentSearchFilters,
+        limit: number = 100,
+        scope: SearchScope = 'abstract',
+        offset: number = 0
+    ): Promise<PatentSearchPage> {
+        const ast = keywords.trim() ? parseQuery(keywords) : undefined;
+        const terms = ast ? scoringTerms(ast) : [];
+        const fields = SCOPE_FIELDS[scope];
+        const corpus = this.searchable().filter(publication => this.matchesFilters(publication, filters));
+        const start = Math.max(0, Math.floor(offset) || 0);
+        const end = start + clampLimit(limit, config.bigquery.maxResults);
+        const matchesQuery = (publication: FixturePublication) =>
+            !ast || evaluateQuery(ast, this.toQueryDocument(publication), scope);
+
+        if (terms.length === 0) {
+            const matches = this.newestFirst(corpus.filter(matchesQuery));
+            return {
+                results: this.toResults(matches.slice(start, end)),
+                totalMatches: matches.length,
+            };
+        }
+
+        // Term statistics cover every publication in the search window, not
+        // just the filtered ones, as BigQuery samples them from the whole window
+        const searchable = this.searchable();
+        const texts = searchable.map(publication => ({
+            title: publication.title_localized?.map(t => t.text).join(' ') || '',
+            abstract: publication.abstract_localized?.map(a => a.text).join(' ') || '',
+            claims: publication.claims_localized?.map(c => c.text).join(' ') || '',
+        }));
+        const scores = scoreDocuments(terms, texts, fields);
+        const candidates = new Set(corpus.filter(matchesQuery));
+
+        const matches = searchable
+            .map((publication, i) => ({
+                publication,
+                scored: scores[i] as ScoredDocument,
+            }))
+            .filter(({ publication }) => candidates.has(publication))
+            .sort((a, b) =>
+                b.scored.score - a.scored.score ||
+                b.publication.publication_date - a.publication.publication_date ||
+                a.publication.publication_number.localeCompare(b.publication.publication_number)
+            );
+
+        const page = matches.slice(start, end).map(({ publication, scored }) => ({
+            ...publication,
+            relevance_score: scored.score,
+            keyword_matches: scored.matchedTerms,
+        }));
+        const results = this.toResults(page);
+
+        return {
+            results: fields.includes('claims') ? attachMatchedClaims(results, page) : results,
+            totalMatches: matches.length,
+        };
+    }
+
+    /**
+     * Get patents by publication numbers
+     */
+    async getPatentsByIds(patentIds: string[]): Promise<PatentResult[]> {
+        const publications = patentIds
+            .map(id => this.publicationsById.get(id))
+            .filter((publication): publication is FixturePublication => publication !== undefined);
+
+        return this.toResults(publications);
+    }
+
+    /**
+     * Get the parsed claims and description of several publications
+     */
+    async getPatentFullText(patentIds: string[]): Promise<Map<string, PatentFullText>> {
+        const publications = patentIds
+            .map(id => this.publicationsById.get(id))
+            .filter((publication): publication is FixturePublication => publication !== undefined);
+
+        return toFullTextByPublication(publications);
+    }
+
+    /**
+     * Get the full record of one publication with its family and citation counts
+     */
+    async getPatentDetail(patentId: string): Promise<PatentDetail | undefined> {
+        const publication = this.publicationsById.get(patentId);
+        if (!publication) {
+            return undefined;
+        }
+
+        const family = this.publications
+            .filter(p => p.family_id && p.family_id === publication.family_id && p.publication_number !== patentId)
+            .sort((a, b) => a.publication_date - b.publication_date || a.publication_number.localeCompare(b.publication_number));
+
+        return transformPatentDetail(publication, family, {
+            backward: this.citations.filter(c => c.citing_publication_number === patentId).length,
+            forward: this.citations.filter(c => c.cited_publication_number === patentId).length,
+            non_patent: 0,
+        });
+    }
+
+    /**
+     * Get every publication of several families
+     */
+    async getFamilyMembers(familyIds: string[]): Promise<Map<string, PatentFamilyMember[]>> {
+        const ids = new Set(familyIds.filter(id => id && id !== '-1'));
+        const members = this.publications
+            .filter(p => ids.has(p.family_id))
+            .sort((a, b) => a.publication_date - b.publication_date || a.publication_number.localeCompare(b.publication_number));
+
+        return toFamilyMembersByFamily(members);
+    }
+
+    /**
+     * Search patents by CPC classification prefixes
+     */
+    async searchPatentsByClassification(
+        classifications: string[],
+        filters?: PatentSearchFilters,
+        limit: number = 100
+    ): Promise<PatentResult[]> {
+        const prefixes = classifications.map(prefix => prefix.toUpperCase());
+        const matches = this.searchable()
+            .filter(publication => this.matchesFilters(publication, filters))
+            .filter(publication => {
+                const codes = this.cpcByPublication.get(publication.publication_number) || [];
+                return codes.some(code => prefixes.some(prefix => code.toUpperCase().startsWith(prefix)));
+            });
+
+        return this.toResults(this.newestFirst(matches).slice(0, clampLimit(limit, config.bigquery.maxResults)));
+    }
+
+    /**
+     * Get forward and backward citations from the fixture citation table
+     */
+    async getPatentCitations(patentId: string, options: PatentCitationOptions): Promise<PatentCitations> {
+        const publication = this.publicationsById.get(patentId);
+        const familyId = options.family && publication?.family_id && publication.family_id !== '-1'
+            ? publication.family_id
+            : undefined;
+        const sources = new Set(familyId
+            ? this.publications.filter(p => p.family_id === familyId).map(p => p.publication_number)
+            : [patentId]);
+
+        const linked = (ids: string[]) => {
+            const seen = new Set<string>();
+            const publications = Array.from(new Set(ids))
+                .map(id => this.publicationsById.get(id))
+                .filter((p): p is FixturePublication => p !== undefined && !sources.has(p.publication_number))
+                .filter(p => !familyId || p.family_id !== familyId)
+                // Earliest publication first so it represents its family
+                .sort((a, b) => a.publication_date - b.publication_date || a.publication_number.localeCompare(b.publication_number))
+                .filter(p => {
+                    const key = options.family && p.family_id && p.family_id !== '-1' ? p.family_id : p.publication_number;
+                    return !seen.has(key) && !!seen.add(key);
+                })
+                .sort((a, b) => b.publication_date - a.publication_date || a.publication_number.localeCompare(b.publication_number));
+
+            return {
+                page: this.toResults(publications.slice(options.offset, options.offset + options.limit)),
+                total: publications.length,
+            };
+        };
+
+        const citing = linked(this.citations
+            .filter(c => sources.has(c.cited_publication_number))
+            .map(c => c.citing_publication_number));
+        const cited = linked(this.citations
+            .filter(c => sources.has(c.citing_publication_number))
+            .map(c => c.cited_publication_number));
+
+        return {
+            citing: citing.page,
+            cited: cited.page,
+            total_citing: citing.total,
+            total_cited: cited.total,
+        };
+    }
+
+    /**
+     * Get the citations made or received by any of the publications
+     */
+    async getCitationLinks(patentIds: string[]): Promise<CitationLink[]> {
+        const ids = new Set(patentIds);
+
+        return this.citations
+            .filter(c => ids.has(c.citing_publication_number) || ids.has(c.cited_publication_number))
+            .map(c => ({
+                citing: c.citing_publication_number,
+                cited: c.cited_publication_number,
+                category: c.category || '',
+            }));
+    }
+
+    /**
+     * Compute landscape statistics over the fixture publications matching the
+     * scope's keyword query or listed among its patent IDs
+     */
+    async getPatentStatistics(scope: StatisticsScope): Promise<PatentStatistics> {
+        const ast = scope.query?.trim() ? parseQuery(scope.query) : undefined;
+        const ids = new Set(scope.patentIds || []);
+        const inPopulation = (publication: FixturePublication) =>
+            (!ast && ids.size === 0) ||
+            (!!ast && evaluateQuery(ast, this.toQueryDocument(publication), scope.scope)) ||
+            ids.has(publication.publication_number);
+        const publications = this.publications.filter(publication =>
+            this.matchesFilters(publication, scope.filters) && inPopulation(publication)
+        );
+
+        const years = new Map<number, number>();
+        const assignees = new Map<string, number>();
+        const classifications = new Map<string, number>();
+
+        for (const publication of publications) {
+            const year = Math.floor(publication.publication_date / 10000);
+            years.set(year, (years.get(year) || 0) + 1);
+
+            for (const { name } of publication.assignee_harmonized || []) {
+                assignees.set(name, (assignees.get(name) || 0) + 1);
+            }
+
+            for (const code of this.cpcByPublication.get(publication.publication_number) || []) {
+                classifications.set(code, (classifications.get(code) || 0) + 1);
+            }
+        }
+
+        const top = (counts: Map<string, number>, limit: number = 20) =>
+            Array.from(counts.entries()).sort(([, a], [, b]) => b - a).slice(0, limit);
+
+        return {
+            totalPatents: publications.length,
+            yearlyDistribution: Array.from(years.entries())
+                .sort(([a], [b]) => a - b)
+                .map(([year, count]) => ({ year, count })),
+            topAssignees: top(assignees, 100).map(([assignee, count]) => ({ assignee, count })),
+            topClassifications: top(classifications).map(([classification, count]) => ({ classification, count })),
+        };
+    }
+
+    /**
+     * Compute portfolio statistics over the fixture publications within the filters
+     */
+    async getPortfolioStatistics(filters: PatentSearchFilters): Promise<PortfolioStatistics> {
+        const publications = this.publications.filter(publication => this.matchesFilters(publication, filters));
+        const ids = new Set(publications.map(publication => publication.publication_number));
+
+        const trend = new Map<string, { year: number; country_code: string; count: number }>();
+        const subclasses = new Map<string, number>();
+        const inventors = new Map<string, number>();
+        const families = new Set<string>();
+
+        for (const publication of publications) {
+            const year = Math.floor((publication.filing_date || publication.publication_date) / 10000);
+            if (year > 0) {
+                const key = `${year}:${publication.country_code}`;
+                const entry = trend.get(key) || { year, country_code: publication.country_code, count: 0 };
+                entry.count++;
+                trend.set(key, entry);
+            }
+
+            const codes = this.cpcByPublication.get(publication.publication_number) || [];
+            for (const subclass of new Set(codes.map(code => code.slice(0, 4)))) {
+                subclasses.set(subclass, (subclasses.get(subclass) || 0) + 1);
+            }
+
+            for (const name of new Set(publication.inventor_harmonized?.map(i => i.name) || [])) {
+                inventors.set(name, (inventors.get(name) || 0) + 1);
+            }
+
+            families.add(publication.family_id && publication.family_id !== '-1'
+                ? publication.family_id
+                : publication.publication_number);
+        }
+
+        // Family size counts every publication of the family, in or out of the portfolio
+        const familySizes = new Map<number, number>();
+        for (const family of families) {
+            const size = this.publications.filter(p => p.family_id === family).length || 1;
+            familySizes.set(size, (familySizes.get(size) || 0) + 1);
+        }
+
+        const citing = new Map<string, Set<string>>();
+        for (const citation of this.citations) {
+            if (ids.has(citation.cited_publication_number)) {
+                const citers = citing.get(citation.cited_publication_number) || new Set<string>();
+                citers.add(citation.citing_publication_number);
+                citing.set(citation.cited_publication_number, citers);
+            }
+        }
+        const forwardCitations = Array.from(citing.values()).reduce((sum, citers) => sum + citers.size, 0);
+
+        const top = <T>(counts: Map<T, number>) =>
+            Array.from(counts.entries()).sort(([, a], [, b]) => b - a).slice(0, 20);
+
+        return {
+            totalPatents: publications.length,
+            totalFamilies: families.size,
+            filingTrend: Array.from(trend.values())
+                .sort((a, b) => a.year - b.year || a.country_code.localeCompare(b.country_code)),
+            cpcDistribution: top(subclasses).map(([classification, count]) => ({ classification, count })),
+            topInventors: top(inventors).map(([inventor, count]) => ({ inventor, count })),
+            familySizes: Array.from(familySizes.entries())
+                .sort(([a], [b]) => a - b)
+                .map(([size, count]) => ({ size, families: count })),
+            citationImpact: {
+                forward_citations: forwardCitations,
+                cited_patents: citing.size,
+                citations_per_patent: publications.length > 0 ? forwardCitations / publications.length : 0,
+            },
+            topCitedPatents: Array.from(citing.entries())
+                .sort(([idA, a], [idB, b]) => b.size - a.size || idA.localeCompare(idB))
+                .slice(0, 10)
+                .map(([id, citers]) => {
+                    const publication = this.publicationsById.get(id) as FixturePublication;
+                    return {
+                        patent_id: id,
+                        title: pickLocalized(publication.title_localized)?.text || 'Untitled Patent',
+                        publication_date: toIsoDate(publication.publication_date) || '',
+                        country_code: publication.country_code,
+                        forward_citations: citers.size,
+                    };
+                }),
+        };
+    }
+
+    /**
+     * Find fixture assignee names with a word starting with any of the terms
+     */
+    async searchAssigneeNames(terms: string[], limit: number): Promise<Array<{ name: string; count: number }>> {
+        const pattern = new RegExp(assigneeWordPattern(terms));
+        const counts = new Map<string, number>();
+
+        for (const publication of this.searchable()) {
+            for (const name of new Set(publication.assignee_harmonized?.map(a => a.name) || [])) {
+                if (pattern.test(name.toUpperCase())) {
+                    counts.set(name, (counts.get(name) || 0) + 1);
+                }
+            }
+        }
+
+        return Array.from(counts.entries())
+            .sort(([nameA, a], [nameB, b]) => b - a || nameA.localeCompare(nameB))
+            .slice(0, clampLimit(limit, config.bigquery.maxResults))
+            .map(([name, count]) => ({ name, count }));
+    }
+
+    private matchesFilters(publication: FixturePublication, filters?: PatentSearchFilters): boolean {
+        if (!filters) {
+            return true;
+        }
+
+        if (filters.dateRange?.start && publication.publication_date < toDateNumber(filters.dateRange.start)) {
+            return false;
+        }
+        if (filters.dateRange?.end && publication.publication_date > toDateNumber(filters.dateRange.end)) {
+            return false;
+        }
+
+        if (filters.countries && filters.countries.length > 0 && !filters.countries.includes(publication.country_code)) {
+            return false;
+        }
+
+        const facets = filterClauses(filters);
+        return !facets || evaluateQuery(facets, this.toQueryDocument(publication));
+    }
+
+    private toQueryDocument(publication: FixturePublication): QueryDocument {
+        return {
+            titles: publication.title_localized?.map(t => t.text) || [],
+            abstracts: publication.abstract_localized?.map(a => a.text) || [],
+            claims: publication.claims_localized?.map(c => c.text) || [],
+            assignees: publication.assignee_harmonized?.map(a => a.name) || [],
+            inventors: publication.inventor_harmonized?.map(i => i.name) || [],
+            cpc: this.cpcByPublication.get(publication.publication_number) || [],
+            countryCode: publication.country_code,
+            publicationDate: publication.publication_date,
+        };
+    }
+
+    /**
+     * Publications within the search window, as BigQuery searches them
+     */
+    private searchable(): FixturePublication[] {
+        return this.publications.filter(publication => publication.publication_date >= EARLIEST_PUBLICATION_DATE);
+    }
+
+    private newestFirst(publications: FixturePublication[]): FixturePublication[] {
+        return [...publications].sort((a, b) =>
+            b.publication_date - a.publication_date || a.publication_number.localeCompare(b.publication_number)
+        );
+    }
+
+    private toResults(publications: FixturePublication[]): PatentResult[] {
+        return transformBigQueryResults(publications);
+    }
+}
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '@/utils/logger';
+import {
+    MetadataFilter,
+    SparseVector,
+    VectorIndexSpec,
+    VectorIndexStatus,
+    VectorMatch,
+    VectorMetadata,
+    VectorMetadataValue,
+    VectorQuery,
+    VectorRecord,
+    VectorStore,
+} from './vectorStore';
+
+interface LocalIndexFile {
+    name: string;
+    metric: string;
+    records: VectorRecord[];
+}
+
+/**
+ * On-disk vector store with exact (brute-force) search.
+ *
+ * Sparse vectors are scored by dot product and dense vectors by the
+ * configured metric; a record carrying both gets the sum of the two.
+ */
+export class LocalVectorStore implements VectorStore {
+    readonly provider = 'local';
+
+    private readonly filePath: string;
+    private records: Map<string, VectorRecord> | null = null;
+
+    constructor(
+        private readonly indexName: string,
+        directory: string,
+        private readonly metric: string = 'cosine'
+    ) {
+        this.filePath = path.resolve(directory, `${indexName}.json`);
+    }
+
+    /**
+     * Score every record that passes the metadata filter and return the top K
+     */
+    async query(request: VectorQuery): Promise<VectorMatch[]> {
+        const records = this.load();
+
+        const matches: VectorMatch[] = [];
+
+        for (const record of records.values()) {
+            if (request.filter && !matchesMetadataFilter(record.metadata || {}, request.filter)) {
+                continue;
+            }
+
+            let score = 0;
+            if (request.sparseVector && record.sparseValues) {
+                score += sparseDotProduct(request.sparseVector, record.sparseValues);
+            }
+            if (request.vector && record.values && record.values.length > 0) {
+                score += this.denseSimilarity(request.vector, record.values);
+            }
+
+            matches.push({ id: record.id, score, metadata: record.metadata });
+        }
+
+        return matches
+            .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+            .slice(0, request.topK);
+    }
+
+    /**
+     * Insert or replace records and persist the index
+     */
+    async upsert(records: VectorRecord[]): Promise<void> {
+        const existing = this.load();
+
+        for (const record of records) {
+            existing.set(record.id, record);
+        }
+
+        this.persist();
+    }
+
+    /**
+     * Report whether the index file exists and how many vectors it holds
+     */
+    async describeIndex(): Promise<VectorIndexStatus> {
+        if (!fs.existsSync(this.filePath)) {
+            return { exists: false, ready: false };
+        }
+
+        return {
+            exists: true,
+            ready: true,
+            vectorCount: this.load().size,
+            indexType: `local-${this.metric}`,
+        };
+    }
+
+    /**
+     * Create an empty index file if none exists
+     */
+    async createIndex(_spec: VectorIndexSpec): Promise<void> {
+        if (fs.existsSync(this.filePath)) {
+            logger.info('Local vector index already exists', { filePath: this.filePath });
+            return;
+        }
+
+        this.records = new Map();
+        this.persist();
+    }
+
+    /**
+     * Remove the index file
+     */
+    async deleteIndex(): Promise<void> {
+        this.records = null;
+        if (fs.existsSync(this.filePath)) {
+            fs.unlinkSync(this.filePath);
+        }
+    }
+
+    private load(): Map<string, VectorRecord> {
+        if (this.records) {
+            return this.records;
+        }
+
+        if (!fs.existsSync(this.filePath)) {
+            this.records = new Map();
+            return this.records;
+        }
+
+        const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LocalIndexFile;
+        this.records = new Map(file.records.map(record => [record.id, record]));
+
+        logger.debug('Loaded local vector index', {
+            filePath: this.filePath,
+            vectorCount: this.records.size,
+        });
+
+        return this.records;
+    }
+
+    private persist(): void {
+        const file: LocalIndexFile = {
+            name: this.indexName,
+            metric: this.metric,
+            records: Array.from(this.load().values()),
+        };
+
+        // Write then rename so a crash never leaves a truncated index behind
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(file));
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    private denseSimilarity(a: number[], b: number[]): number {
+        let dot = 0;
+        let normA = 0;
+        let normB = 0;
+        const length = Math.min(a.length, b.length);
+
+        for (let i = 0; i < length; i++) {
+            const x = a[i] ?? 0;
+            const y = b[i] ?? 0;
+            dot += x * y;
+            normA += x * x;
+            normB += y * y;
+        }
+
+        if (this.metric === 'dotproduct') {
+            return dot;
+        }
+
+        if (this.metric === 'euclidean') {
+            // Map distance onto (0, 1] so higher is still better
+            return 1 / (1 + Math.sqrt(Math.max(normA + normB - 2 * dot, 0)));
+        }
+
+        return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+    }
+}
+
+/**
+ * Dot product of two sparse vectors
+ */
+export const sparseDotProduct = (a: SparseVector, b: SparseVector): number => {
+    const weights = new Map<number, number>();
+    a.indices.forEach((index, i) => weights.set(index, a.values[i] ?? 0));
+
+    let score = 0;
+    b.indices.forEach((index, i) => {
+        const weight = weights.get(index);
+        if (weight !== undefined) {
+            score += weight * (b.values[i] ?? 0);
+        }
+    });
+
+    return score;
+};
+
+/**
+ * Evaluate a Pinecone-style metadata filter against one record's metadata.
+ * List-valued fields match $eq/$in when any element matches.
+ */
+export const matchesMetadataFilter = (metadata: VectorMetadata, filter: MetadataFilter): boolean => {
+    return Object.entries(filter).every(([key, condition]) => {
+        if (key === '$and') {
+            return (condition as MetadataFilter[]).every(sub => matchesMetadataFilter(metadata, sub));
+        }
+        if (key === '$or') {
+            return (condition as MetadataFilter[]).some(sub => matchesMetadataFilter(metadata, sub));
+        }
+
+        const value = metadata[key];
+
+        if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+            return matchesOperator(value, '$eq', condition);
+        }
+
+        return Object.entries(condition).every(([operator, operand]) => matchesOperator(value, operator, operand));
+    });
+};
+
+const matchesOperator = (value: VectorMetadataValue | undefined, operator: string, operand: any): boolean => {
+    const candidates: Array<string | number | boolean> = Array.isArray(value)
+        ? value
+        : value === undefined ? [] : [value];
+
+    switch (operator) {
+        case '$eq':
+            return candidates.some(candidate => candidate === operand);
+        case '$ne':
+            return candidates.every(candidate => candidate !== operand);
+        case '$in':
+            return candidates.some(candidate => (operand as unknown[]).includes(candidate));
+        case '$nin':
+            return candidates.every(candidate => !(operand as unknown[]).includes(candidate));
+        case '$gt':
+            return candidates.some(candidate => candidate > operand);
+        case '$gte':
+            return candidates.some(candidate => candidate >= operand);
+        case '$lt':
+            return candidates.some(candidate => candidate < operand);
+        case '$lte':
+            return candidates.some(candidate => candidate <= operand);
+        case '$exists':
+            return (value !== undefined) === Boolean(operand);
+        default:
+            throw new Error(`Unsupported metadata filter operator: ${operator}`);
+    }
+};
@@ -0,0 +1,57 @@
+import { MemoryCacheStore } from './memoryCacheStore';
+
+describe('MemoryCacheStore', () => {
+    it('evicts the least recently used entry beyond its size', async () => {
+        const store = new MemoryCacheStore(2);
+        await store.set('a', '1', 60);
+        await store.set('b', '2', 60);
+        await store.get('a');
+        await store.set('c', '3', 60);
+
+        expect(await store.size()).toBe(2);
+        expect(await store.get('b')).toBeUndefined();
+        expect(await store.get('a')).toBe('1');
+        expect(await store.get('c')).toBe('3');
+    });
+
+    it('counts an overwritten key as recently used', async () => {
+        const store = new MemoryCacheStore(2);
+        await store.set('a', '1', 60);
+        await store.set('b', '2', 60);
+        await store.set('a', '3', 60);
+        await store.set('c', '4', 60);
+
+        expect(await store.get('a')).toBe('3');
+        expect(await store.get('b')).toBeUndefined();
+    });
+
+    it('expires entries after their TTL and drops them on read', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+        try {
+            const store = new MemoryCacheStore(10);
+            await store.set('short', '1', 10);
+            await store.set('long', '2', 60);
+
+            now.mockReturnValue(1_000_000 + 9_999);
+            expect(await store.get('short')).toBe('1');
+
+            now.mockReturnValue(1_000_000 + 10_000);
+            expect(await store.get('short')).toBeUndefined();
+            expect(await store.get('long')).toBe('2');
+            expect(await store.size()).toBe(1);
+        } finally {
+            now.mockRestore();
+        }
+    });
+
+    it('deletes keys by prefix', async () => {
+        const store = new MemoryCacheStore(10);
+        await store.set('search:a', '1', 60);
+        await store.set('search:b', '2', 60);
+        await store.set('embeddings:a', '3', 60);
+
+        expect(await store.deleteByPrefix('search:')).toBe(2);
+        expect(await store.get('search:a')).toBeUndefined();
+        expect(await store.get('embeddings:a')).toBe('3');
+    });
+});
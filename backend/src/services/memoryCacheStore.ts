@@ -0,0 +1,59 @@
+import { CacheStore } from './cacheStore';
+
+interface CacheEntry {
+    value: string;
+    expiresAt: number;
+}
+
+/**
+ * In-process LRU cache. A Map keeps insertion order, so re-inserting an
+ * entry on every read moves it to the back and the first key is always the
+ * least recently used.
+ */
+export class MemoryCacheStore implements CacheStore {
+    readonly provider = 'memory';
+
+    private readonly entries = new Map<string, CacheEntry>();
+
+    constructor(private readonly maxEntries: number) { }
+
+    async get(key: string): Promise<string | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async deleteByPrefix(prefix: string): Promise<number> {
+        let removed = 0;
+        for (const key of Array.from(this.entries.keys())) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    async size(): Promise<number> {
+        return this.entries.size;
+    }
+}
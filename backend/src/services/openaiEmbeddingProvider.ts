@@ -0,0 +1,48 @@
+import OpenAI from 'openai';
+import { config } from '@/config/config';
+import { EmbeddingBatch, EmbeddingProvider } from './embeddingProvider';
+
+// Output sizes of OpenAI's embedding models
+const MODEL_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536,
+};
+
+/**
+ * Dense embeddings from the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'openai' as const;
+    readonly model: string;
+    readonly dimension?: number;
+
+    private openai: OpenAI;
+
+    constructor() {
+        this.openai = new OpenAI({
+            apiKey: config.openai.apiKey,
+        });
+
+        this.model = config.openai.embeddingModel;
+        this.dimension = MODEL_DIMENSIONS[this.model];
+    }
+
+    async embed(texts: string[]): Promise<EmbeddingBatch> {
+        const response = await this.openai.embeddings.create({
+            model: this.model,
+            input: texts,
+        });
+
+        // The API may return items out of order; index tells us which input each belongs to
+        const embeddings = texts.map(() => ({}));
+        for (const item of response.data) {
+            embeddings[item.index] = { dense: item.embedding };
+        }
+
+        return {
+            embeddings,
+            tokens: response.usage.total_tokens,
+        };
+    }
+}
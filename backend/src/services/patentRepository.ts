@@ -0,0 +1,86 @@
+import { config } from '@/config/config';
+import {
+    CitationLink,
+    PatentCitationOptions,
+    PatentCitations,
+    PatentDetail,
+    PatentFamilyMember,
+    PatentFullText,
+    PatentResult,
+    PatentSearchFilters,
+    PatentSearchPage,
+    PatentStatistics,
+    PortfolioStatistics,
+    SearchScope,
+    StatisticsScope,
+} from '@/types/patent';
+import { BigQueryService } from './bigqueryService';
+import { LocalPatentRepository } from './localPatentRepository';
+
+/**
+ * Storage backend for patent bibliographic data.
+ *
+ * BigQuery is the production implementation; the local implementation serves
+ * the same contract from a fixture file so the API can run offline.
+ */
+export interface PatentRepository {
+    /** Matches ranked best first, skipping the first `offset` */
+    searchPatentsByKeywords(
+        keywords: string,
+        filters?: PatentSearchFilters,
+        limit?: number,
+        scope?: SearchScope,
+        offset?: number
+    ): Promise<PatentSearchPage>;
+
+    getPatentsByIds(patentIds: string[]): Promise<PatentResult[]>;
+
+    /** Parsed claims and description per publication, for passage indexing */
+    getPatentFullText(patentIds: string[]): Promise<Map<string, PatentFullText>>;
+
+    /** Full record of one publication, or undefined when it does not exist */
+    getPatentDetail(patentId: string): Promise<PatentDetail | undefined>;
+
+    /** Every publication of each family, oldest first */
+    getFamilyMembers(familyIds: string[]): Promise<Map<string, PatentFamilyMember[]>>;
+
+    searchPatentsByClassification(
+        classifications: string[],
+        filters?: PatentSearchFilters,
+        limit?: number
+    ): Promise<PatentResult[]>;
+
+    /** Publications citing and cited by one publication, or by its family */
+    getPatentCitations(patentId: string, options: PatentCitationOptions): Promise<PatentCitations>;
+
+    /** Citations made or received by any of the publications */
+    getCitationLinks(patentIds: string[]): Promise<CitationLink[]>;
+
+    /** Landscape statistics over the publications in scope */
+    getPatentStatistics(scope: StatisticsScope): Promise<PatentStatistics>;
+
+    /** Portfolio statistics over every publication within the filters, usually an assignee filter */
+    getPortfolioStatistics(filters: PatentSearchFilters): Promise<PortfolioStatistics>;
+
+    /**
+     * Harmonized assignee names with a word starting with any of the terms,
+     * with their publication counts, most published first
+     */
+    searchAssigneeNames(terms: string[], limit: number): Promise<Array<{ name: string; count: number }>>;
+}
+
+/**
+ * Create the repository selected by config.storage.backend
+ */
+export const createPatentRepository = (): PatentRepository => {
+    switch (config.storage.backend) {
+        case 'local':
+            return new LocalPatentRepository(config.storage.fixturePath);
+
+        case 'bigquery':
+            return new BigQueryService();
+
+        default:
+            throw new Error(`Unsupported patent storage backend: ${config.storage.backend}`);
+    }
+};
@@ -0,0 +1,202 @@
+import { FILTER_CASES, indexFixtures } from '@/__tests__/fixtures/search';
+import { config } from '@/config/config';
+import { CitationNetwork, CitationNetworkOptions, PatentSearchFilters } from '@/types/patent';
+import { NoSemanticMatchesError, PatentSearchService } from './patentSearchService';
+import { LocalPatentRepository } from './localPatentRepository';
+
+const expectNarrowed = <T>(unfiltered: T[], filtered: T[], passes: (item: T) => boolean) => {
+    expect(unfiltered.some(item => !passes(item))).toBe(true);
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(filtered.length).toBeLessThan(unfiltered.length);
+    expect(filtered.every(passes)).toBe(true);
+};
+
+let service: PatentSearchService;
+
+beforeAll(async () => {
+    await indexFixtures();
+    service = new PatentSearchService();
+}, 30000);
+
+describe('PatentSearchService offline', () => {
+    it('runs on local storage, vectors and embeddings without Pinecone or OpenAI keys', () => {
+        expect(config.storage.backend).toBe('local');
+        expect(config.vectorStore.provider).toBe('local');
+        expect(config.embedding.provider).toBe('local');
+        expect(config.pinecone.apiKey).toBe('');
+        expect(config.openai.apiKey).toBe('');
+    });
+
+    it('answers keyword searches from the fixtures', async () => {
+        const response = await service.searchPatents({ query: 'battery', searchType: 'keyword' });
+        expect(response.results.length).toBeGreaterThan(0);
+        expect(response.results.every(result => result.ranking?.sources.keyword)).toBe(true);
+    });
+
+    it('answers semantic searches from the local index', async () => {
+        const response = await service.searchPatents({ query: 'lithium battery anode', searchType: 'semantic', minSimilarity: 0 });
+        expect(response.results[0]?.patent_id).toMatch(/^US-(11200001-B2|20210050001-A1)$/);
+        expect(response.search_metadata.semantic_results).toBeGreaterThan(0);
+    });
+
+    it('scores semantic results within [0, 1] by a fixed bound before applying the threshold', async () => {
+        const all = await service.searchPatents({ query: 'lithium battery anode', searchType: 'semantic', minSimilarity: 0 });
+        const scores = all.results.map(result => result.similarity_score);
+        expect(scores[0]).toBeGreaterThan(0.7);
+        expect(scores.every(score => score >= 0 && score < 1)).toBe(true);
+        expect(all.results.every(result => (result.matched_passage?.score ?? 0) < 1)).toBe(true);
+
+        const strict = await service.searchPatents({ query: 'lithium battery anode', searchType: 'semantic', minSimilarity: 0.7 });
+        expect(strict.results.length).toBeGreaterThan(0);
+        expect(strict.results.length).toBe(scores.filter(score => score >= 0.7).length);
+        expect(strict.results.every(result => result.similarity_score >= 0.7 && result.ranking?.fused_score === result.similarity_score)).toBe(true);
+    });
+
+    it('drops a weak best match instead of scaling it to 1', async () => {
+        const weak = await service.searchPatents({ query: 'silicon', searchType: 'semantic', minSimilarity: 0 });
+        expect(weak.results[0]?.similarity_score).toBeGreaterThan(0);
+        expect(weak.results[0]?.similarity_score).toBeLessThan(0.7);
+
+        await expect(service.searchPatents({ query: 'silicon', searchType: 'semantic', minSimilarity: 0.7 }))
+            .rejects.toThrow(NoSemanticMatchesError);
+    });
+
+    it('fuses keyword and semantic rankings for hybrid searches', async () => {
+        const response = await service.searchPatents({ query: 'autonomous vehicle', searchType: 'hybrid', minSimilarity: 0 });
+        expect(response.results.length).toBeGreaterThan(0);
+        expect(response.search_metadata.fusion_method).toBe('rrf');
+    });
+
+    it('falls back to keyword results when no semantic match reaches the threshold', async () => {
+        const semanticSearch = jest.spyOn(service['semanticSearchService'], 'semanticPatentSearch').mockResolvedValue([]);
+        try {
+            const keyword = await service.searchPatents({ query: 'battery', searchType: 'keyword' });
+            const hybrid = await service.searchPatents({ query: 'battery', searchType: 'hybrid' });
+
+            expect(semanticSearch).toHaveBeenCalled();
+            expect(hybrid.results.map(result => result.patent_id)).toEqual(keyword.results.map(result => result.patent_id));
+            expect(hybrid.search_metadata.semantic_results).toBe(0);
+            await expect(service.searchPatents({ query: 'battery', searchType: 'semantic' })).rejects.toThrow(NoSemanticMatchesError);
+        } finally {
+            semanticSearch.mockRestore();
+        }
+    });
+
+    it('indexes every publication once, batch after batch, stopping at a short batch', async () => {
+        const search = jest.spyOn(service['patentRepository'], 'searchPatentsByKeywords');
+        const index = jest.spyOn(service['semanticSearchService'], 'indexPatentEmbeddings').mockResolvedValue();
+        try {
+            expect(await service.indexPatentsForSemanticSearch(undefined, 4)).toEqual({ indexed: 10, errors: 0 });
+
+            expect(search.mock.calls.map(call => call[4])).toEqual([0, 4, 8]);
+            const indexed = index.mock.calls.flatMap(([patents]) => patents.map(patent => patent.patent_id));
+            expect(new Set(indexed).size).toBe(10);
+        } finally {
+            search.mockRestore();
+            index.mockRestore();
+        }
+    });
+
+    it('reports the local index as ready in the system status', async () => {
+        const status = await service.getSystemStatus();
+        expect(status.bigquery.dataset).toBe(config.storage.fixturePath);
+        expect(status.pinecone.status).toBe('operational');
+        expect(status.pinecone.indexType).toBe('local-cosine');
+        expect(status.pinecone.vectorCount).toBeGreaterThan(0);
+    });
+});
+
+describe('PatentSearchService filters', () => {
+    describe.each(['keyword', 'semantic', 'hybrid'] as const)('%s search', searchType => {
+        it.each(FILTER_CASES)('narrows results by the %s filter', async (_name, filters, passes) => {
+            const search = (searchFilters?: PatentSearchFilters) =>
+                service.searchPatents({ query: 'lithium battery', searchType, filters: searchFilters, minSimilarity: 0 });
+
+            const unfiltered = await search();
+            const filtered = await search(filters);
+
+            expectNarrowed(unfiltered.results, filtered.results, passes);
+            expect(filtered.search_metadata.filters_applied).toEqual(Object.keys(filters));
+        });
+    });
+
+    it.each(FILTER_CASES)('narrows landscape statistics and samples by the %s filter', async (_name, filters, passes) => {
+        const unfiltered = await service.generatePatentLandscape('battery');
+        const filtered = await service.generatePatentLandscape('battery', filters);
+
+        expect(filtered.statistics.totalPatents).toBeGreaterThan(0);
+        expect(filtered.statistics.totalPatents).toBeLessThan(unfiltered.statistics.totalPatents);
+        expect(filtered.statistics.population.filters).toEqual(filters);
+
+        const repository = new LocalPatentRepository(config.storage.fixturePath);
+        const sampled = await repository.getPatentsByIds(filtered.patentMap.map(point => point.patent_id));
+        expect(sampled.length).toBeGreaterThan(0);
+        expect(sampled.every(passes)).toBe(true);
+    });
+
+    it('counts the assignee filter per company in the landscape', async () => {
+        const landscape = await service.generatePatentLandscape('battery', { assignees: ['Tesla'] });
+        expect(landscape.statistics.topAssignees).toEqual([
+            { assignee: 'Tesla', count: 2, companies: [{ name: 'Tesla', count: 2 }] },
+        ]);
+    });
+
+    it('rolls subsidiaries up into their top-level parent in the landscape', async () => {
+        const landscape = await service.generatePatentLandscape('vehicle', { assignees: ['Alphabet'] });
+        const [alphabet, ...others] = landscape.statistics.topAssignees;
+        expect(others).toEqual([]);
+        expect(alphabet?.assignee).toBe('Alphabet');
+        expect(alphabet?.companies.map(company => company.name).sort()).toEqual(['Google', 'Waymo']);
+        expect(alphabet?.count).toBe(alphabet?.companies.reduce((sum, company) => sum + company.count, 0));
+    });
+});
+
+describe('PatentSearchService citation network', () => {
+    // Fixture citations: US-11400007-B2 → US-11300002-B1 → US-20200400003-A1, with
+    // WO-2021100004-A1 citing both of the latter
+    const network = async (hops: CitationNetworkOptions['hops'], categories?: CitationNetworkOptions['categories']) => {
+        const repository = new LocalPatentRepository(config.storage.fixturePath);
+        const seed = await repository.getPatentsByIds(['US-11400007-B2']);
+        const built: CitationNetwork = await service['buildCitationNetwork'](seed, { hops, categories });
+        return {
+            nodes: built.nodes.map(node => [node.id, node.hop]),
+            edges: built.edges.map(edge => [edge.source, edge.target, edge.weight]),
+            pagerank: built.nodes.reduce((sum, node) => sum + node.pagerank, 0),
+        };
+    };
+
+    it('keeps to the sampled publications without hops', async () => {
+        expect(await network(0)).toEqual({ nodes: [['US-11400007-B2', 0]], edges: [], pagerank: 1 });
+    });
+
+    it('adds the publications one and two citations away, counting each link once', async () => {
+        expect(await network(1)).toMatchObject({
+            nodes: [['US-11400007-B2', 0], ['US-11300002-B1', 1]],
+            edges: [['US-11400007-B2', 'US-11300002-B1', 1]],
+        });
+
+        const twoHops = await network(2);
+        expect(twoHops.nodes).toEqual([
+            ['US-11400007-B2', 0],
+            ['US-11300002-B1', 1],
+            ['US-20200400003-A1', 2],
+            ['WO-2021100004-A1', 2],
+        ]);
+        expect(twoHops.edges).toEqual([
+            ['US-11400007-B2', 'US-11300002-B1', 1],
+            ['US-11300002-B1', 'US-20200400003-A1', 1],
+            ['WO-2021100004-A1', 'US-11300002-B1', 1],
+            ['WO-2021100004-A1', 'US-20200400003-A1', 1],
+        ]);
+        expect(twoHops.pagerank).toBeCloseTo(1, 9);
+    });
+
+    it('only follows the requested citation categories', async () => {
+        expect((await network(2, ['search_report'])).nodes).toEqual([['US-11400007-B2', 0]]);
+        expect((await network(2, ['examiner', 'applicant'])).nodes).toEqual([
+            ['US-11400007-B2', 0],
+            ['US-11300002-B1', 1],
+            ['US-20200400003-A1', 2],
+        ]);
+    });
+});
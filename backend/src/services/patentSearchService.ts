@@ -1,6 +1,40 @@
-import { BigQueryService, PatentSearchFilters, PatentResult } from './bigqueryService';
-import { SemanticSearchService, SemanticSearchResult } from './semanticSearchService';
+import {
+    AssigneeRollup,
+    AssigneeSuggestion,
+    CitationLink,
+    CitationNetwork,
+    CitationNetworkOptions,
+    PatentDetail,
+    PatentPortfolio,
+    PatentSearchFilters,
+    PatentResult,
+    PatentStatistics,
+    SearchGrouping,
+    SearchScope,
+    StatisticsPopulation,
+} from '@/types/patent';
+import { PatentRepository, createPatentRepository } from './patentRepository';
+import { FusionOptions, annotateRanking, fuseRankings } from './rankFusion';
+import { attachFamilyMembers, familyRepresentativeIds, groupByFamily, representFamilies } from './familyGrouping';
+import { buildCitationNetwork, citationCategory } from './citationNetwork';
+import { ClusterableDocument, clusterDocuments, MAX_CLUSTERED_DOCUMENTS } from './technologyClustering';
+import { SemanticSearchService, SemanticSearchResult, scopeMetadataFilter } from './semanticSearchService';
+import { cacheService } from './cacheService';
+import { assigneeService } from './assigneeService';
 import { logger } from '@/utils/logger';
+import { QuerySyntaxError, parseQuery } from '@/utils/queryParser';
+import {
+    combineMetadataFilters,
+    compileToMetadataFilter,
+    filtersToMetadataFilter,
+    semanticQueryText,
+} from '@/utils/queryCompiler';
+import { decodeCursor, encodeCursor, pageAfter, searchFingerprint } from '@/utils/pagination';
+import { abstractSection, bestPassage, highlightTerms } from '@/utils/passageChunker';
+import { localizeResult } from '@/utils/languages';
+import { yearOf } from '@/utils/dates';
+import { clampLimit } from '@/utils/queryBuilder';
+import { tokenizeForIndexing } from '@/utils/tokenizer';
 
 // Patent-specific logger
 const patentLogger = {
@@ -13,84 +47,246 @@ import { config } from '@/config/config';
 export interface CombinedSearchRequest {
     query: string;
     searchType: 'semantic' | 'keyword' | 'hybrid';
+    /** Parts of each publication to match; defaults to title and abstract */
+    scope?: SearchScope;
     filters?: PatentSearchFilters;
+    /** Page size when `pageSize` is not given */
     limit?: number;
+    pageSize?: number;
+    /** `next_cursor` of the previous page */
+    cursor?: string;
     minSimilarity?: number;
+    fusion?: Partial<FusionOptions>;
+    /** Languages to show titles and abstracts in, most preferred first; English otherwise */
+    preferredLanguages?: string[];
+    /** One result per publication (the default) or per patent family */
+    groupBy?: SearchGrouping;
+    /** Country codes a family's representative is picked from, most preferred first */
+    preferredJurisdictions?: string[];
 }
 
 export interface SearchResponse {
     results: PatentResult[];
     total_results: number;
+    /** True when `total_results` is a lower bound rather than an exact count */
+    total_is_estimate: boolean;
+    page_size: number;
+    next_cursor: string | null;
     search_time_ms: number;
     search_metadata: {
         semantic_results?: number;
         keyword_results?: number;
         query_tokens?: number;
         filters_applied?: string[];
+        fusion_method?: string;
+        scope?: SearchScope;
+        group_by?: SearchGrouping;
+        /** True when the response was served from the search cache */
+        cached?: boolean;
+    };
+}
+
+/**
+ * One source's ranked results with its match count
+ */
+interface RankedResults {
+    results: PatentResult[];
+    total: number;
+    /** False when `total` only counts the fetched window */
+    exact: boolean;
+}
+
+const NO_RESULTS: RankedResults = { results: [], total: 0, exact: true };
+
+/**
+ * No semantic match reached the similarity threshold
+ */
+export class NoSemanticMatchesError extends Error {
+    constructor(public readonly minSimilarity: number) {
+        super(`No semantic search results found with similarity score >= ${minSimilarity}. Please try a different query or lower the similarity threshold.`);
+        this.name = 'NoSemanticMatchesError';
+    }
+}
+
+// Publications ranked per requested result when grouping by family
+const FAMILY_OVERFETCH = 3;
+
+// Matching publications sampled for landscape clusters, and semantic neighbours counted in its statistics
+const LANDSCAPE_SAMPLE_SIZE = 200;
+
+// Upper bound on the publications in a landscape citation network, including expansion
+const MAX_NETWORK_NODES = 500;
+
+// Largest number of technology clusters tried when picking k automatically
+const MAX_TECHNOLOGY_CLUSTERS = 10;
+
+const DEFAULT_LANDSCAPE_OPTIONS: LandscapeOptions = {
+    citations: { hops: 0 },
+    clustering: { seed: 42 },
+};
+
+export interface RelatedPatentsRequest {
+    /** Citing and cited publications per page; defaults to 50 */
+    limit?: number;
+    /** `next_cursor` of the previous page */
+    cursor?: string;
+    /** Aggregate citations over the patent's family */
+    family?: boolean;
+}
+
+export interface RelatedPatents {
+    citing: PatentResult[];
+    cited: PatentResult[];
+    similar: PatentResult[];
+    total_citing: number;
+    total_cited: number;
+    next_cursor: string | null;
+}
+
+export interface LandscapeOptions {
+    citations: CitationNetworkOptions;
+    clustering: {
+        /** Number of technology clusters; picked by silhouette score when omitted */
+        k?: number;
+        /** Seed for cluster initialization and the map projection */
+        seed: number;
     };
 }
 
 export interface PatentLandscapeData {
-    statistics: {
-        totalPatents: number;
-        yearlyDistribution: { year: number; count: number }[];
-        topAssignees: { assignee: string; count: number }[];
-        topClassifications: { classification: string; count: number }[];
+    statistics: Omit<PatentStatistics, 'topAssignees'> & {
+        topAssignees: AssigneeRollup[];
+        population: StatisticsPopulation;
     };
     technologyClusters: {
         cluster_id: string;
+        /** Top class-based TF-IDF terms of the cluster */
+        label: string;
+        /** Patents closest to the cluster centroid first */
         representative_patents: string[];
         keywords: string[];
         patent_count: number;
     }[];
-    citationNetwork: {
-        nodes: { id: string; title: string; year: number }[];
-        edges: { source: string; target: string; weight: number }[];
+    /** Map position and cluster of each sampled patent */
+    patentMap: {
+        patent_id: string;
+        title: string;
+        cluster_id: string;
+        x: number;
+        y: number;
+    }[];
+    clustering: {
+        method: 'kmeans';
+        k: number;
+        /** Mean silhouette score in [-1, 1]; higher means better separated clusters */
+        silhouette: number;
+        seed: number;
     };
+    citationNetwork: CitationNetwork;
 }
 
 export class PatentSearchService {
-    private bigQueryService: BigQueryService;
+    private patentRepository: PatentRepository;
     private semanticSearchService: SemanticSearchService;
 
     constructor() {
-        this.bigQueryService = new BigQueryService();
+        this.patentRepository = createPatentRepository();
         this.semanticSearchService = new SemanticSearchService();
 
         logger.info('Patent search service initialized');
     }
 
     /**
-     * Perform comprehensive patent search using multiple strategies
+     * Perform comprehensive patent search, serving repeated requests from cache.
+     * Cached responses are language-neutral; titles and abstracts are picked
+     * in the preferred languages afterwards. Assignee filters cover each
+     * company's aliases and subsidiaries.
      */
     async searchPatents(request: CombinedSearchRequest): Promise<SearchResponse> {
         const startTime = Date.now();
-        const { query, searchType, filters, limit = 50, minSimilarity = 0.7 } = request;
+        const {
+            query, searchType, scope, limit, pageSize, cursor, minSimilarity, fusion,
+            preferredLanguages, groupBy, preferredJurisdictions,
+        } = request;
+        const filters = assigneeService.expandFilters(request.filters);
+
+        let computed = false;
+        const response = await cacheService.getOrLoad(
+            'search',
+            { query, searchType, scope, filters, limit, pageSize, cursor, minSimilarity, fusion, groupBy, preferredJurisdictions },
+            async () => {
+                computed = true;
+                return this.executeSearch({ ...request, filters });
+            }
+        );
+
+        const localized = {
+            ...response,
+            results: response.results.map(result => localizeResult(result, preferredLanguages)),
+        };
+
+        if (computed) {
+            return localized;
+        }
+
+        return {
+            ...localized,
+            search_time_ms: Date.now() - startTime,
+            search_metadata: { ...response.search_metadata, cached: true },
+        };
+    }
+
+    /**
+     * Perform comprehensive patent search using multiple strategies
+     */
+    private async executeSearch(request: CombinedSearchRequest): Promise<SearchResponse> {
+        const startTime = Date.now();
+        const {
+            query, searchType, scope = 'abstract', filters, minSimilarity = 0.7, fusion, cursor,
+            groupBy = 'publication', preferredJurisdictions,
+        } = request;
+        const pageSize = request.pageSize ?? request.limit ?? 50;
 
         try {
             patentLogger.searchQuery(query);
 
-            let results: PatentResult[] = [];
-            let semanticResultCount = 0;
-            let keywordResultCount = 0;
+            const fingerprint = searchFingerprint({
+                query, searchType, scope, filters, minSimilarity, fusion, groupBy, preferredJurisdictions,
+            });
+            const position = decodeCursor(cursor, fingerprint);
+
+            // Rank one result past this page so we know whether another page follows;
+            // grouping by family needs several publications per result
+            const depth = Math.min(
+                (position.offset + pageSize + 1) * (groupBy === 'family' ? FAMILY_OVERFETCH : 1),
+                config.bigquery.maxResults
+            );
+
+            let ranked: RankedResults;
             let queryTokens = 0;
 
             switch (searchType) {
-                case 'semantic':
-                    results = await this.performSemanticSearch(query, limit, filters, minSimilarity);
-                    semanticResultCount = results.length;
+                case 'semantic': {
+                    const semanticQuery = this.toSemanticQuery(query);
+                    if (!semanticQuery.text) {
+                        throw new QuerySyntaxError('semantic search needs at least one free-text term', 0, query);
+                    }
+                    const semantic = await this.performSemanticSearch(
+                        semanticQuery.text, depth, filters, minSimilarity, semanticQuery.filter, scope
+                    );
+                    ranked = { ...semantic, results: annotateRanking('semantic', semantic.results) };
                     queryTokens = await this.getQueryTokenCount(query);
                     break;
+                }
 
-                case 'keyword':
-                    results = await this.performKeywordSearch(query, filters, limit);
-                    keywordResultCount = results.length;
+                case 'keyword': {
+                    const keyword = await this.performKeywordSearch(query, filters, depth, scope);
+                    ranked = { ...keyword, results: annotateRanking('keyword', keyword.results) };
                     break;
+                }
 
                 case 'hybrid':
-                    results = await this.performHybridSearch(query, filters, limit, minSimilarity);
-                    semanticResultCount = results.filter(r => r.similarity_score > 0).length;
-                    keywordResultCount = results.filter(r => r.similarity_score === 0).length;
+                    ranked = await this.performHybridSearch(query, filters, depth, minSimilarity, fusion, scope);
                     queryTokens = await this.getQueryTokenCount(query);
                     break;
 
@@ -98,19 +294,44 @@ export class PatentSearchService {
                     throw new Error(`Unsupported search type: ${searchType}`);
             }
 
+            const grouped = groupBy === 'family'
+                ? groupByFamily(ranked.results, preferredJurisdictions)
+                : ranked.results;
+
+            const { page: matches, start } = pageAfter(grouped, position, pageSize);
+            const end = start + matches.length;
+            const lastResult = matches[matches.length - 1];
+
+            const page = groupBy === 'family'
+                ? await this.representFamilies(matches, preferredJurisdictions)
+                : matches;
+
             const executionTime = Date.now() - startTime;
 
-            patentLogger.searchResults(results.length, executionTime);
+            patentLogger.searchResults(page.length, executionTime);
+
+            // Families are only counted exactly when every match was ranked
+            const complete = ranked.exact && ranked.results.length >= ranked.total;
 
             return {
-                results: results.slice(0, limit),
-                total_results: results.length,
+                results: page,
+                total_results: groupBy === 'family'
+                    ? (complete ? grouped.length : Math.max(grouped.length, end))
+                    : Math.max(ranked.total, end),
+                total_is_estimate: groupBy === 'family' ? !complete : !ranked.exact,
+                page_size: pageSize,
+                next_cursor: lastResult && end < grouped.length
+                    ? encodeCursor(fingerprint, end, lastResult.patent_id)
+                    : null,
                 search_time_ms: executionTime,
                 search_metadata: {
-                    semantic_results: semanticResultCount,
-                    keyword_results: keywordResultCount,
+                    semantic_results: ranked.results.filter(r => r.ranking?.sources.semantic).length,
+                    keyword_results: ranked.results.filter(r => r.ranking?.sources.keyword).length,
                     query_tokens: queryTokens,
+                    scope,
+                    group_by: groupBy,
                     filters_applied: filters ? Object.keys(filters).filter(key => filters[key as keyof PatentSearchFilters]) : [],
+                    ...(searchType === 'hybrid' && { fusion_method: fusion?.method ?? 'rrf' }),
                 },
             };
 
@@ -120,6 +341,27 @@ export class PatentSearchService {
         }
     }
 
+    /**
+     * Show a page of family results as their preferred-jurisdiction members,
+     * chosen from every publication of each family and fetched when they did
+     * not match the query, and list the other members of each family
+     */
+    private async representFamilies(results: PatentResult[], preferredJurisdictions?: string[]): Promise<PatentResult[]> {
+        const families = await this.patentRepository.getFamilyMembers(results.map(r => r.family_id));
+        const representativeIds = familyRepresentativeIds(results, families, preferredJurisdictions);
+
+        const matchedIds = new Set(results.map(r => r.patent_id));
+        const unmatchedIds = representativeIds.filter(id => !matchedIds.has(id));
+        const publications = unmatchedIds.length > 0
+            ? await this.patentRepository.getPatentsByIds(unmatchedIds)
+            : [];
+
+        return attachFamilyMembers(
+            representFamilies(results, representativeIds, new Map(publications.map(p => [p.patent_id, p]))),
+            families
+        );
+    }
+
     /**
      * Perform semantic-only search
      */
@@ -127,25 +369,44 @@ export class PatentSearchService {
         query: string,
         limit: number,
         filters?: PatentSearchFilters,
-        minSimilarity: number = 0.7
-    ): Promise<PatentResult[]> {
+        minSimilarity: number = 0.7,
+        metadataFilter?: Record<string, any>,
+        scope: SearchScope = 'abstract'
+    ): Promise<RankedResults> {
+        // Passage vectors put several hits per patent into the window
+        const topK = limit * (scope === 'abstract' ? 2 : 4);
         const semanticResults = await this.semanticSearchService.semanticPatentSearch(
             query,
-            limit * 2
+            topK,
+            combineMetadataFilters(filtersToMetadataFilter(filters), metadataFilter, scopeMetadataFilter(scope))
         );
 
-        const filteredResults = semanticResults.filter(
-            result => result.similarity_score >= minSimilarity
-        );
+        const scoredResults = this.scoreByPatent(semanticResults);
+        const filteredResults = scoredResults.filter(result => result.similarity_score >= minSimilarity);
 
         if (filteredResults.length === 0) {
-            throw new Error(`No semantic search results found with similarity score >= ${minSimilarity}. Please try a different query or lower the similarity threshold.`);
+            throw new NoSemanticMatchesError(minSimilarity);
         }
 
         const patentIds = filteredResults.map(result => result.patent_id);
-        const patents = await this.bigQueryService.getPatentsByIds(patentIds);
+        const patents = await this.patentRepository.getPatentsByIds(patentIds);
+        const merged = this.mergeSimilarityScores(patents, filteredResults, tokenizeForIndexing(query));
+
+        return {
+            results: merged.slice(0, limit),
+            total: merged.length,
+            // A full window that never dropped below the threshold may continue past topK
+            exact: semanticResults.length < topK || filteredResults.length < scoredResults.length,
+        };
+    }
 
-        return this.mergeSimilarityScores(patents, filteredResults).slice(0, limit);
+    /**
+     * Split a query into the free text to embed and a metadata filter for its
+     * fielded clauses
+     */
+    private toSemanticQuery(query: string): { text: string; filter?: Record<string, any> } {
+        const ast = parseQuery(query);
+        return { text: semanticQueryText(ast), filter: compileToMetadataFilter(ast) };
     }
 
     /**
@@ -154,9 +415,11 @@ export class PatentSearchService {
     private async performKeywordSearch(
         query: string,
         filters?: PatentSearchFilters,
-        limit: number = 50
-    ): Promise<PatentResult[]> {
-        return await this.bigQueryService.searchPatentsByKeywords(query, filters, limit);
+        limit: number = 50,
+        scope: SearchScope = 'abstract'
+    ): Promise<RankedResults> {
+        const { results, totalMatches } = await this.patentRepository.searchPatentsByKeywords(query, filters, limit, scope);
+        return { results: results.map(result => this.withKeywordPassage(result)), total: totalMatches, exact: true };
     }
 
     /**
@@ -166,42 +429,76 @@ export class PatentSearchService {
         query: string,
         filters?: PatentSearchFilters,
         limit: number = 50,
-        minSimilarity: number = 0.7
-    ): Promise<PatentResult[]> {
-        const [semanticResults, keywordResults] = await Promise.all([
-            this.performSemanticSearch(query, Math.floor(limit * 0.7), filters, minSimilarity),
-            this.performKeywordSearch(query, filters, Math.floor(limit * 0.5)),
+        minSimilarity: number = 0.7,
+        fusion?: Partial<FusionOptions>,
+        scope: SearchScope = 'abstract'
+    ): Promise<RankedResults> {
+        const semanticQuery = this.toSemanticQuery(query);
+
+        // Both sources are ranked to the same depth so fused positions stay put
+        // from one page to the next. Purely fielded queries have nothing to
+        // embed, and queries without a semantic match above the threshold,
+        // rely on keyword matching.
+        const [semantic, keyword] = await Promise.all([
+            semanticQuery.text
+                ? this.performSemanticSearch(semanticQuery.text, limit, filters, minSimilarity, semanticQuery.filter, scope)
+                    .catch(error => {
+                        if (error instanceof NoSemanticMatchesError) {
+                            return NO_RESULTS;
+                        }
+                        throw error;
+                    })
+                : Promise.resolve(NO_RESULTS),
+            this.performKeywordSearch(query, filters, limit, scope),
         ]);
 
-        return this.combineAndRankResults(semanticResults, keywordResults).slice(0, limit);
+        const keywordIds = new Set(keyword.results.map(result => result.patent_id));
+        const semanticOnly = semantic.results.filter(result => !keywordIds.has(result.patent_id)).length;
+        const fused = this.combineAndRankResults(semantic.results, keyword.results, fusion);
+
+        return {
+            results: fused.slice(0, limit),
+            total: Math.max(fused.length, keyword.total + semanticOnly),
+            exact: semantic.exact && keyword.results.length === keyword.total,
+        };
     }
 
     /**
      * Get related patents using citation network
      */
-    async getRelatedPatents(patentId: string): Promise<{
-        citing: PatentResult[];
-        cited: PatentResult[];
-        similar: PatentResult[];
-    }> {
+    async getRelatedPatents(patentId: string, request: RelatedPatentsRequest = {}): Promise<RelatedPatents> {
         try {
             const startTime = Date.now();
+            const limit = request.limit ?? 50;
+            const family = request.family ?? false;
 
-            // Get citation network from BigQuery
-            const citations = await this.bigQueryService.getPatentCitations(patentId);
+            // Pages of both citation lists advance together
+            const fingerprint = searchFingerprint({ related: patentId, family });
+            const { offset } = decodeCursor(request.cursor, fingerprint);
+
+            // Get citation network from the patent repository
+            const citations = await this.patentRepository.getPatentCitations(patentId, { limit, offset, family });
 
             // Get the original patent for semantic similarity
-            const originalPatents = await this.bigQueryService.getPatentsByIds([patentId]);
+            const originalPatents = offset === 0 ? await this.patentRepository.getPatentsByIds([patentId]) : [];
 
             let similar: PatentResult[] = [];
 
+            // Similar patents are not paged; they come with the first page only
             if (originalPatents.length > 0) {
                 const originalPatent = originalPatents[0];
                 if (originalPatent && originalPatent.title && originalPatent.abstract) {
                     const searchText = `${originalPatent.title} ${originalPatent.abstract}`;
 
-                    // Find semantically similar patents
-                    similar = await this.performSemanticSearch(searchText, 20, undefined, 0.8);
+                    // Find semantically similar patents; a patent without close neighbours has none
+                    similar = await this.performSemanticSearch(searchText, 20, undefined, 0.8)
+                        .then(semantic => semantic.results)
+                        .catch(error => {
+                            if (error instanceof NoSemanticMatchesError) {
+                                return [];
+                            }
+                            throw error;
+                        });
 
                     // Remove the original patent from similar results
                     similar = similar.filter(p => p.patent_id !== patentId);
@@ -213,14 +510,22 @@ export class PatentSearchService {
                 patentId,
                 citingCount: citations.citing.length,
                 citedCount: citations.cited.length,
+                family,
                 similarCount: similar.length,
                 executionTimeMs: executionTime,
             });
 
+            const end = offset + limit;
+
             return {
                 citing: citations.citing,
                 cited: citations.cited,
                 similar: similar.slice(0, 10),
+                total_citing: citations.total_citing,
+                total_cited: citations.total_cited,
+                next_cursor: end < Math.max(citations.total_citing, citations.total_cited)
+                    ? encodeCursor(fingerprint, end, '')
+                    : null,
             };
 
         } catch (error) {
@@ -230,42 +535,102 @@ export class PatentSearchService {
     }
 
     /**
-     * Generate patent landscape analysis
+     * Get the full bibliographic record of one patent
+     */
+    async getPatentDetail(patentId: string, preferredLanguages?: string[]): Promise<PatentDetail | undefined> {
+        const startTime = Date.now();
+
+        const found = await this.patentRepository.getPatentDetail(patentId);
+        const detail = found && localizeResult(found, preferredLanguages);
+
+        logger.info('Patent detail lookup completed', {
+            patentId,
+            found: !!detail,
+            familyMembers: detail?.family_members.length || 0,
+            executionTimeMs: Date.now() - startTime,
+        });
+
+        return detail;
+    }
+
+    /**
+     * Get the newest patents classified under any of the given CPC prefixes.
+     * Assignee filters cover each company's aliases and subsidiaries.
+     */
+    async getPatentsByClassification(
+        prefixes: string[],
+        filters?: PatentSearchFilters,
+        limit: number = 50
+    ): Promise<PatentResult[]> {
+        const startTime = Date.now();
+
+        const results = await this.patentRepository.searchPatentsByClassification(
+            prefixes,
+            assigneeService.expandFilters(filters),
+            limit
+        );
+
+        logger.info('Classification search completed', {
+            prefixes,
+            resultCount: results.length,
+            executionTimeMs: Date.now() - startTime,
+        });
+
+        return results;
+    }
+
+    /**
+     * Generate patent landscape analysis. Assignee filters cover each
+     * company's aliases and subsidiaries, and top assignees are counted per
+     * normalized company.
      */
     async generatePatentLandscape(
         query: string,
-        filters?: PatentSearchFilters
+        requestedFilters?: PatentSearchFilters,
+        options: Partial<LandscapeOptions> = {}
     ): Promise<PatentLandscapeData> {
+        const { citations, clustering } = { ...DEFAULT_LANDSCAPE_OPTIONS, ...options };
+        const filters = assigneeService.expandFilters(requestedFilters);
+
         try {
             const startTime = Date.now();
 
             logger.info('Generating patent landscape', { query });
 
-            // Get statistical overview
-            const statistics = await this.bigQueryService.getPatentStatistics(filters);
+            // Statistics describe the keyword matches plus the semantic top N
+            const semanticIds = await this.semanticTopIds(query, filters, LANDSCAPE_SAMPLE_SIZE);
+            const statistics = await this.patentRepository.getPatentStatistics({ query, patentIds: semanticIds, filters });
 
             // Get sample patents for clustering analysis
-            const samplePatents = await this.performHybridSearch(query, filters, 200);
+            const samplePatents = (await this.performHybridSearch(query, filters, LANDSCAPE_SAMPLE_SIZE)).results;
 
-            // Generate technology clusters (simplified implementation)
-            const technologyClusters = this.generateTechnologyClusters(samplePatents);
+            // Cluster the sample by embedding similarity
+            const clusters = await this.generateTechnologyClusters(samplePatents, clustering);
 
             // Build citation network
             const citationNetwork = await this.buildCitationNetwork(
-                samplePatents.slice(0, 50) // Limit for performance
+                samplePatents.slice(0, 50), // Limit for performance
+                citations
             );
 
             const executionTime = Date.now() - startTime;
             logger.info('Patent landscape generation completed', {
                 query,
                 totalPatents: statistics.totalPatents,
-                clustersGenerated: technologyClusters.length,
+                clustersGenerated: clusters.technologyClusters.length,
+                silhouette: clusters.clustering.silhouette,
+                citationNodes: citationNetwork.nodes.length,
+                citationEdges: citationNetwork.edges.length,
                 executionTimeMs: executionTime,
             });
 
             return {
-                statistics,
-                technologyClusters,
+                statistics: {
+                    ...statistics,
+                    topAssignees: assigneeService.aggregate(statistics.topAssignees),
+                    population: this.describeStatisticsPopulation(query, semanticIds.length, requestedFilters),
+                },
+                ...clusters,
                 citationNetwork,
             };
 
@@ -275,6 +640,51 @@ export class PatentSearchService {
         }
     }
 
+    /**
+     * Profile the patent portfolio of one or more assignees, each covering its
+     * aliases and subsidiaries, within the remaining filters
+     */
+    async analyzePortfolio(assignees: string[], filters: Omit<PatentSearchFilters, 'assignees'> = {}): Promise<PatentPortfolio> {
+        const startTime = Date.now();
+
+        const expanded = assigneeService.expandFilters({ ...filters, assignees }) as PatentSearchFilters;
+        const statistics = await this.patentRepository.getPortfolioStatistics(expanded);
+
+        logger.info('Portfolio analysis completed', {
+            assignees,
+            matchedNames: expanded.assignees?.length,
+            totalPatents: statistics.totalPatents,
+            executionTimeMs: Date.now() - startTime,
+        });
+
+        return {
+            ...statistics,
+            assignees: assignees.map(name => assigneeService.resolve(name)),
+            matched_names: expanded.assignees || [],
+            filters: { ...filters, assignees },
+        };
+    }
+
+    /**
+     * Suggest normalized assignees for a partial name, most published first
+     */
+    async searchAssignees(query: string, limit: number = 10): Promise<AssigneeSuggestion[]> {
+        const startTime = Date.now();
+
+        // Harmonized names run several to a company, so fetch more than are suggested
+        const names = await this.patentRepository.searchAssigneeNames(assigneeService.searchTerms(query), limit * 10);
+        const suggestions = assigneeService.suggest(query, names, limit);
+
+        logger.info('Assignee search completed', {
+            query,
+            names: names.length,
+            suggestions: suggestions.length,
+            executionTimeMs: Date.now() - startTime,
+        });
+
+        return suggestions;
+    }
+
     /**
      * Check system health and readiness
      */
@@ -293,7 +703,9 @@ export class PatentSearchService {
             return {
                 bigquery: {
                     status: 'operational',
-                    dataset: config.bigquery.dataset,
+                    dataset: config.storage.backend === 'local'
+                        ? config.storage.fixturePath
+                        : config.bigquery.dataset,
                 },
                 pinecone: {
                     status: indexStatus.exists && indexStatus.ready ? 'operational' : 'not_ready',
@@ -320,19 +732,23 @@ export class PatentSearchService {
         batchSize: number = 1000
     ): Promise<{ indexed: number; errors: number }> {
         try {
-            logger.info('Starting patent indexing for semantic search', { batchSize });
+            // The repository never returns more rows than this per call
+            const pageSize = clampLimit(batchSize, config.bigquery.maxResults);
+            logger.info('Starting patent indexing for semantic search', { batchSize: pageSize });
 
-            // Get patents from BigQuery in batches
+            // Get patents from the repository in batches
             let totalIndexed = 0;
             let totalErrors = 0;
             let offset = 0;
 
             while (true) {
-                // Fetch batch of patents using keyword search (empty query gets all)
-                const patents = await this.bigQueryService.searchPatentsByKeywords(
-                    '', // Empty query
+                // Fetch the next batch of patents, newest first (an empty query matches all)
+                const { results: patents } = await this.patentRepository.searchPatentsByKeywords(
+                    '',
                     filters,
-                    batchSize
+                    pageSize,
+                    'abstract',
+                    offset
                 );
 
                 if (patents.length === 0) {
@@ -340,7 +756,8 @@ export class PatentSearchService {
                 }
 
                 try {
-                    await this.semanticSearchService.indexPatentEmbeddings(patents);
+                    const fullText = await this.patentRepository.getPatentFullText(patents.map(p => p.patent_id));
+                    await this.semanticSearchService.indexPatentEmbeddings(patents, fullText);
                     totalIndexed += patents.length;
 
                     logger.info('Indexed patent batch', {
@@ -356,7 +773,12 @@ export class PatentSearchService {
                     });
                 }
 
-                offset += batchSize;
+                offset += patents.length;
+
+                // A short batch is the last one
+                if (patents.length < pageSize) {
+                    break;
+                }
 
                 // Safety limit
                 if (offset > 100000) {
@@ -380,126 +802,273 @@ export class PatentSearchService {
 
     // Helper methods
 
-    private mergeSimilarityScores(
-        patents: PatentResult[],
-        semanticResults: SemanticSearchResult[]
-    ): PatentResult[] {
-        const scoreMap = new Map(
-            semanticResults.map(result => [result.patent_id, result.similarity_score])
+    /**
+     * IDs of the publications most similar to the query's free text, best
+     * first. Empty when the query is purely fielded.
+     */
+    private async semanticTopIds(
+        query: string,
+        filters: PatentSearchFilters | undefined,
+        limit: number,
+        minSimilarity: number = 0.7
+    ): Promise<string[]> {
+        const semanticQuery = this.toSemanticQuery(query);
+        if (!semanticQuery.text) {
+            return [];
+        }
+
+        const semanticResults = await this.semanticSearchService.semanticPatentSearch(
+            semanticQuery.text,
+            limit * 2,
+            combineMetadataFilters(filtersToMetadataFilter(filters), semanticQuery.filter, scopeMetadataFilter('abstract'))
         );
 
-        return patents
-            .map(patent => ({
-                ...patent,
-                similarity_score: scoreMap.get(patent.patent_id) || 0,
-            }))
-            .sort((a, b) => b.similarity_score - a.similarity_score);
+        return this.scoreByPatent(semanticResults)
+            .filter(result => result.similarity_score >= minSimilarity)
+            .slice(0, limit)
+            .map(result => result.patent_id);
     }
 
-    private combineAndRankResults(
-        semanticResults: PatentResult[],
-        keywordResults: PatentResult[]
-    ): PatentResult[] {
-        const resultMap = new Map<string, PatentResult>();
-
-        semanticResults.forEach(result => {
-            resultMap.set(result.patent_id, {
-                ...result,
-                similarity_score: result.similarity_score * 1.2,
-            });
-        });
+    private describeStatisticsPopulation(
+        query: string,
+        semanticTopN: number,
+        filters: PatentSearchFilters = {}
+    ): StatisticsPopulation {
+        const start = filters.dateRange?.start || null;
+        const end = filters.dateRange?.end || null;
+        const narrowed = !!(filters.countries?.length || filters.assignees?.length || filters.classifications?.length);
+
+        const dates = start && end ? `published ${start} to ${end}`
+            : start ? `published from ${start}`
+                : end ? `published up to ${end}`
+                    : 'of any publication year';
+
+        return {
+            basis: semanticTopN > 0 ? 'keyword_or_semantic' : 'keyword',
+            description: `Publications matching "${query}"` +
+                (semanticTopN > 0 ? ` or among the top ${semanticTopN} semantic match${semanticTopN === 1 ? '' : 'es'}` : '') +
+                `, ${dates}` +
+                (narrowed ? ', narrowed by the country, assignee or classification filters' : ''),
+            query,
+            semantic_top_n: semanticTopN,
+            filters,
+            date_range: { start, end },
+        };
+    }
 
-        keywordResults.forEach(result => {
-            if (!resultMap.has(result.patent_id)) {
-                resultMap.set(result.patent_id, result);
+    /**
+     * Roll passage hits up to one hit per patent, scored by the best passage
+     * or the sum of the best `aggregationTopK` passages, keeping the best
+     * passage and the best claim passage
+     */
+    private collapseByPatent(semanticResults: SemanticSearchResult[]): SemanticSearchResult[] {
+        const byPatent = new Map<string, { best: SemanticSearchResult; scores: number[] }>();
+
+        for (const result of semanticResults) {
+            const entry = byPatent.get(result.patent_id);
+            if (!entry) {
+                byPatent.set(result.patent_id, { best: { ...result }, scores: [result.similarity_score] });
+                continue;
             }
-        });
-
-        return Array.from(resultMap.values()).sort((a, b) => {
-            if (b.similarity_score !== a.similarity_score) {
-                return b.similarity_score - a.similarity_score;
+            entry.scores.push(result.similarity_score);
+            if (result.similarity_score > entry.best.similarity_score) {
+                entry.best = { ...result, claim: entry.best.claim };
             }
-            return new Date(b.publication_date).getTime() - new Date(a.publication_date).getTime();
-        });
-    }
-
-    private generateTechnologyClusters(patents: PatentResult[]): PatentLandscapeData['technologyClusters'] {
-        // Simplified clustering based on CPC classifications
-        const clusters = new Map<string, PatentResult[]>();
-
-        patents.forEach(patent => {
-            const mainClass = patent.classifications[0]?.substring(0, 4) || 'UNKNOWN';
-            if (!clusters.has(mainClass)) {
-                clusters.set(mainClass, []);
+            if (result.claim && (!entry.best.claim || result.claim.score > entry.best.claim.score)) {
+                entry.best.claim = result.claim;
             }
-            clusters.get(mainClass)!.push(patent);
-        });
+        }
 
-        return Array.from(clusters.entries())
-            .filter(([_, patents]) => patents.length >= 3) // Minimum cluster size
-            .map(([classCode, clusterPatents]) => ({
-                cluster_id: classCode,
-                representative_patents: clusterPatents.slice(0, 5).map(p => p.patent_id),
-                keywords: this.extractKeywords(clusterPatents),
-                patent_count: clusterPatents.length,
+        const { aggregation, aggregationTopK } = config.passages;
+        return Array.from(byPatent.values())
+            .map(({ best, scores }) => ({
+                ...best,
+                similarity_score: aggregation === 'sum_top_k'
+                    ? scores.sort((a, b) => b - a).slice(0, aggregationTopK).reduce((sum, score) => sum + score, 0)
+                    : Math.max(...scores),
             }))
-            .slice(0, 10); // Limit number of clusters
+            .sort((a, b) => b.similarity_score - a.similarity_score);
     }
 
-    private extractKeywords(patents: PatentResult[]): string[] {
-        // Simple keyword extraction from titles
-        const wordCount = new Map<string, number>();
+    /**
+     * Collapse passage hits by patent into similarities within [0, 1].
+     * Passage scores already are (see toSimilarity); sums of the top k
+     * passages are divided by k, so thresholds mean the same on every query.
+     */
+    private scoreByPatent(semanticResults: SemanticSearchResult[]): SemanticSearchResult[] {
+        const { aggregation, aggregationTopK } = config.passages;
+        const bound = aggregation === 'sum_top_k' ? aggregationTopK : 1;
 
-        patents.forEach(patent => {
-            const words = patent.title
-                .toLowerCase()
-                .split(/\W+/)
-                .filter(word => word.length > 3);
+        return this.collapseByPatent(semanticResults).map(result => ({
+            ...result,
+            similarity_score: result.similarity_score / bound,
+        }));
+    }
 
-            words.forEach(word => {
-                wordCount.set(word, (wordCount.get(word) || 0) + 1);
-            });
-        });
+    private mergeSimilarityScores(
+        patents: PatentResult[],
+        semanticResults: SemanticSearchResult[],
+        terms: string[] = []
+    ): PatentResult[] {
+        const resultMap = new Map(
+            semanticResults.map(result => [result.patent_id, result])
+        );
 
-        return Array.from(wordCount.entries())
-            .sort(([, a], [, b]) => b - a)
-            .slice(0, 5)
-            .map(([word]) => word);
+        return patents
+            .map(patent => {
+                const result = resultMap.get(patent.patent_id);
+                return {
+                    ...patent,
+                    similarity_score: result?.similarity_score || 0,
+                    ...(result?.claim && { matched_claim: result.claim }),
+                    ...(result?.passage && {
+                        matched_passage: { ...result.passage, highlights: highlightTerms(result.passage.text, terms) },
+                    }),
+                };
+            })
+            .sort((a, b) => b.similarity_score - a.similarity_score);
     }
 
-    private async buildCitationNetwork(patents: PatentResult[]): Promise<PatentLandscapeData['citationNetwork']> {
-        // Simplified citation network building
-        const nodes = patents.map(patent => ({
-            id: patent.patent_id,
-            title: patent.title.substring(0, 50),
-            year: new Date(patent.publication_date).getFullYear(),
-        }));
+    /**
+     * Locate a keyword hit's matched terms in its matched claim, or else in
+     * its title and abstract
+     */
+    private withKeywordPassage(result: PatentResult): PatentResult {
+        const terms = result.keyword_matches || [];
+        const passage = result.matched_claim
+            ? bestPassage(result.matched_claim.text, terms, 'claim', config.passages)
+            : bestPassage(abstractSection(result), terms, 'abstract', config.passages);
+
+        if (!passage) {
+            return result;
+        }
+        return {
+            ...result,
+            matched_passage: result.matched_claim ? { ...passage, claim_number: result.matched_claim.number } : passage,
+        };
+    }
+
+    private combineAndRankResults(
+        semanticResults: PatentResult[],
+        keywordResults: PatentResult[],
+        fusion?: Partial<FusionOptions>
+    ): PatentResult[] {
+        return fuseRankings(
+            { semantic: semanticResults, keyword: keywordResults },
+            fusion
+        );
+    }
+
+    /**
+     * Cluster the sampled patents by the embeddings of their titles and
+     * abstracts, label each cluster and place every patent on a 2-D map
+     */
+    private async generateTechnologyClusters(
+        patents: PatentResult[],
+        options: LandscapeOptions['clustering']
+    ): Promise<Pick<PatentLandscapeData, 'technologyClusters' | 'patentMap' | 'clustering'>> {
+        const documents: ClusterableDocument[] = [];
+        for (const patent of patents.slice(0, MAX_CLUSTERED_DOCUMENTS)) {
+            const text = abstractSection(patent);
+            try {
+                const { embedding } = await this.semanticSearchService.generateEmbedding(text);
+                documents.push({ id: patent.patent_id, text, embedding });
+            } catch (error) {
+                logger.warn('Skipping patent without embedding in clustering', {
+                    patentId: patent.patent_id,
+                    error: (error as Error).message,
+                });
+            }
+        }
 
-        // For demo purposes, create some synthetic edges
-        // In a real implementation, this would use citation data from BigQuery
-        const edges: { source: string; target: string; weight: number }[] = [];
+        const result = clusterDocuments(documents, { ...options, maxK: MAX_TECHNOLOGY_CLUSTERS });
+        const titles = new Map(patents.map(patent => [patent.patent_id, patent.title]));
+        const clusterOf = new Map<number, string>();
+        result.clusters.forEach((cluster, c) => cluster.members.forEach(i => clusterOf.set(i, `cluster-${c}`)));
+
+        return {
+            technologyClusters: result.clusters.map((cluster, c) => ({
+                cluster_id: `cluster-${c}`,
+                label: cluster.terms.slice(0, 3).map(term => term.term).join(', '),
+                representative_patents: cluster.members.slice(0, 5).map(i => documents[i]?.id ?? ''),
+                keywords: cluster.terms.map(term => term.term),
+                patent_count: cluster.members.length,
+            })),
+            patentMap: documents.map((document, i) => ({
+                patent_id: document.id,
+                title: titles.get(document.id)?.substring(0, 100) || '',
+                cluster_id: clusterOf.get(i) || '',
+                x: result.coordinates[i]?.x ?? 0,
+                y: result.coordinates[i]?.y ?? 0,
+            })),
+            clustering: {
+                method: 'kmeans',
+                k: result.k,
+                silhouette: Number(result.silhouette.toFixed(4)),
+                seed: options.seed,
+            },
+        };
+    }
 
-        for (let i = 0; i < Math.min(patents.length, 20); i++) {
-            for (let j = i + 1; j < Math.min(patents.length, 20); j++) {
-                const patentI = patents[i];
-                const patentJ = patents[j];
+    /**
+     * Build the citation network of the sampled publications from their
+     * recorded citations, optionally expanded by the publications citing or
+     * cited by them
+     */
+    private async buildCitationNetwork(
+        patents: PatentResult[],
+        options: CitationNetworkOptions
+    ): Promise<CitationNetwork> {
+        const hops = new Map(patents.map(patent => [patent.patent_id, 0]));
+        const links: CitationLink[] = [];
+        let frontier = patents.map(patent => patent.patent_id);
+
+        // Links of the last ring are still fetched so citations between its members count.
+        // Links touching an earlier ring were fetched with it and are not counted again.
+        const fetchedIds = new Set<string>();
+        for (let hop = 0; hop <= options.hops && frontier.length > 0; hop++) {
+            const fetched = (await this.patentRepository.getCitationLinks(frontier))
+                .filter(link => !options.categories || options.categories.includes(citationCategory(link.category)));
+            links.push(...fetched.filter(link => !fetchedIds.has(link.citing) && !fetchedIds.has(link.cited)));
+            frontier.forEach(id => fetchedIds.add(id));
+
+            if (hop === options.hops) {
+                break;
+            }
 
-                if (patentI && patentJ && Math.random() > 0.8) { // 20% chance of citation
-                    edges.push({
-                        source: patentI.patent_id,
-                        target: patentJ.patent_id,
-                        weight: Math.random(),
-                    });
+            const next: string[] = [];
+            for (const id of fetched.flatMap(link => [link.citing, link.cited])) {
+                if (!hops.has(id) && hops.size < MAX_NETWORK_NODES) {
+                    hops.set(id, hop + 1);
+                    next.push(id);
                 }
             }
+            frontier = next;
         }
 
-        return { nodes, edges };
+        const expandedIds = Array.from(hops.keys()).filter(id => hops.get(id) !== 0);
+        const expanded = expandedIds.length > 0 ? await this.patentRepository.getPatentsByIds(expandedIds) : [];
+        const publications = new Map([...patents, ...expanded].map(patent => [patent.patent_id, patent]));
+
+        return buildCitationNetwork(
+            Array.from(hops.entries()).map(([id, hop]) => {
+                const publication = publications.get(id);
+                const year = publication && yearOf(publication.publication_date);
+                return {
+                    id,
+                    title: publication?.title.substring(0, 50) || '',
+                    ...(year && { year }),
+                    hop,
+                };
+            }),
+            links,
+            options.categories
+        );
     }
 
     private async getQueryTokenCount(query: string): Promise<number> {
         try {
-            const embedding = await this.semanticSearchService.generateEmbedding(query);
+            const embedding = await this.semanticSearchService.generateEmbedding(this.toSemanticQuery(query).text || query);
             return embedding.tokens;
         } catch {
             return 0;
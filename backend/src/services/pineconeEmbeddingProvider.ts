@@ -0,0 +1,90 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import { Embedding, EmbeddingBatch, EmbeddingInputType, EmbeddingProvider } from './embeddingProvider';
+import { SparseVector } from './vectorStore';
+
+/**
+ * Embeddings from the Pinecone Inference API
+ */
+export class PineconeEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'pinecone' as const;
+    readonly model: string;
+
+    private pinecone: Pinecone;
+
+    constructor() {
+        this.pinecone = new Pinecone({
+            apiKey: config.pinecone.apiKey,
+        });
+
+        this.model = config.pinecone.model;
+    }
+
+    async embed(texts: string[], inputType: EmbeddingInputType): Promise<EmbeddingBatch> {
+        const response = await this.pinecone.inference.embed(
+            this.model,
+            texts,
+            { inputType }
+        ) as any; // Using any to handle response type issues
+
+        const embeddings = texts.map((_, i) => {
+            const embeddingData = response.data?.[i];
+            if (!embeddingData) {
+                throw new Error('No embedding data returned from Pinecone Inference API');
+            }
+            return this.toEmbedding(embeddingData);
+        });
+
+        return {
+            embeddings,
+            tokens: response.usage?.totalTokens ?? 0,
+        };
+    }
+
+    private toEmbedding(embeddingData: any): Embedding {
+        // Handle sparse vector response format
+        if (embeddingData.sparseValues && embeddingData.sparseIndices) {
+            return {
+                sparse: {
+                    indices: embeddingData.sparseIndices,
+                    values: embeddingData.sparseValues,
+                },
+            };
+        }
+
+        if (embeddingData.values) {
+            if (config.pinecone.type !== 'sparse') {
+                return { dense: embeddingData.values };
+            }
+
+            // Dense model feeding a sparse index - convert to sparse
+            const sparse = this.convertToSparseVector(embeddingData.values);
+            logger.debug('Converted dense to sparse vector format', {
+                originalLength: embeddingData.values.length,
+                nonZeroValues: sparse.values.length
+            });
+            return { sparse };
+        }
+
+        throw new Error('No valid embedding values returned from Pinecone Inference API');
+    }
+
+    /**
+     * Convert dense vector to sparse vector format
+     */
+    private convertToSparseVector(denseVector: number[]): SparseVector {
+        const indices: number[] = [];
+        const values: number[] = [];
+
+        for (let i = 0; i < denseVector.length; i++) {
+            const value = denseVector[i];
+            if (value !== undefined && value !== 0) {
+                indices.push(i);
+                values.push(value);
+            }
+        }
+
+        return { indices, values };
+    }
+}
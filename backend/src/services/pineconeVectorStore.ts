@@ -0,0 +1,121 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import { config } from '@/config/config';
+import { logger } from '@/utils/logger';
+import {
+    VectorIndexSpec,
+    VectorIndexStatus,
+    VectorMatch,
+    VectorMetadata,
+    VectorQuery,
+    VectorRecord,
+    VectorStore,
+} from './vectorStore';
+
+/**
+ * Vector store backed by a hosted Pinecone index
+ */
+export class PineconeVectorStore implements VectorStore {
+    readonly provider = 'pinecone';
+
+    private pinecone: Pinecone;
+    private indexName: string;
+
+    constructor(indexName: string) {
+        this.pinecone = new Pinecone({
+            apiKey: config.pinecone.apiKey,
+        });
+
+        this.indexName = indexName;
+    }
+
+    /**
+     * Query the index with a sparse and/or dense vector
+     */
+    async query(request: VectorQuery): Promise<VectorMatch[]> {
+        const index = this.pinecone.Index(this.indexName);
+
+        const queryRequest = {
+            topK: request.topK,
+            includeMetadata: true,
+            ...(request.vector && { vector: request.vector }),
+            ...(request.sparseVector && { sparseVector: request.sparseVector }),
+            ...(request.filter && { filter: request.filter }),
+        } as any; // Type assertion to bypass Pinecone SDK type restrictions for sparse-only queries
+
+        const queryResponse = await index.query(queryRequest);
+
+        return queryResponse.matches?.map(match => ({
+            id: match.id,
+            score: match.score || 0,
+            metadata: match.metadata as VectorMetadata,
+        })) || [];
+    }
+
+    /**
+     * Upsert one batch of records
+     */
+    async upsert(records: VectorRecord[]): Promise<void> {
+        const index = this.pinecone.Index(this.indexName);
+
+        await index.upsert(records.map(record => ({
+            id: record.id,
+            values: record.values || [], // Empty dense vector for sparse-only indexing
+            ...(record.sparseValues && { sparseValues: record.sparseValues }),
+            ...(record.metadata && { metadata: record.metadata }),
+        })));
+    }
+
+    /**
+     * Check if the Pinecone index exists and is ready
+     */
+    async describeIndex(): Promise<VectorIndexStatus> {
+        const indexList = await this.pinecone.listIndexes();
+        const indexExists = indexList.indexes?.some(idx => idx.name === this.indexName) || false;
+
+        if (!indexExists) {
+            return { exists: false, ready: false };
+        }
+
+        const indexStats = await this.pinecone.Index(this.indexName).describeIndexStats();
+
+        return {
+            exists: true,
+            ready: indexStats.totalRecordCount !== undefined,
+            vectorCount: indexStats.totalRecordCount,
+            indexType: config.pinecone.type,
+        };
+    }
+
+    /**
+     * Create the Pinecone index if it doesn't exist
+     */
+    async createIndex(spec: VectorIndexSpec): Promise<void> {
+        try {
+            await this.pinecone.createIndex({
+                name: this.indexName,
+                ...(spec.dimension
+                    ? { dimension: spec.dimension, metric: config.pinecone.metric as 'cosine' | 'euclidean' | 'dotproduct' }
+                    : { dimension: 50000, metric: 'dotproduct' as const }), // Max dimension for sparse vectors
+                spec: {
+                    serverless: {
+                        cloud: 'aws' as const,
+                        region: config.pinecone.region,
+                    },
+                },
+            });
+        } catch (error) {
+            if ((error as Error).message.includes('already exists')) {
+                logger.info('Pinecone index already exists');
+                return;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Delete the Pinecone index
+     */
+    async deleteIndex(): Promise<void> {
+        await this.pinecone.deleteIndex(this.indexName);
+    }
+}
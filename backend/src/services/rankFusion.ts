@@ -0,0 +1,139 @@
+import { PatentResult, RankingSource, SourceRanking } from '@/types/patent';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface FusionOptions {
+    method: FusionMethod;
+    /** RRF rank constant; larger values flatten the contribution of top ranks */
+    k?: number;
+    weights?: Partial<Record<RankingSource, number>>;
+}
+
+export type RankedLists = Partial<Record<RankingSource, PatentResult[]>>;
+
+export const DEFAULT_FUSION_OPTIONS: Required<FusionOptions> = {
+    method: 'rrf',
+    k: 60,
+    weights: { semantic: 1, keyword: 1 },
+};
+
+interface Candidate {
+    patent: PatentResult;
+    sources: Partial<Record<RankingSource, SourceRanking>>;
+}
+
+/**
+ * Fuse several ranked result lists into one ranking.
+ *
+ * Every fused result carries its per-source rank, raw score and normalized
+ * score, and `similarity_score` is replaced by the fused score in [0, 1].
+ */
+export const fuseRankings = (lists: RankedLists, options: Partial<FusionOptions> = {}): PatentResult[] => {
+    const method = options.method ?? DEFAULT_FUSION_OPTIONS.method;
+    const k = options.k ?? DEFAULT_FUSION_OPTIONS.k;
+    const weights = { ...DEFAULT_FUSION_OPTIONS.weights, ...options.weights };
+
+    const candidates = collectCandidates(lists);
+    const activeSources = (Object.keys(lists) as RankingSource[]).filter(source => (weights[source] ?? 0) > 0);
+    const totalWeight = activeSources.reduce((sum, source) => sum + (weights[source] ?? 0), 0);
+
+    const fused = Array.from(candidates.values()).map(({ patent, sources }) => {
+        let score = 0;
+
+        for (const source of activeSources) {
+            const ranking = sources[source];
+            if (!ranking) {
+                continue;
+            }
+            const weight = weights[source] ?? 0;
+            score += method === 'rrf'
+                ? weight / (k + ranking.rank)
+                : weight * ranking.normalized_score;
+        }
+
+        // Scale so a result ranked first by every source scores exactly 1
+        const maxScore = method === 'rrf' ? totalWeight / (k + 1) : totalWeight;
+        const fusedScore = maxScore > 0 ? score / maxScore : 0;
+
+        return {
+            ...patent,
+            similarity_score: fusedScore,
+            ranking: { method, fused_score: fusedScore, sources },
+        };
+    });
+
+    return fused.sort(compareRankedResults);
+};
+
+/**
+ * Attach a ranking explanation to a single-source result list without
+ * changing its scores
+ */
+export const annotateRanking = (source: RankingSource, results: PatentResult[]): PatentResult[] => {
+    const rankings = rankSource(results);
+
+    return results.map((patent, index) => ({
+        ...patent,
+        ranking: {
+            method: 'single' as const,
+            fused_score: patent.similarity_score,
+            sources: { [source]: rankings[index] },
+        },
+    }));
+};
+
+const collectCandidates = (lists: RankedLists): Map<string, Candidate> => {
+    const candidates = new Map<string, Candidate>();
+
+    for (const [source, results] of Object.entries(lists) as Array<[RankingSource, PatentResult[]]>) {
+        const rankings = rankSource(results);
+
+        results.forEach((patent, index) => {
+            const existing = candidates.get(patent.patent_id);
+            const ranking = rankings[index] as SourceRanking;
+
+            if (existing) {
+                existing.sources[source] = ranking;
+                // Keep the first source's record but let any source name the matched claim and passage
+                existing.patent = {
+                    ...(patent.matched_claim && { matched_claim: patent.matched_claim }),
+                    ...(patent.matched_passage && { matched_passage: patent.matched_passage }),
+                    ...existing.patent,
+                };
+            } else {
+                candidates.set(patent.patent_id, { patent, sources: { [source]: ranking } });
+            }
+        });
+    }
+
+    return candidates;
+};
+
+/**
+ * Rank one source's list (already in relevance order) and normalize its
+ * scores against the top score. Lists without positive scores fall back to
+ * rank-based scores.
+ */
+const rankSource = (results: PatentResult[]): SourceRanking[] => {
+    const max = Math.max(0, ...results.map(result => result.similarity_score));
+
+    return results.map((result, index) => ({
+        rank: index + 1,
+        score: result.similarity_score,
+        normalized_score: max > 0
+            ? Math.max(result.similarity_score, 0) / max
+            : 1 - index / results.length,
+    }));
+};
+
+/**
+ * Order by fused score, breaking ties by newest publication and then by id
+ * so pagination sees the same order on every request
+ */
+const compareRankedResults = (a: PatentResult, b: PatentResult): number => {
+    if (b.similarity_score !== a.similarity_score) {
+        return b.similarity_score - a.similarity_score;
+    }
+    // ISO dates order correctly as strings
+    return b.publication_date.localeCompare(a.publication_date) || a.patent_id.localeCompare(b.patent_id);
+};
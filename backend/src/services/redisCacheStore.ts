@@ -0,0 +1,66 @@
+import { CacheStore } from './cacheStore';
+
+/**
+ * The subset of a Redis client the cache needs. ioredis clients satisfy it
+ * directly; other clients (node-redis, Valkey, KeyDB, Upstash) need a thin
+ * wrapper.
+ */
+export interface RedisCompatibleClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+    del(...keys: string[]): Promise<number>;
+    scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', hint: number): Promise<[string, string[]]>;
+}
+
+/**
+ * Cache store backed by a Redis-compatible server, so several API instances
+ * share one cache. Keys are prefixed to keep them apart from other data.
+ */
+export class RedisCacheStore implements CacheStore {
+    readonly provider = 'redis';
+
+    constructor(
+        private readonly client: RedisCompatibleClient,
+        private readonly keyPrefix: string = 'patent-search:'
+    ) { }
+
+    async get(key: string): Promise<string | undefined> {
+        const value = await this.client.get(this.keyPrefix + key);
+        return value ?? undefined;
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        await this.client.set(this.keyPrefix + key, value, 'EX', Math.max(1, Math.round(ttlSeconds)));
+    }
+
+    async deleteByPrefix(prefix: string): Promise<number> {
+        let removed = 0;
+        for await (const keys of this.scanKeys(`${this.escapePattern(this.keyPrefix + prefix)}*`)) {
+            if (keys.length > 0) {
+                removed += await this.client.del(...keys);
+            }
+        }
+        return removed;
+    }
+
+    async size(): Promise<number> {
+        let count = 0;
+        for await (const keys of this.scanKeys(`${this.escapePattern(this.keyPrefix)}*`)) {
+            count += keys.length;
+        }
+        return count;
+    }
+
+    private async *scanKeys(pattern: string): AsyncGenerator<string[]> {
+        let cursor = '0';
+        do {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+            cursor = next;
+            yield keys;
+        } while (cursor !== '0');
+    }
+
+    private escapePattern(value: string): string {
+        return value.replace(/[*?[\]\\]/g, '\\$&');
+    }
+}
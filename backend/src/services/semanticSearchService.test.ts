@@ -0,0 +1,41 @@
+import { SemanticSearchService, toSimilarity } from './semanticSearchService';
+
+describe('SemanticSearchService text preprocessing', () => {
+    const service = new SemanticSearchService();
+    const preprocess = (text: string): string => service['preprocessText'](text);
+
+    it('keeps letters and digits of every script', () => {
+        expect(preprocess('Festkörperelektrolyt für Batteriezellen')).toBe('Festkörperelektrolyt für Batteriezellen');
+        expect(preprocess('电池热管理系统')).toBe('电池热管理系统');
+        expect(preprocess('積層画素構造を有するイメージセンサ')).toBe('積層画素構造を有するイメージセンサ');
+        expect(preprocess('빔포밍을 이용한 무선 통신 방법')).toBe('빔포밍을 이용한 무선 통신 방법');
+        expect(preprocess('Литий-ионный аккумулятор, 3.7 В')).toBe('Литий-ионный аккумулятор, 3.7 В');
+        expect(preprocess('١٢٣ and ²')).toBe('١٢٣ and ²');
+    });
+
+    it('keeps punctuation and brackets and replaces other symbols with spaces', () => {
+        expect(preprocess('battery (claim 1) [0012]: anode; cathode?')).toBe('battery (claim 1) [0012]: anode; cathode?');
+        expect(preprocess('Li+ @ 25°C → 80%')).toBe('Li 25 C 80');
+    });
+
+    it('collapses whitespace', () => {
+        expect(preprocess('  solid\n\tstate   electrolyte ')).toBe('solid state electrolyte');
+        expect(preprocess('© anode ™')).toBe('anode');
+    });
+});
+
+describe('toSimilarity', () => {
+    it('clamps cosine similarities into [0, 1]', () => {
+        expect(toSimilarity(0.83, true)).toBe(0.83);
+        expect(toSimilarity(-0.2, true)).toBe(0);
+        expect(toSimilarity(1.0000001, true)).toBe(1);
+    });
+
+    it('squashes unbounded scores by the same bound on every query', () => {
+        expect(toSimilarity(0, false)).toBe(0);
+        expect(toSimilarity(1, false)).toBe(0.5);
+        expect(toSimilarity(3, false)).toBe(0.75);
+        expect(toSimilarity(-4, false)).toBe(0);
+        expect(toSimilarity(1e6, false)).toBeLessThan(1);
+    });
+});
@@ -1,7 +1,16 @@
-import { Pinecone } from '@pinecone-database/pinecone';
 import { config } from '@/config/config';
 import { logger } from '@/utils/logger';
-import { PatentResult } from './bigqueryService';
+import { MatchedClaim, MatchedPassage, PassageSection, PatentFullText, PatentResult, SearchScope } from '@/types/patent';
+import { queryMetadataFields } from '@/utils/queryCompiler';
+import { chunkPatent } from '@/utils/passageChunker';
+import { MetadataFilter, VectorMetadata, VectorRecord, VectorStore, createVectorStore } from './vectorStore';
+import { cacheService } from './cacheService';
+import {
+    Embedding,
+    EmbeddingInputType,
+    EmbeddingProvider,
+    createEmbeddingProvider,
+} from './embeddingProvider';
 
 // Patent-specific logger
 const patentLogger = {
@@ -10,94 +19,114 @@ const patentLogger = {
     error: (error: Error, context: string, query?: string) => logger.error('Semantic search error', { error: error.message, context, query: query?.substring(0, 100) }),
 };
 
+/**
+ * Sections whose passages a scope searches. Every vector is one passage,
+ * keyed `<publication number>#<section>-<n>` (`#claim-<claim>-<n>` for
+ * claims) with the publication number in its `patent_id` metadata.
+ */
+const SCOPE_SECTIONS: Record<SearchScope, PassageSection[]> = {
+    abstract: ['abstract'],
+    claims: ['claim'],
+    full: ['abstract', 'claim', 'description'],
+};
+
+/**
+ * Metadata filter restricting a vector query to the sections of a scope
+ */
+export const scopeMetadataFilter = (scope: SearchScope): MetadataFilter | undefined =>
+    scope === 'full' ? undefined : { section: { $in: SCOPE_SECTIONS[scope] } };
+
+/**
+ * Bring a vector match score into [0, 1] by a fixed bound, so a similarity
+ * threshold means the same on every query. Cosine similarities of dense
+ * vectors are clamped; unbounded scores (sparse dot products, the
+ * dotproduct and euclidean metrics) are squashed by s / (1 + s).
+ */
+export const toSimilarity = (score: number, cosine: boolean): number => {
+    const positive = Math.max(0, score);
+    return cosine ? Math.min(1, positive) : positive / (1 + positive);
+};
+
 export interface SemanticSearchResult {
     patent_id: string;
     similarity_score: number;
+    /** The matching passage; absent for vectors indexed before passages were */
+    passage?: Omit<MatchedPassage, 'highlights'>;
+    /** Set when the matching passage is (part of) a claim */
+    claim?: MatchedClaim;
     metadata?: Record<string, any>;
 }
 
 export interface EmbeddingResult {
-    embedding: { indices: number[]; values: number[] }; // Sparse vector format
+    embedding: Embedding;
     text: string;
     tokens: number;
 }
 
 export class SemanticSearchService {
-    private pinecone: Pinecone;
     private indexName: string;
+    private vectorStore: VectorStore;
+    private embeddingProvider: EmbeddingProvider;
 
     constructor() {
-        this.pinecone = new Pinecone({
-            apiKey: config.pinecone.apiKey,
-        });
-
         this.indexName = config.pinecone.indexName;
+        this.vectorStore = createVectorStore(this.indexName);
+        this.embeddingProvider = createEmbeddingProvider(this.indexName);
 
         logger.info('Semantic search service initialized', {
-            model: config.pinecone.model,
+            model: this.embeddingProvider.model,
+            embeddingProvider: this.embeddingProvider.name,
             indexName: this.indexName,
             type: config.pinecone.type,
             metric: config.pinecone.metric,
             host: config.pinecone.host,
+            vectorStore: this.vectorStore.provider,
         });
     }
 
     /**
-     * Generate embeddings for text using Pinecone Inference API
+     * Generate embeddings for text using the index's embedding provider
      */
-    async generateEmbedding(text: string): Promise<EmbeddingResult> {
+    async generateEmbedding(text: string, inputType: EmbeddingInputType = 'passage'): Promise<EmbeddingResult> {
         const startTime = Date.now();
 
         try {
             // Clean and truncate text
             const cleanText = this.preprocessText(text);
 
-            logger.debug('Generating sparse embedding', {
+            logger.debug('Generating embedding', {
                 textLength: cleanText.length,
-                model: config.pinecone.model
+                provider: this.embeddingProvider.name,
+                model: this.embeddingProvider.model,
+                inputType,
             });
 
-            // Use Pinecone Inference API for sparse embeddings
-            const embedding = await this.pinecone.inference.embed(
-                config.pinecone.model,
-                [cleanText],
-                { inputType: 'passage' }
-            ) as any; // Using any to handle response type issues
-
-            const embeddingData = embedding.data?.[0] as any; // Using any to handle both sparse and dense formats
-            if (!embeddingData) {
-                throw new Error('No embedding data returned from Pinecone Inference API');
-            }
+            const { embedding, tokens } = await cacheService.getOrLoad(
+                'embeddings',
+                {
+                    provider: this.embeddingProvider.name,
+                    model: this.embeddingProvider.model,
+                    inputType,
+                    text: cleanText,
+                },
+                async () => {
+                    const batch = await this.embeddingProvider.embed([cleanText], inputType);
 
-            let sparseVector: { indices: number[]; values: number[] };
+                    const generated = batch.embeddings[0];
+                    if (!generated || (!generated.sparse && !generated.dense)) {
+                        throw new Error(`No embedding data returned from ${this.embeddingProvider.name} provider`);
+                    }
 
-            // Handle sparse vector response format
-            if (embeddingData.sparseValues && embeddingData.sparseIndices) {
-                // Direct sparse format from Pinecone
-                sparseVector = {
-                    indices: embeddingData.sparseIndices,
-                    values: embeddingData.sparseValues,
-                };
-                logger.debug('Using direct sparse vector format', {
-                    nonZeroValues: sparseVector.values.length
-                });
-            } else if (embeddingData.values) {
-                // Dense format - convert to sparse
-                sparseVector = this.convertToSparseVector(embeddingData.values);
-                logger.debug('Converted dense to sparse vector format', {
-                    originalLength: embeddingData.values.length,
-                    nonZeroValues: sparseVector.values.length
-                });
-            } else {
-                throw new Error('No valid embedding values returned from Pinecone Inference API');
-            }
+                    return { embedding: generated, tokens: batch.tokens };
+                }
+            );
 
             patentLogger.embeddingGeneration(cleanText.length, Date.now() - startTime);
 
             return {
-                embedding: sparseVector,
+                embedding,
                 text: cleanText,
-                tokens: cleanText.split(' ').length, // Approximate token count
+                tokens,
             };
         } catch (error) {
             patentLogger.error(error as Error, 'Embedding generation failed');
@@ -105,61 +134,64 @@ export class SemanticSearchService {
         }
     }
 
-    /**
-     * Convert dense vector to sparse vector format
-     */
-    private convertToSparseVector(denseVector: number[]): { indices: number[]; values: number[] } {
-        const indices: number[] = [];
-        const values: number[] = [];
-
-        for (let i = 0; i < denseVector.length; i++) {
-            const value = denseVector[i];
-            if (value !== undefined && value !== 0) {
-                indices.push(i);
-                values.push(value);
-            }
-        }
-
-        return { indices, values };
-    }
-
     /**
      * Search for similar patents using vector similarity
      */
     async searchSimilarPatents(
-        queryEmbedding: { indices: number[]; values: number[] },
+        queryEmbedding: Embedding,
         topK: number = 50,
         filters?: Record<string, any>
     ): Promise<SemanticSearchResult[]> {
         const startTime = Date.now();
 
         try {
-            const index = this.pinecone.Index(this.indexName);
-
             logger.debug('Searching similar patents', {
                 topK,
-                sparseVectorSize: queryEmbedding.values.length,
-                filters: filters ? Object.keys(filters) : []
+                sparseVectorSize: queryEmbedding.sparse?.values.length ?? 0,
+                denseVectorSize: queryEmbedding.dense?.length ?? 0,
+                filters: filters ? Object.keys(filters) : [],
+                vectorStore: this.vectorStore.provider,
             });
 
-            const queryRequest = {
+            const matches = await this.vectorStore.query({
                 topK,
-                includeMetadata: true,
-                sparseVector: queryEmbedding,
+                ...(queryEmbedding.sparse && { sparseVector: queryEmbedding.sparse }),
+                ...(queryEmbedding.dense && { vector: queryEmbedding.dense }),
                 ...(filters && { filter: filters }),
-            } as any; // Type assertion to bypass Pinecone SDK type restrictions for sparse-only queries
-
-            const queryResponse = await index.query(queryRequest);
+            });
 
-            const results: SemanticSearchResult[] = queryResponse.matches?.map(match => ({
-                patent_id: match.id,
-                similarity_score: match.score || 0,
-                metadata: match.metadata as Record<string, any>,
-            })) || [];
+            // Sparse vectors are always scored by dot product
+            const cosine = !queryEmbedding.sparse && this.metric() === 'cosine';
+            const results: SemanticSearchResult[] = matches.map(match => {
+                const score = toSimilarity(match.score, cosine);
+                return {
+                    patent_id: String(match.metadata?.patent_id ?? match.id),
+                    similarity_score: score,
+                    ...(match.metadata?.passage_text !== undefined && {
+                        passage: {
+                            section: match.metadata.section as PassageSection,
+                            ...(match.metadata.claim_number !== undefined && { claim_number: Number(match.metadata.claim_number) }),
+                            ...(match.metadata.language !== undefined && { language: String(match.metadata.language) }),
+                            text: String(match.metadata.passage_text),
+                            start: Number(match.metadata.passage_start),
+                            end: Number(match.metadata.passage_end),
+                            score,
+                        },
+                    }),
+                    ...(match.metadata?.section === 'claim' && {
+                        claim: {
+                            number: Number(match.metadata.claim_number),
+                            text: String(match.metadata.passage_text),
+                            score,
+                        },
+                    }),
+                    metadata: match.metadata,
+                };
+            });
 
             const topSimilarity = results.length > 0 ? results[0]?.similarity_score || 0 : 0;
 
-            patentLogger.vectorSearch(queryEmbedding.values.length, topSimilarity, results.length);
+            patentLogger.vectorSearch(queryEmbedding.sparse?.values.length ?? queryEmbedding.dense?.length ?? 0, topSimilarity, results.length);
 
             logger.debug('Vector search completed', {
                 resultsCount: results.length,
@@ -190,7 +222,7 @@ export class SemanticSearchService {
             });
 
             // Generate embedding for the query
-            const embeddingResult = await this.generateEmbedding(query);
+            const embeddingResult = await this.generateEmbedding(query, 'query');
 
             // Search for similar patents
             const results = await this.searchSimilarPatents(
@@ -212,57 +244,73 @@ export class SemanticSearchService {
     }
 
     /**
-     * Store patent embeddings in Pinecone for indexing
+     * Store patent embeddings in the vector store for indexing, one vector
+     * per passage of the title and abstract in each published language, each
+     * claim, and the description
      */
-    async indexPatentEmbeddings(patents: PatentResult[]): Promise<void> {
+    async indexPatentEmbeddings(
+        patents: PatentResult[],
+        fullText: Map<string, PatentFullText> = new Map()
+    ): Promise<void> {
         const startTime = Date.now();
 
         try {
-            const index = this.pinecone.Index(this.indexName);
             const batchSize = 100; // Pinecone batch limit
 
             logger.info('Starting patent embedding indexing', {
                 patentCount: patents.length,
+                patentsWithFullText: fullText.size,
+                windowWords: config.passages.windowWords,
+                overlapWords: config.passages.overlapWords,
                 batchSize
             });
 
             for (let i = 0; i < patents.length; i += batchSize) {
                 const batch = patents.slice(i, i + batchSize);
-                const vectors = [];
+                const vectors: VectorRecord[] = [];
 
                 for (const patent of batch) {
                     try {
-                        // Create text for embedding (title + abstract)
-                        const patentText = `${patent.title} ${patent.abstract}`.trim();
-
-                        if (!patentText) {
+                        const text = fullText.get(patent.patent_id);
+                        const passages = chunkPatent({
+                            title: patent.title,
+                            abstract: patent.abstract,
+                            titles: patent.titles,
+                            abstracts: patent.abstracts,
+                            claims: text?.claims || [],
+                            description: text?.description || '',
+                        }, config.passages);
+
+                        if (passages.length === 0) {
                             logger.warn('Skipping patent with no text content', {
                                 patentId: patent.patent_id
                             });
                             continue;
                         }
 
-                        // Generate embedding
-                        const embeddingResult = await this.generateEmbedding(patentText);
-
-                        // Prepare vector for Pinecone
-                        const vector = {
-                            id: patent.patent_id,
-                            values: [], // Empty dense vector for sparse-only indexing
-                            sparseValues: embeddingResult.embedding,
-                            metadata: {
-                                title: patent.title,
-                                abstract: patent.abstract.substring(0, 1000), // Limit metadata size
-                                publication_date: patent.publication_date,
-                                assignee: patent.assignee,
-                                country_code: patent.country_code,
-                                classifications: patent.classifications.slice(0, 10), // Limit array size
-                                family_id: patent.family_id,
-                                url: patent.url,
-                            },
+                        const metadata = {
+                            patent_id: patent.patent_id,
+                            title: patent.title,
+                            publication_date: patent.publication_date,
+                            assignee: patent.assignee,
+                            country_code: patent.country_code,
+                            classifications: patent.classifications.slice(0, 10), // Limit array size
+                            family_id: patent.family_id,
+                            url: patent.url,
+                            ...queryMetadataFields(patent),
                         };
 
-                        vectors.push(vector);
+                        for (const passage of passages) {
+                            vectors.push(await this.toVectorRecord(`${patent.patent_id}#${passage.key}`, passage.text, {
+                                ...metadata,
+                                section: passage.section,
+                                ...(passage.claim_number !== undefined && { claim_number: passage.claim_number }),
+                                ...(passage.language && { language: passage.language }),
+                                passage_text: passage.text,
+                                passage_start: passage.start,
+                                passage_end: passage.end,
+                            }));
+                        }
 
                         // Small delay to respect rate limits
                         await new Promise(resolve => setTimeout(resolve, 50));
@@ -275,8 +323,12 @@ export class SemanticSearchService {
                     }
                 }
 
+                // Passage vectors can push a batch past the upsert limit
+                for (let j = 0; j < vectors.length; j += batchSize) {
+                    await this.vectorStore.upsert(vectors.slice(j, j + batchSize));
+                }
+
                 if (vectors.length > 0) {
-                    await index.upsert(vectors);
                     logger.debug('Indexed patent batch', {
                         batchIndex: Math.floor(i / batchSize) + 1,
                         vectorCount: vectors.length
@@ -299,7 +351,7 @@ export class SemanticSearchService {
     }
 
     /**
-     * Check if Pinecone index exists and is ready
+     * Check if the vector index exists and is ready
      */
     async checkIndexStatus(): Promise<{
         exists: boolean;
@@ -308,22 +360,7 @@ export class SemanticSearchService {
         indexType?: string;
     }> {
         try {
-            const indexList = await this.pinecone.listIndexes();
-            const indexExists = indexList.indexes?.some(idx => idx.name === this.indexName) || false;
-
-            if (!indexExists) {
-                return { exists: false, ready: false };
-            }
-
-            const indexStats = await this.pinecone.Index(this.indexName).describeIndexStats();
-
-            return {
-                exists: true,
-                ready: indexStats.totalRecordCount !== undefined,
-                vectorCount: indexStats.totalRecordCount,
-                indexType: config.pinecone.type,
-            };
-
+            return await this.vectorStore.describeIndex();
         } catch (error) {
             logger.error('Failed to check index status', { error: (error as Error).message });
             return { exists: false, ready: false };
@@ -331,64 +368,71 @@ export class SemanticSearchService {
     }
 
     /**
-     * Create Pinecone index if it doesn't exist
+     * Create the vector index if it doesn't exist
      */
     async createIndex(): Promise<void> {
         try {
-            logger.info('Creating Pinecone index', {
+            logger.info('Creating vector index', {
                 indexName: this.indexName,
+                vectorStore: this.vectorStore.provider,
                 type: config.pinecone.type
             });
 
-            await this.pinecone.createIndex({
-                name: this.indexName,
-                dimension: 50000, // Max dimension for sparse vectors
-                metric: 'dotproduct' as const,
-                spec: {
-                    serverless: {
-                        cloud: 'aws' as const,
-                        region: config.pinecone.region,
-                    },
-                },
-            });
+            await this.vectorStore.createIndex({ dimension: this.embeddingProvider.dimension });
 
-            logger.info('Pinecone index created successfully');
+            logger.info('Vector index created successfully');
 
         } catch (error) {
-            const errorMessage = (error as Error).message;
-
-            if (errorMessage.includes('already exists')) {
-                logger.info('Pinecone index already exists');
-                return;
-            }
-
-            patentLogger.error(error as Error, 'Failed to create Pinecone index');
+            patentLogger.error(error as Error, 'Failed to create vector index');
             throw error;
         }
     }
 
     /**
-     * Delete Pinecone index (for testing/cleanup)
+     * Delete the vector index (for testing/cleanup)
      */
     async deleteIndex(): Promise<void> {
         try {
-            await this.pinecone.deleteIndex(this.indexName);
-            logger.info('Pinecone index deleted', { indexName: this.indexName });
+            await this.vectorStore.deleteIndex();
+            logger.info('Vector index deleted', { indexName: this.indexName });
         } catch (error) {
-            patentLogger.error(error as Error, 'Failed to delete Pinecone index');
+            patentLogger.error(error as Error, 'Failed to delete vector index');
             throw error;
         }
     }
 
+    /**
+     * Embed one text into a vector record
+     */
+    private async toVectorRecord(id: string, text: string, metadata: VectorMetadata): Promise<VectorRecord> {
+        const embeddingResult = await this.generateEmbedding(text);
+
+        return {
+            id,
+            ...(embeddingResult.embedding.sparse && { sparseValues: embeddingResult.embedding.sparse }),
+            ...(embeddingResult.embedding.dense && { values: embeddingResult.embedding.dense }),
+            metadata,
+        };
+    }
+
+    /**
+     * Metric the vector store scores dense vectors by
+     */
+    private metric(): string {
+        return this.vectorStore.provider === 'local' ? config.vectorStore.metric : config.pinecone.metric;
+    }
+
     /**
      * Preprocess text for embedding generation
      */
     private preprocessText(text: string): string {
-        // Remove excessive whitespace and normalize
-        let cleaned = text.replace(/\s+/g, ' ').trim();
-
-        // Remove special characters that might interfere with embeddings
-        cleaned = cleaned.replace(/[^\w\s\-.,!?;:()\[\]]/g, ' ');
+        // Remove special characters that might interfere with embeddings,
+        // keeping letters and digits of every script, then collapse the
+        // whitespace left behind
+        let cleaned = text
+            .replace(/[^\p{L}\p{N}\s\-.,!?;:()[\]]/gu, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
 
         // Truncate to avoid token limits (approximately 8000 tokens = 32000 characters)
         const maxLength = 30050;
@@ -409,7 +453,7 @@ export class SemanticSearchService {
         metric: string;
     } {
         return {
-            embeddingModel: config.pinecone.model,
+            embeddingModel: this.embeddingProvider.model,
             indexType: config.pinecone.type,
             indexName: this.indexName,
             metric: config.pinecone.metric,
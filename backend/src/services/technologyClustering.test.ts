@@ -0,0 +1,98 @@
+import { ClusterableDocument, classTfIdf, clusterDocuments, MAX_CLUSTERED_DOCUMENTS, MAX_CLUSTERS } from './technologyClustering';
+
+const document = (id: string, dense: number[], text: string = id): ClusterableDocument => ({
+    id,
+    text,
+    embedding: { dense },
+});
+
+// Two tight groups pointing along different axes
+const BATTERIES = [
+    document('b1', [1, 0.05, 0], 'lithium battery anode'),
+    document('b2', [0.95, 0.1, 0.02], 'lithium battery cathode'),
+    document('b3', [1, 0, 0.08], 'solid lithium battery electrolyte'),
+    document('b4', [0.9, 0.05, 0.05], 'lithium battery separator'),
+];
+const ENGINES = [
+    document('e1', [0.02, 1, 0.05], 'combustion engine piston'),
+    document('e2', [0.1, 0.95, 0], 'combustion engine valve'),
+    document('e3', [0, 1, 0.1], 'combustion engine crankshaft'),
+];
+const GROUPS = [BATTERIES[0], ENGINES[0], BATTERIES[1], ENGINES[1], BATTERIES[2], ENGINES[2], BATTERIES[3]]
+    .filter((doc): doc is ClusterableDocument => doc !== undefined);
+
+const ids = (documents: ClusterableDocument[], members: number[]) => members.map(i => documents[i]?.id).sort();
+
+describe('clusterDocuments', () => {
+    it('gives the same clusters and map for the same seed', () => {
+        const first = clusterDocuments(GROUPS, { maxK: 5, seed: 7 });
+        const second = clusterDocuments(GROUPS, { maxK: 5, seed: 7 });
+        expect(second).toEqual(first);
+    });
+
+    it('picks k=2 for two well-separated groups', () => {
+        const result = clusterDocuments(GROUPS, { maxK: 5, seed: 42 });
+        expect(result.k).toBe(2);
+        expect(result.silhouette).toBeGreaterThan(0.8);
+        expect(result.clusters.map(cluster => ids(GROUPS, cluster.members))).toEqual([
+            ['b1', 'b2', 'b3', 'b4'],
+            ['e1', 'e2', 'e3'],
+        ]);
+    });
+
+    it('labels each cluster with its distinctive terms', () => {
+        const [batteries, engines] = clusterDocuments(GROUPS, { maxK: 5, seed: 42 }).clusters;
+        expect(batteries?.terms.slice(0, 2).map(term => term.term)).toEqual(['battery', 'lithium']);
+        expect(engines?.terms.slice(0, 2).map(term => term.term)).toEqual(['combustion', 'combustion engine']);
+    });
+
+    it('places every document on the map, groups apart', () => {
+        const { coordinates } = clusterDocuments(GROUPS, { maxK: 5, seed: 42 });
+        expect(coordinates).toHaveLength(GROUPS.length);
+        const [battery, engine] = [coordinates[0], coordinates[1]];
+        expect(Math.hypot((battery?.x ?? 0) - (engine?.x ?? 0), (battery?.y ?? 0) - (engine?.y ?? 0))).toBeGreaterThan(0.5);
+    });
+
+    it.each([1, 2])('puts %i document(s) in a single cluster', count => {
+        const result = clusterDocuments(GROUPS.slice(0, count), { maxK: 5, seed: 42 });
+        expect(result.k).toBe(1);
+        expect(result.silhouette).toBe(0);
+        expect(result.clusters).toHaveLength(1);
+        expect(result.clusters[0]?.members).toHaveLength(count);
+    });
+
+    it('returns no clusters without documents', () => {
+        expect(clusterDocuments([], { maxK: 5, seed: 42 })).toEqual({ k: 0, silhouette: 0, clusters: [], coordinates: [] });
+    });
+
+    it('uses a given k', () => {
+        expect(clusterDocuments(GROUPS, { k: 3, maxK: 5, seed: 42 }).k).toBe(3);
+    });
+
+    it('caps k and the number of clustered documents', () => {
+        const many = Array.from({ length: MAX_CLUSTERED_DOCUMENTS + 5 }, (_, i) =>
+            document(`d${i}`, [Math.cos(i), Math.sin(i), (i % 7) / 7]));
+
+        const result = clusterDocuments(many, { k: MAX_CLUSTERS + 5, maxK: 5, seed: 42 });
+        expect(result.k).toBeLessThanOrEqual(MAX_CLUSTERS);
+        expect(result.coordinates).toHaveLength(MAX_CLUSTERED_DOCUMENTS);
+        expect(result.clusters.reduce((total, cluster) => total + cluster.members.length, 0)).toBe(MAX_CLUSTERED_DOCUMENTS);
+    });
+});
+
+describe('classTfIdf', () => {
+    it('ranks terms frequent in a cluster and rare elsewhere, skipping boilerplate', () => {
+        const [first, second] = classTfIdf([
+            ['A method comprising a silicon anode', 'silicon anode coating system'],
+            ['An apparatus comprising a silicon wafer'],
+        ]);
+        expect(first?.map(term => term.term).slice(0, 2)).toEqual(['anode', 'silicon anode']);
+        expect(first?.some(term => ['method', 'system', 'comprising'].includes(term.term))).toBe(false);
+        expect(second?.map(term => term.term)).toContain('silicon wafer');
+    });
+
+    it('skips terms whose words are all covered by better-ranked terms', () => {
+        const [terms] = classTfIdf([['silicon anode', 'silicon anode']]);
+        expect(terms?.map(term => term.term)).toEqual(['anode', 'silicon']);
+    });
+});
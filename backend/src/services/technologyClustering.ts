@@ -0,0 +1,429 @@
+import { tokenizeForIndexing } from '@/utils/tokenizer';
+import { Embedding } from './embeddingProvider';
+
+/**
+ * Technology clustering for landscapes.
+ *
+ * Documents are clustered by cosine similarity of their embeddings with
+ * spherical k-means, run in kernel form over the pairwise similarity matrix
+ * so sparse and dense embeddings are handled alike. When k is not given it
+ * is picked by the best silhouette score. Clusters are labelled with
+ * class-based TF-IDF terms and every document gets 2-D map coordinates from
+ * classical multidimensional scaling. All randomness comes from `seed`, so
+ * the same input always yields the same clusters and map.
+ *
+ * The similarity matrix, each k-means run and each silhouette are O(n²) in
+ * the number of documents n, and automatic k repeats k-means and silhouette
+ * for every candidate k. Both are capped: only the first
+ * `MAX_CLUSTERED_DOCUMENTS` documents are clustered, and k never exceeds
+ * `MAX_CLUSTERS`, so one clustering costs at most about
+ * MAX_CLUSTERS × MAX_CLUSTERED_DOCUMENTS² similarity lookups per k-means
+ * iteration.
+ */
+
+export interface ClusterableDocument {
+    id: string;
+    /** Text the cluster labels are drawn from */
+    text: string;
+    embedding: Embedding;
+}
+
+export interface ClusteringOptions {
+    /** Number of clusters; picked automatically between 2 and `maxK` when omitted */
+    k?: number;
+    /** Largest k tried when picking k automatically, at most `MAX_CLUSTERS` */
+    maxK: number;
+    seed: number;
+}
+
+export interface ClusterTerm {
+    term: string;
+    score: number;
+}
+
+export interface DocumentCluster {
+    /** Indices into the clustered documents, closest to the centroid first */
+    members: number[];
+    terms: ClusterTerm[];
+}
+
+export interface ClusteringResult {
+    k: number;
+    /** Mean silhouette of the clustering, in [-1, 1]; 0 for a single cluster */
+    silhouette: number;
+    /** Largest cluster first */
+    clusters: DocumentCluster[];
+    /** Map position of each document */
+    coordinates: Array<{ x: number; y: number }>;
+}
+
+// Documents beyond this are left out of the clustering; callers pass their best matches first
+export const MAX_CLUSTERED_DOCUMENTS = 200;
+
+// Upper bound on k, whether given or picked automatically
+export const MAX_CLUSTERS = 20;
+
+const KMEANS_RESTARTS = 5;
+const KMEANS_MAX_ITERATIONS = 50;
+const MDS_ITERATIONS = 200;
+const CLUSTER_TERMS = 8;
+
+// Patent boilerplate that names no technology
+const LABEL_STOPWORDS = new Set([
+    'method', 'methods', 'system', 'systems', 'apparatus', 'device', 'devices', 'means', 'unit', 'units',
+    'module', 'assembly', 'arrangement', 'comprising', 'comprises', 'comprise', 'including', 'includes',
+    'having', 'based', 'using', 'used', 'use', 'configured', 'provided', 'providing', 'least', 'one',
+    'two', 'first', 'second', 'third', 'plurality', 'portion', 'part', 'parts', 'member', 'thereby',
+    'therein', 'such', 'each', 'same', 'other', 'between', 'within', 'wherein', 'invention', 'present',
+    'disclosure', 'disclosed', 'embodiment', 'embodiments', 'example', 'claim', 'claims', 'described',
+    'according', 'also', 'can', 'may', 'more', 'not', 'than', 'this', 'these', 'when', 'via', 'only',
+]);
+
+/**
+ * Cluster documents by embedding similarity and label each cluster. Only the
+ * first `MAX_CLUSTERED_DOCUMENTS` documents are clustered; indices and
+ * coordinates in the result refer to those.
+ */
+export const clusterDocuments = (allDocuments: ClusterableDocument[], options: ClusteringOptions): ClusteringResult => {
+    const documents = allDocuments.slice(0, MAX_CLUSTERED_DOCUMENTS);
+    const count = documents.length;
+    if (count === 0) {
+        return { k: 0, silhouette: 0, clusters: [], coordinates: [] };
+    }
+
+    const similarity = similarityMatrix(documents.map(document => unitVector(document.embedding)));
+    const random = seededRandom(options.seed);
+
+    let best: { assignments: number[]; k: number; silhouette: number };
+    const candidates = options.k !== undefined
+        ? [Math.min(Math.max(options.k, 1), count, MAX_CLUSTERS)]
+        : range(2, Math.min(options.maxK, MAX_CLUSTERS, count - 1));
+
+    if (candidates.length === 0) {
+        best = { assignments: new Array<number>(count).fill(0), k: 1, silhouette: 0 };
+    } else {
+        best = { assignments: [], k: 0, silhouette: -Infinity };
+        for (const k of candidates) {
+            const assignments = kMeans(similarity, k, random);
+            const score = k > 1 ? silhouette(similarity, assignments, k) : 0;
+            // Ties keep the smaller k
+            if (score > best.silhouette) {
+                best = { assignments, k, silhouette: score };
+            }
+        }
+    }
+
+    const members = range(0, best.k - 1)
+        .map(cluster => best.assignments.flatMap((assigned, i) => (assigned === cluster ? [i] : [])))
+        .filter(cluster => cluster.length > 0)
+        .sort((a, b) => b.length - a.length || (a[0] ?? 0) - (b[0] ?? 0));
+
+    const terms = classTfIdf(members.map(cluster => cluster.map(i => documents[i]?.text || '')));
+
+    return {
+        k: members.length,
+        silhouette: best.silhouette,
+        clusters: members.map((cluster, c) => ({
+            members: byCentroidSimilarity(similarity, cluster),
+            terms: terms[c] || [],
+        })),
+        coordinates: classicalMds(similarity, random),
+    };
+};
+
+/**
+ * Rank class-based TF-IDF terms (unigrams and bigrams) per cluster: a term's
+ * frequency within the cluster's documents, weighted by how rare the term is
+ * across all clusters
+ */
+export const classTfIdf = (clusters: string[][], limit: number = CLUSTER_TERMS): ClusterTerm[][] => {
+    const counts = clusters.map(texts => {
+        const terms = new Map<string, number>();
+        for (const text of texts) {
+            for (const term of labelTerms(text)) {
+                terms.set(term, (terms.get(term) || 0) + 1);
+            }
+        }
+        return terms;
+    });
+
+    const totals = counts.map(terms => Array.from(terms.values()).reduce((sum, n) => sum + n, 0));
+    const averageTotal = totals.reduce((sum, n) => sum + n, 0) / Math.max(clusters.length, 1);
+    const frequency = new Map<string, number>();
+    for (const terms of counts) {
+        for (const [term, n] of terms) {
+            frequency.set(term, (frequency.get(term) || 0) + n);
+        }
+    }
+
+    return counts.map((terms, c) => {
+        const ranked = Array.from(terms.entries())
+            .map(([term, n]) => ({
+                term,
+                score: (n / Math.max(totals[c] || 0, 1)) * Math.log(1 + averageTotal / (frequency.get(term) || 1)),
+            }))
+            .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+
+        // Skip terms whose words are all covered by better-ranked terms
+        const chosen: ClusterTerm[] = [];
+        const covered = new Set<string>();
+        for (const candidate of ranked) {
+            const words = candidate.term.split(' ');
+            if (words.every(word => covered.has(word))) {
+                continue;
+            }
+            chosen.push({ term: candidate.term, score: Number(candidate.score.toFixed(4)) });
+            words.forEach(word => covered.add(word));
+            if (chosen.length === limit) {
+                break;
+            }
+        }
+        return chosen;
+    });
+};
+
+/**
+ * Unigrams and bigrams of a text, without stopwords, patent boilerplate and numbers
+ */
+const labelTerms = (text: string): string[] => {
+    const words = tokenizeForIndexing(text)
+        .map(word => (word.length > 2 && !LABEL_STOPWORDS.has(word) && !/^[\d-]+$/.test(word) ? word : undefined));
+
+    const terms: string[] = [];
+    words.forEach((word, i) => {
+        if (!word) {
+            return;
+        }
+        terms.push(word);
+        const next = words[i + 1];
+        if (next) {
+            terms.push(`${word} ${next}`);
+        }
+    });
+    return terms;
+};
+
+/**
+ * Spherical k-means over a cosine similarity matrix, seeded with k-means++
+ * and restarted a few times, keeping the most cohesive run
+ */
+const kMeans = (similarity: number[][], k: number, random: () => number): number[] => {
+    const count = similarity.length;
+    let best = { assignments: new Array<number>(count).fill(0), cohesion: -Infinity };
+
+    for (let restart = 0; restart < KMEANS_RESTARTS; restart++) {
+        // k-means++: each further seed is drawn with probability proportional to its squared distance
+        const seeds = [Math.floor(random() * count)];
+        while (seeds.length < k) {
+            const distances = similarity.map(row => Math.max(0, 1 - Math.max(...seeds.map(seed => row[seed] ?? 0))) ** 2);
+            seeds.push(weightedPick(distances, random));
+        }
+
+        let assignments = similarity.map(row => argMax(seeds.map(seed => row[seed] ?? 0)));
+
+        for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+            const centroids = centroidSimilarities(similarity, assignments, k);
+            const next = similarity.map((_, i) => argMax(centroids.map(toCentroid => toCentroid[i] ?? -Infinity)));
+
+            // Refill an emptied cluster with the document furthest from its centroid
+            for (let cluster = 0; cluster < k; cluster++) {
+                if (!next.includes(cluster)) {
+                    const furthest = argMax(next.map((assigned, i) => -(centroids[assigned]?.[i] ?? 0)));
+                    next[furthest] = cluster;
+                }
+            }
+
+            const changed = next.some((assigned, i) => assigned !== assignments[i]);
+            assignments = next;
+            if (!changed) {
+                break;
+            }
+        }
+
+        const centroids = centroidSimilarities(similarity, assignments, k);
+        const cohesion = assignments.reduce((sum, assigned, i) => sum + (centroids[assigned]?.[i] ?? 0), 0);
+        if (cohesion > best.cohesion) {
+            best = { assignments, cohesion };
+        }
+    }
+
+    return best.assignments;
+};
+
+/**
+ * Cosine similarity of every document to every cluster's (unnormalized mean)
+ * centroid, computed from pairwise similarities alone
+ */
+const centroidSimilarities = (similarity: number[][], assignments: number[], k: number): number[][] =>
+    range(0, k - 1).map(cluster => {
+        const members = assignments.flatMap((assigned, i) => (assigned === cluster ? [i] : []));
+        if (members.length === 0) {
+            return similarity.map(() => -Infinity);
+        }
+
+        const selfSimilarity = members.reduce(
+            (sum, i) => sum + members.reduce((inner, j) => inner + (similarity[i]?.[j] ?? 0), 0), 0
+        ) / (members.length * members.length);
+        const norm = Math.sqrt(Math.max(selfSimilarity, 1e-12));
+
+        return similarity.map(row => members.reduce((sum, j) => sum + (row[j] ?? 0), 0) / members.length / norm);
+    });
+
+/**
+ * Mean silhouette with cosine distance
+ */
+const silhouette = (similarity: number[][], assignments: number[], k: number): number => {
+    const count = similarity.length;
+    let total = 0;
+
+    for (let i = 0; i < count; i++) {
+        const distanceSums = new Array<number>(k).fill(0);
+        const sizes = new Array<number>(k).fill(0);
+        for (let j = 0; j < count; j++) {
+            if (i === j) {
+                continue;
+            }
+            const cluster = assignments[j] ?? 0;
+            distanceSums[cluster] = (distanceSums[cluster] ?? 0) + (1 - (similarity[i]?.[j] ?? 0));
+            sizes[cluster] = (sizes[cluster] ?? 0) + 1;
+        }
+
+        const own = assignments[i] ?? 0;
+        if (!sizes[own]) {
+            continue; // Singletons score 0
+        }
+        const a = (distanceSums[own] ?? 0) / (sizes[own] ?? 1);
+        const b = Math.min(...range(0, k - 1)
+            .filter(cluster => cluster !== own && (sizes[cluster] ?? 0) > 0)
+            .map(cluster => (distanceSums[cluster] ?? 0) / (sizes[cluster] ?? 1)));
+
+        if (Number.isFinite(b)) {
+            total += (b - a) / Math.max(a, b, 1e-12);
+        }
+    }
+
+    return total / count;
+};
+
+/**
+ * Cluster members ordered by similarity to the cluster centroid
+ */
+const byCentroidSimilarity = (similarity: number[][], members: number[]): number[] => {
+    const toCentroid = new Map(members.map(i => [i, members.reduce((sum, j) => sum + (similarity[i]?.[j] ?? 0), 0)]));
+    return [...members].sort((a, b) => (toCentroid.get(b) ?? 0) - (toCentroid.get(a) ?? 0) || a - b);
+};
+
+/**
+ * Classical multidimensional scaling to two dimensions. For unit vectors the
+ * double-centred similarity matrix is the Gram matrix of the centred data, so
+ * this is the documents' projection onto their first two principal axes.
+ */
+const classicalMds = (similarity: number[][], random: () => number): Array<{ x: number; y: number }> => {
+    const count = similarity.length;
+    const rowMeans = similarity.map(row => row.reduce((sum, value) => sum + value, 0) / count);
+    const grandMean = rowMeans.reduce((sum, value) => sum + value, 0) / count;
+    const gram = similarity.map((row, i) =>
+        row.map((value, j) => value - (rowMeans[i] ?? 0) - (rowMeans[j] ?? 0) + grandMean));
+
+    const axes: Array<{ vector: number[]; value: number }> = [];
+    for (let axis = 0; axis < 2; axis++) {
+        let vector = normalize(similarity.map(() => random() - 0.5));
+        let value = 0;
+
+        for (let iteration = 0; iteration < MDS_ITERATIONS; iteration++) {
+            let next = multiply(gram, vector);
+            // Deflate: remove the axes already found
+            for (const found of axes) {
+                const projection = dot(next, found.vector);
+                next = next.map((x, i) => x - projection * (found.vector[i] ?? 0));
+            }
+            value = Math.sqrt(dot(next, next));
+            if (value < 1e-12) {
+                break;
+            }
+            vector = normalize(next);
+        }
+
+        // Fix the sign so the largest component is positive
+        const largest = vector.reduce((max, x) => (Math.abs(x) > Math.abs(max) ? x : max), 0);
+        axes.push({ vector: largest < 0 ? vector.map(x => -x) : vector, value });
+    }
+
+    return range(0, count - 1).map(i => ({
+        x: Number(((axes[0]?.vector[i] ?? 0) * Math.sqrt(axes[0]?.value ?? 0)).toFixed(4)),
+        y: Number(((axes[1]?.vector[i] ?? 0) * Math.sqrt(axes[1]?.value ?? 0)).toFixed(4)),
+    }));
+};
+
+/**
+ * An embedding as a unit-length sparse map
+ */
+const unitVector = (embedding: Embedding): Map<number, number> => {
+    const entries: Array<[number, number]> = embedding.sparse
+        ? embedding.sparse.indices.map((index, i) => [index, embedding.sparse?.values[i] ?? 0])
+        : (embedding.dense || []).map((value, index) => [index, value]);
+
+    const norm = Math.sqrt(entries.reduce((sum, [, value]) => sum + value * value, 0)) || 1;
+    return new Map(entries.map(([index, value]) => [index, value / norm]));
+};
+
+const similarityMatrix = (vectors: Array<Map<number, number>>): number[][] => {
+    const matrix = vectors.map(() => new Array<number>(vectors.length).fill(0));
+    vectors.forEach((a, i) => {
+        for (let j = i; j < vectors.length; j++) {
+            const b = vectors[j] as Map<number, number>;
+            const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+            let sum = 0;
+            for (const [index, value] of small) {
+                sum += value * (large.get(index) ?? 0);
+            }
+            (matrix[i] as number[])[j] = sum;
+            (matrix[j] as number[])[i] = sum;
+        }
+    });
+    return matrix;
+};
+
+/**
+ * Mulberry32: a small, fast PRNG with a 32-bit seed
+ */
+const seededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const weightedPick = (weights: number[], random: () => number): number => {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+        return Math.floor(random() * weights.length);
+    }
+    let target = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        target -= weights[i] ?? 0;
+        if (target < 0) {
+            return i;
+        }
+    }
+    return weights.length - 1;
+};
+
+const argMax = (values: number[]): number =>
+    values.reduce((best, value, i) => (value > (values[best] ?? -Infinity) ? i : best), 0);
+
+const range = (from: number, to: number): number[] =>
+    to < from ? [] : Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, x, i) => sum + x * (b[i] ?? 0), 0);
+
+const multiply = (matrix: number[][], vector: number[]): number[] => matrix.map(row => dot(row, vector));
+
+const normalize = (vector: number[]): number[] => {
+    const norm = Math.sqrt(dot(vector, vector)) || 1;
+    return vector.map(x => x / norm);
+};
@@ -0,0 +1,84 @@
+import { config } from '@/config/config';
+import { LocalVectorStore } from './localVectorStore';
+import { PineconeVectorStore } from './pineconeVectorStore';
+
+export interface SparseVector {
+    indices: number[];
+    values: number[];
+}
+
+export type VectorMetadataValue = string | number | boolean | string[];
+
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+/**
+ * Metadata filter in Pinecone's filter language ($eq, $ne, $in, $nin, $gt,
+ * $gte, $lt, $lte, $exists, $and, $or). Every adapter accepts this dialect.
+ */
+export type MetadataFilter = Record<string, any>;
+
+export interface VectorRecord {
+    id: string;
+    values?: number[];
+    sparseValues?: SparseVector;
+    metadata?: VectorMetadata;
+}
+
+export interface VectorQuery {
+    topK: number;
+    vector?: number[];
+    sparseVector?: SparseVector;
+    filter?: MetadataFilter;
+}
+
+export interface VectorMatch {
+    id: string;
+    score: number;
+    metadata?: VectorMetadata;
+}
+
+export interface VectorIndexSpec {
+    /** Dense vector dimension; omitted for sparse-only indexes */
+    dimension?: number;
+}
+
+export interface VectorIndexStatus {
+    exists: boolean;
+    ready: boolean;
+    vectorCount?: number;
+    indexType?: string;
+}
+
+/**
+ * Vector index used for semantic search. Pinecone is the hosted adapter; the
+ * local adapter keeps vectors on disk for air-gapped environments and tests.
+ */
+export interface VectorStore {
+    readonly provider: string;
+
+    query(request: VectorQuery): Promise<VectorMatch[]>;
+
+    upsert(records: VectorRecord[]): Promise<void>;
+
+    describeIndex(): Promise<VectorIndexStatus>;
+
+    createIndex(spec: VectorIndexSpec): Promise<void>;
+
+    deleteIndex(): Promise<void>;
+}
+
+/**
+ * Create the vector store selected by config.vectorStore.provider
+ */
+export const createVectorStore = (indexName: string): VectorStore => {
+    switch (config.vectorStore.provider) {
+        case 'local':
+            return new LocalVectorStore(indexName, config.vectorStore.localPath, config.vectorStore.metric);
+
+        case 'pinecone':
+            return new PineconeVectorStore(indexName);
+
+        default:
+            throw new Error(`Unsupported vector store provider: ${config.vectorStore.provider}`);
+    }
+};
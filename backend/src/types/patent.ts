@@ -0,0 +1,380 @@
+export interface PatentSearchFilters {
+    /** Inclusive ISO 8601 (YYYY-MM-DD) publication date bounds */
+    dateRange?: {
+        start?: string;
+        end?: string;
+    };
+    countries?: string[];
+    /** Assignee names; known companies also match their aliases and subsidiaries */
+    assignees?: string[];
+    classifications?: string[];
+}
+
+export interface PatentResult {
+    patent_id: string;
+    /** Title in the preferred language available */
+    title: string;
+    abstract: string;
+    /** Every language the title is published in */
+    titles: LocalizedText[];
+    abstracts: LocalizedText[];
+    /** Dates are ISO 8601 (YYYY-MM-DD); the optional ones are absent when unknown */
+    publication_date: string;
+    priority_date?: string;
+    filing_date?: string;
+    grant_date?: string;
+    /** First harmonized assignee name, as published */
+    assignee: string;
+    /** The assignee's company after alias resolution, e.g. "Google" for "GOOGLE LLC" */
+    assignee_normalized: string;
+    inventors: string[];
+    country_code: string;
+    kind_code: string;
+    family_id: string;
+    /** CPC codes, first-listed first, then inventive, then additional */
+    classifications: string[];
+    /** CPC and IPC codes with their inventive and first-listed flags */
+    classification_details: PatentClassification[];
+    similarity_score: number;
+    keyword_matches?: string[];
+    /** Claim that best matched the query, for claims and full scope searches */
+    matched_claim?: MatchedClaim;
+    /** Passage that best matched the query, with the query terms located in it */
+    matched_passage?: MatchedPassage;
+    url: string;
+    ranking?: RankingExplanation;
+    /** Other publications of the family, for searches grouped by family */
+    family_members?: PatentFamilyMember[];
+}
+
+/**
+ * Which parts of a publication a search matches against
+ */
+export type SearchScope = 'claims' | 'abstract' | 'full';
+
+/**
+ * Whether a search lists every matching publication or one per patent family
+ */
+export type SearchGrouping = 'publication' | 'family';
+
+export type ClassificationScheme = 'CPC' | 'IPC';
+
+export interface PatentClassification {
+    scheme: ClassificationScheme;
+    code: string;
+    /** false for "additional" (non-inventive) information codes */
+    inventive: boolean;
+    /** The first-listed code of its scheme on the publication */
+    first: boolean;
+}
+
+export interface PatentSearchPage {
+    results: PatentResult[];
+    /** Matches before the limit was applied */
+    totalMatches: number;
+}
+
+export interface LocalizedText {
+    text: string;
+    language: string;
+    truncated?: boolean;
+}
+
+export interface PatentParty {
+    name: string;
+    country_code?: string;
+}
+
+export type ClaimType = 'independent' | 'dependent';
+
+/**
+ * One numbered claim. Dependency references form a tree rooted at the
+ * independent claims.
+ */
+export interface PatentClaim {
+    number: number;
+    text: string;
+    type: ClaimType;
+    /** Earlier claims this one refers back to */
+    depends_on: number[];
+    /** Later claims referring back to this one */
+    dependents: number[];
+}
+
+export interface MatchedClaim {
+    number: number;
+    text: string;
+    /**
+     * Similarity of the claim's vector for semantic hits, share of the
+     * query terms found in the claim for keyword hits
+     */
+    score: number;
+}
+
+export type PassageSection = 'abstract' | 'claim' | 'description';
+
+export interface TextSpan {
+    start: number;
+    end: number;
+}
+
+export interface MatchedPassage {
+    section: PassageSection;
+    /** Set for title and abstract passages, which are indexed in every published language */
+    language?: string;
+    /** Set for claim passages */
+    claim_number?: number;
+    text: string;
+    /** Offsets of the passage within its section (title and abstract, one claim, or the description) */
+    start: number;
+    end: number;
+    /** Similarity of the passage vector, or the number of term occurrences for keyword hits */
+    score: number;
+    /** Query term occurrences as offsets into `text` */
+    highlights: TextSpan[];
+}
+
+/**
+ * Long-text sections of a publication that are indexed as passages
+ */
+export interface PatentFullText {
+    claims: PatentClaim[];
+    /** English description, or the first language published */
+    description: string;
+}
+
+/**
+ * A company in the assignee alias table
+ */
+export interface AssigneeEntity {
+    /** Display name, e.g. "Google" */
+    name: string;
+    /** Other names the company files under, e.g. "Google Technology Holdings" */
+    aliases: string[];
+    /** Name of the parent company, itself an entity */
+    parent?: string;
+}
+
+export interface AssigneeSuggestion {
+    /** Normalized company name */
+    name: string;
+    /** Top-level parent company when the company is a subsidiary */
+    parent?: string;
+    /** Harmonized names in the data that resolve to the company */
+    matched_names: string[];
+    /** Publications under the matched names; 0 for known companies without any */
+    patent_count: number;
+}
+
+/**
+ * Publications of a top-level company, its subsidiaries' included
+ */
+export interface AssigneeRollup {
+    /** Top-level parent company, or the company itself when it has no parent */
+    assignee: string;
+    count: number;
+    /** The normalized companies counted, the parent among them, largest first */
+    companies: { name: string; count: number }[];
+}
+
+export interface PatentFamilyMember {
+    patent_id: string;
+    title: string;
+    country_code: string;
+    kind_code: string;
+    /** ISO 8601 (YYYY-MM-DD) */
+    publication_date: string;
+}
+
+/**
+ * Full bibliographic record of one publication
+ */
+export interface PatentDetail extends PatentResult {
+    application_number: string;
+    claims: LocalizedText[];
+    /** Claims of the English text (or the first language) split and linked by dependency */
+    parsed_claims: PatentClaim[];
+    descriptions: LocalizedText[];
+    assignees: PatentParty[];
+    inventor_details: PatentParty[];
+    /** Other publications sharing the family_id, oldest first */
+    family_members: PatentFamilyMember[];
+    citation_counts: {
+        /** Patent publications this one cites */
+        backward: number;
+        /** Publications citing this one */
+        forward: number;
+        non_patent: number;
+    };
+}
+
+export interface PatentCitations {
+    /** Publications citing this one, newest first */
+    citing: PatentResult[];
+    /** Publications this one cites, newest first */
+    cited: PatentResult[];
+    /** Size of each list before paging */
+    total_citing: number;
+    total_cited: number;
+}
+
+export interface PatentCitationOptions {
+    /** Publications returned per direction */
+    limit: number;
+    /** Publications skipped per direction */
+    offset: number;
+    /**
+     * Count the citations of every family member, list each other family
+     * once (through its earliest publication) and leave out the patent's own
+     * family
+     */
+    family: boolean;
+}
+
+/**
+ * Who put a citation on record: the applicant, the examiner, or an office or
+ * international search report
+ */
+export type CitationCategory = 'applicant' | 'examiner' | 'search_report' | 'other';
+
+/**
+ * One citation from a publication's `citation` array
+ */
+export interface CitationLink {
+    citing: string;
+    cited: string;
+    /** Category code as published, e.g. "APP", "EXA" or "SEA" */
+    category: string;
+}
+
+export interface CitationNetworkNode {
+    id: string;
+    title: string;
+    /** Publication year; absent for cited publications outside the dataset */
+    year?: number;
+    /** 0 for the sampled publications, 1 or 2 for those reached by expansion */
+    hop: number;
+    /** Citations received from, and made to, other publications in the network */
+    in_degree: number;
+    out_degree: number;
+    /** PageRank over the network's citations, summing to 1 */
+    pagerank: number;
+}
+
+export interface CitationNetworkEdge {
+    /** The citing publication */
+    source: string;
+    /** The cited publication */
+    target: string;
+    /** Times the source cites the target in this category */
+    weight: number;
+    category: CitationCategory;
+}
+
+export interface CitationNetwork {
+    nodes: CitationNetworkNode[];
+    edges: CitationNetworkEdge[];
+}
+
+export interface CitationNetworkOptions {
+    /** Expand the sampled set by publications citing or cited by it, up to two steps away */
+    hops: 0 | 1 | 2;
+    /** Citation categories to follow; all when omitted */
+    categories?: CitationCategory[];
+}
+
+/**
+ * Publications counted by landscape statistics: those matching `query` or
+ * listed in `patentIds`, within `filters`. With neither a query nor IDs,
+ * every publication within the filters.
+ */
+export interface StatisticsScope {
+    query?: string;
+    scope?: SearchScope;
+    patentIds?: string[];
+    filters?: PatentSearchFilters;
+}
+
+export interface PatentStatistics {
+    totalPatents: number;
+    /** Every year of the population, oldest first */
+    yearlyDistribution: { year: number; count: number }[];
+    /**
+     * Assignees by patent count. Repositories list up to 100 harmonized
+     * names; landscapes roll them up into top-level companies (AssigneeRollup).
+     */
+    topAssignees: { assignee: string; count: number }[];
+    topClassifications: { classification: string; count: number }[];
+}
+
+/** Keyword matches only, or keyword matches together with the semantic top N */
+export type StatisticsBasis = 'keyword' | 'keyword_or_semantic';
+
+/**
+ * Which publications a set of landscape statistics describes
+ */
+export interface StatisticsPopulation {
+    basis: StatisticsBasis;
+    description: string;
+    query: string;
+    /** Size of the semantic top-N set counted; 0 when not used */
+    semantic_top_n: number;
+    filters: PatentSearchFilters;
+    date_range: { start: string | null; end: string | null };
+}
+
+/**
+ * Statistics over every publication within a set of filters, typically one
+ * or more assignees' portfolios
+ */
+export interface PortfolioStatistics {
+    totalPatents: number;
+    totalFamilies: number;
+    /**
+     * Publications by filing year (publication year when the filing date is
+     * unknown) and country code, oldest first
+     */
+    filingTrend: { year: number; country_code: string; count: number }[];
+    /** Publications per CPC subclass, largest first */
+    cpcDistribution: { classification: string; count: number }[];
+    topInventors: { inventor: string; count: number }[];
+    /** Families by their number of publications in any jurisdiction, smallest first */
+    familySizes: { size: number; families: number }[];
+    citationImpact: {
+        /** Citing publications summed over the portfolio's publications */
+        forward_citations: number;
+        /** Portfolio publications cited at least once */
+        cited_patents: number;
+        citations_per_patent: number;
+    };
+    /** Most cited portfolio publications, most cited first */
+    topCitedPatents: {
+        patent_id: string;
+        title: string;
+        publication_date: string;
+        country_code: string;
+        forward_citations: number;
+    }[];
+}
+
+export interface PatentPortfolio extends PortfolioStatistics {
+    /** The normalized companies analysed, with their top-level parents */
+    assignees: { name: string; parent?: string }[];
+    /** Assignee names matched, covering the companies' aliases and subsidiaries */
+    matched_names: string[];
+    filters: PatentSearchFilters;
+}
+
+export type RankingSource = 'semantic' | 'keyword';
+
+export interface SourceRanking {
+    rank: number;
+    score: number;
+    normalized_score: number;
+}
+
+export interface RankingExplanation {
+    method: 'rrf' | 'weighted' | 'single';
+    fused_score: number;
+    sources: Partial<Record<RankingSource, SourceRanking>>;
+}
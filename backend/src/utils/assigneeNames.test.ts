@@ -0,0 +1,71 @@
+import { assigneeKey, assigneeWordPattern, displayAssigneeName } from './assigneeNames';
+
+describe('assigneeKey', () => {
+    it.each([
+        ['GOOGLE LLC', 'GOOGLE'],
+        ['Google Inc.', 'GOOGLE'],
+        ['google, inc', 'GOOGLE'],
+        ['CONTEMPORARY AMPEREX TECHNOLOGY CO LTD', 'CONTEMPORARY AMPEREX TECHNOLOGY'],
+        ['Siemens GmbH & Co. KG', 'SIEMENS'],
+        ['Toyota Jidosha Kabushiki Kaisha', 'TOYOTA JIDOSHA'],
+        ['LG-Chem', 'LG CHEM'],
+    ])('drops case, punctuation and legal forms: %j', (name, key) => {
+        expect(assigneeKey(name)).toBe(key);
+    });
+
+    it('keeps a last word that only looks like a connective', () => {
+        expect(assigneeKey('JOHNSON AND JOHNSON')).toBe('JOHNSON AND JOHNSON');
+        expect(assigneeKey('Black & Decker Inc')).toBe('BLACK AND DECKER');
+        expect(assigneeKey('Smith and Company')).toBe('SMITH');
+    });
+
+    it('keeps a name that is nothing but a legal form', () => {
+        expect(assigneeKey('AG')).toBe('AG');
+        expect(assigneeKey('Co. Ltd.')).toBe('CO LTD');
+    });
+
+    it('is empty without letters or digits', () => {
+        expect(assigneeKey(' -- ')).toBe('');
+    });
+});
+
+describe('displayAssigneeName', () => {
+    it('title-cases words and keeps connectives lower case after the first word', () => {
+        expect(displayAssigneeName('CONTEMPORARY AMPEREX TECHNOLOGY')).toBe('Contemporary Amperex Technology');
+        expect(displayAssigneeName('BANK OF THE WEST')).toBe('Bank of the West');
+        expect(displayAssigneeName('THE BOEING')).toBe('The Boeing');
+    });
+
+    it('keeps short words without vowels upper case as acronyms', () => {
+        expect(displayAssigneeName('LG CHEM')).toBe('LG Chem');
+        expect(displayAssigneeName('SK ON')).toBe('SK On');
+    });
+
+    it('is empty for an empty key', () => {
+        expect(displayAssigneeName('')).toBe('');
+    });
+});
+
+describe('assigneeWordPattern', () => {
+    const matches = (terms: string[], name: string) => new RegExp(assigneeWordPattern(terms)).test(name);
+
+    it('matches names with a word starting with any term', () => {
+        expect(matches(['amperex'], 'CONTEMPORARY AMPEREX TECHNOLOGY CO LTD')).toBe(true);
+        expect(matches(['tesla', 'amp'], 'CONTEMPORARY AMPEREX TECHNOLOGY CO LTD')).toBe(true);
+        expect(matches(['perex'], 'CONTEMPORARY AMPEREX TECHNOLOGY CO LTD')).toBe(false);
+    });
+
+    it('matches multi-word terms across punctuation', () => {
+        expect(matches(['LG Chem'], 'LG-CHEM LTD')).toBe(true);
+    });
+
+    it.each([[['Co']], [['LLC']], [['&&']], [['']], [[]]])('matches nothing for legal forms or punctuation alone: %j', terms => {
+        const pattern = new RegExp(assigneeWordPattern(terms));
+        expect(['TESLA INC', 'SIEMENS GMBH AND CO KG', 'COMPANY', ''].some(name => pattern.test(name))).toBe(false);
+    });
+
+    it('ignores legal forms next to other terms', () => {
+        expect(matches(['LLC', 'tesla'], 'TESLA INC')).toBe(true);
+        expect(matches(['LLC', 'tesla'], 'GOOGLE LLC')).toBe(false);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Normalization of assignee names as they appear in patent data.
+ *
+ * Harmonized names still vary in legal form and punctuation ("GOOGLE LLC",
+ * "Google Inc.", "GOOGLE INC"). The key drops case, punctuation and trailing
+ * legal-form suffixes so such variants compare equal; the display name is the
+ * key in title case.
+ */
+
+// Legal forms, compared after punctuation is removed. Several may trail one
+// name ("CO LTD", "GMBH AND CO KG") and are all dropped. "AND" only counts
+// as part of "AND CO", so "JOHNSON AND JOHNSON" keeps its last word.
+const LEGAL_SUFFIXES = [
+    'KABUSHIKI KAISHA', 'PRIVATE LIMITED', 'AND COMPANY', 'AND CO', 'INCORPORATED', 'CORPORATION', 'COMPANY',
+    'LIMITED', 'LLC', 'LLP', 'INC', 'CORP', 'CO', 'LTD', 'PLC', 'GMBH', 'AG', 'KG', 'SE', 'SA', 'SAS',
+    'SPA', 'SRL', 'NV', 'BV', 'AB', 'AS', 'OY', 'KK', 'LP', 'PTY', 'PVT',
+];
+
+const SUFFIX_PATTERN = new RegExp(`(?:\\s+(?:${LEGAL_SUFFIXES.map(s => s.replace(/ /g, '\\s+')).join('|')}))+$`);
+
+// Regular expression source matching no string, not even the empty one
+const NO_MATCH = '[^\\s\\S]';
+
+// Kept lower case inside a display name
+const MINOR_WORDS = new Set(['AND', 'OF', 'THE', 'FOR', 'DE', 'DER', 'DES', 'DU', 'LA', 'LE', 'VAN', 'VON']);
+
+/**
+ * Comparison key of an assignee name: upper case, punctuation removed, legal
+ * form dropped. Empty for names without letters or digits.
+ */
+export const assigneeKey = (name: string): string => {
+    const words = nameWords(name);
+    // A name that is nothing but a legal form ("AG") keeps it
+    return withoutLegalForm(words) || words;
+};
+
+/**
+ * Title-cased display form of an assignee key. Words of up to three letters
+ * without vowels stay upper case as likely acronyms ("LG", "SK").
+ */
+export const displayAssigneeName = (key: string): string =>
+    key
+        .split(' ')
+        .filter(word => word.length > 0)
+        .map((word, i) => {
+            if (i > 0 && MINOR_WORDS.has(word)) {
+                return word.toLowerCase();
+            }
+            if (word.length <= 3 && !/[AEIOUY]/.test(word)) {
+                return word;
+            }
+            return word.charAt(0) + word.slice(1).toLowerCase();
+        })
+        .join(' ');
+
+/**
+ * Regular expression source matching upper-case assignee names that contain
+ * a word starting with any of the terms ("AMPEREX" matches "CONTEMPORARY
+ * AMPEREX TECHNOLOGY CO LTD"). Terms that are nothing but a legal form or
+ * punctuation ("Co", "LLC", "&&") would match almost every name and are
+ * ignored; without any other term the pattern matches nothing. Valid in both
+ * JavaScript and BigQuery (RE2).
+ */
+export const assigneeWordPattern = (terms: string[]): string => {
+    const alternatives = [...new Set(terms.map(searchKey).filter(key => key.length > 0))]
+        .map(key => key.split(' ').join('[^A-Z0-9]+'));
+    return alternatives.length > 0 ? `(?:^|[^A-Z0-9])(?:${alternatives.join('|')})` : NO_MATCH;
+};
+
+/**
+ * Upper-case words of a name, without punctuation
+ */
+const nameWords = (name: string): string =>
+    name
+        .toUpperCase()
+        .replace(/&/g, ' AND ')
+        .replace(/[.,'"()]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+
+const withoutLegalForm = (words: string): string => ` ${words}`.replace(SUFFIX_PATTERN, '').trim();
+
+/**
+ * Key of a search term without its legal form; empty when nothing but legal
+ * forms and "and" is left
+ */
+const searchKey = (term: string): string => {
+    const key = withoutLegalForm(nameWords(term));
+    return key.split(' ').every(word => word === 'AND') ? '' : key;
+};
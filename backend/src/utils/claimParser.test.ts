@@ -0,0 +1,94 @@
+import { matchClaim, parseClaims, parseLocalizedClaims } from './claimParser';
+
+const CLAIMS = [
+    'What is claimed is:',
+    '1. An anode for a lithium ion battery comprising a silicon graphite composite.',
+    '2. The anode according to claim 1, wherein the silicon content is between 2. and 5. percent by weight.',
+    '3. The anode according to claim 1 or 2, further comprising a binder.',
+    '4. A battery comprising the anode of any one of claims 1 to 3.',
+    '5. The battery of claims 2-3 and 4, wherein the cathode is NMC.',
+    '6. The battery according to any one of the preceding claims.',
+].join(' ');
+
+describe('parseClaims', () => {
+    const claims = parseClaims(CLAIMS);
+
+    it('splits claims by their numbers in sequence, after any preamble', () => {
+        expect(claims.map(claim => claim.number)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(claims[0]?.text).toBe('An anode for a lithium ion battery comprising a silicon graphite composite.');
+    });
+
+    it('keeps figures inside a claim that look like numbering', () => {
+        expect(claims[1]?.text).toBe('The anode according to claim 1, wherein the silicon content is between 2. and 5. percent by weight.');
+    });
+
+    it('links dependent claims to single, alternative and ranged references', () => {
+        expect(claims.map(claim => [claim.number, claim.type, claim.depends_on])).toEqual([
+            [1, 'independent', []],
+            [2, 'dependent', [1]],
+            [3, 'dependent', [1, 2]],
+            [4, 'dependent', [1, 2, 3]],
+            [5, 'dependent', [2, 3, 4]],
+            [6, 'dependent', [1, 2, 3, 4, 5]],
+        ]);
+    });
+
+    it('lists the dependents of every claim', () => {
+        expect(claims.map(claim => claim.dependents)).toEqual([[2, 3, 4, 6], [3, 4, 5, 6], [4, 5, 6], [5, 6], [6], []]);
+    });
+
+    it('ignores references to the claim itself or later claims', () => {
+        const [, second] = parseClaims('1. A cell. 2. The cell of claims 1 to 4, or of claim 2.');
+        expect(second?.depends_on).toEqual([1]);
+    });
+
+    it('reads German and French references', () => {
+        const german = parseClaims('1. Eine Zelle. 2. Eine Zelle. 3. Zelle nach Anspruch 1 oder 2.');
+        expect(german[2]?.depends_on).toEqual([1, 2]);
+        const french = parseClaims('1. Une cellule. 2. Cellule selon la revendication 1.');
+        expect(french[1]?.depends_on).toEqual([1]);
+    });
+
+    it('accepts numbers closed by a parenthesis', () => {
+        expect(parseClaims('1) A cell. 2) The cell of claim 1.').map(claim => claim.number)).toEqual([1, 2]);
+    });
+
+    it.each(['', 'A battery comprising an anode and a cathode.', '2. A battery. 3. The battery of claim 2.'])(
+        'returns no claims for text without numbering from 1: %j',
+        text => {
+            expect(parseClaims(text)).toEqual([]);
+        }
+    );
+});
+
+describe('parseLocalizedClaims', () => {
+    it('parses the English claims when published', () => {
+        const claims = parseLocalizedClaims([
+            { text: '1. Eine Zelle.', language: 'de' },
+            { text: '1. A cell. 2. The cell of claim 1.', language: 'en' },
+        ]);
+        expect(claims.map(claim => claim.text)).toEqual(['A cell.', 'The cell of claim 1.']);
+    });
+
+    it('returns no claims without claims text', () => {
+        expect(parseLocalizedClaims(undefined)).toEqual([]);
+        expect(parseLocalizedClaims([])).toEqual([]);
+    });
+});
+
+describe('matchClaim', () => {
+    const claims = parseClaims(CLAIMS);
+
+    it('picks the claim containing the most query terms', () => {
+        expect(matchClaim(claims, ['binder', 'anode'])).toMatchObject({ number: 3, score: 1 });
+    });
+
+    it('prefers independent claims on ties', () => {
+        expect(matchClaim(claims, ['silicon'])).toMatchObject({ number: 1, score: 1 });
+    });
+
+    it('is undefined without terms or matches', () => {
+        expect(matchClaim(claims, [])).toBeUndefined();
+        expect(matchClaim(claims, ['electrolyte'])).toBeUndefined();
+    });
+});
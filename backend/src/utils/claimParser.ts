@@ -0,0 +1,114 @@
+/**
+ * Split a publication's claims text into numbered claims and link each
+ * dependent claim to the claims it refers back to.
+ *
+ * Claims arrive as one block of text ("1. A battery ... 2. The battery of
+ * claim 1, wherein ..."), optionally after a preamble such as "What is
+ * claimed is:". Numbering is only accepted in sequence, so figures like
+ * "between 2. and 5." inside a claim do not start a new one.
+ */
+
+import { LocalizedText, MatchedClaim, PatentClaim } from '@/types/patent';
+import { pickLocalized } from './languages';
+
+// A claim number followed by "." or ")" and the start of the claim text
+const CLAIM_NUMBER = /(?<=^|[\s.;:])(\d{1,3})\s*[.)]\s*(?=[^\d\s.,;)])/g;
+
+// "claim 3", "claims 1 or 2", "any one of claims 1 to 4", "claims 1-3 and 5"
+const CLAIM_REFERENCE = /\b(?:claims?|anspr(?:uch|üche)|revendications?)\s+(\d+(?:\s*(?:-|–|to|through|bis|à|or|and|oder|und|ou|et|,)\s*(?:claims?\s+)?\d+)*)/gi;
+
+// "any preceding claim", "any one of the preceding claims"
+const PRECEDING_CLAIMS = /\bany(?:\s+one)?(?:\s+of)?(?:\s+the)?\s+(?:preceding|previous|foregoing)\s+claims?\b/i;
+
+/**
+ * Parse a claims text into numbered claims. Returns an empty list when the
+ * text is not numbered.
+ */
+export const parseClaims = (text: string): PatentClaim[] => {
+    const starts: Array<{ number: number; index: number; textStart: number }> = [];
+
+    for (const match of text.matchAll(CLAIM_NUMBER)) {
+        const number = Number(match[1]);
+        if (number === starts.length + 1) {
+            starts.push({ number, index: match.index ?? 0, textStart: (match.index ?? 0) + match[0].length });
+        }
+    }
+
+    const claims: PatentClaim[] = starts.map((start, i) => {
+        const end = starts[i + 1]?.index ?? text.length;
+        const claimText = text.slice(start.textStart, end).replace(/\s+/g, ' ').trim();
+        const dependsOn = claimReferences(claimText, start.number);
+
+        return {
+            number: start.number,
+            text: claimText,
+            type: dependsOn.length > 0 ? 'dependent' : 'independent',
+            depends_on: dependsOn,
+            dependents: [],
+        };
+    });
+
+    for (const claim of claims) {
+        for (const parent of claim.depends_on) {
+            claims[parent - 1]?.dependents.push(claim.number);
+        }
+    }
+
+    return claims;
+};
+
+/**
+ * Parse the English claims, or the first language published when there is
+ * no English text
+ */
+export const parseLocalizedClaims = (claims?: LocalizedText[]): PatentClaim[] => {
+    const preferred = pickLocalized(claims);
+    return preferred ? parseClaims(preferred.text) : [];
+};
+
+/**
+ * Pick the claim containing the most query terms, preferring independent
+ * claims on ties. Undefined when no claim contains any of them.
+ */
+export const matchClaim = (claims: PatentClaim[], terms: string[]): MatchedClaim | undefined => {
+    if (terms.length === 0) {
+        return undefined;
+    }
+
+    let best: { claim: PatentClaim; matched: number } | undefined;
+    for (const claim of claims) {
+        const lower = claim.text.toLowerCase();
+        const matched = terms.filter(term => lower.includes(term)).length;
+        if (matched > 0 && (!best || matched > best.matched ||
+            (matched === best.matched && claim.type === 'independent' && best.claim.type === 'dependent'))) {
+            best = { claim, matched };
+        }
+    }
+
+    return best && { number: best.claim.number, text: best.claim.text, score: best.matched / terms.length };
+};
+
+/**
+ * Earlier claims referenced by the claim numbered `number`
+ */
+const claimReferences = (text: string, number: number): number[] => {
+    const referenced = new Set<number>();
+
+    if (PRECEDING_CLAIMS.test(text)) {
+        for (let n = 1; n < number; n++) {
+            referenced.add(n);
+        }
+    }
+
+    for (const match of text.matchAll(CLAIM_REFERENCE)) {
+        for (const part of (match[1] as string).matchAll(/(\d+)(?:\s*(?:-|–|to|through|bis|à)\s*(\d+))?/g)) {
+            const from = Number(part[1]);
+            const to = part[2] ? Number(part[2]) : from;
+            for (let n = from; n <= Math.min(to, number - 1); n++) {
+                referenced.add(n);
+            }
+        }
+    }
+
+    return Array.from(referenced).filter(n => n >= 1 && n < number).sort((a, b) => a - b);
+};
@@ -0,0 +1,56 @@
+import { isIsoDate, toDateNumber, toIsoDate, yearOf } from './dates';
+
+describe('isIsoDate', () => {
+    it.each(['2021-03-15', '2020-02-29', '1999-12-31'])('accepts %s', value => {
+        expect(isIsoDate(value)).toBe(true);
+    });
+
+    it.each([
+        '', '2021', '2021-03', '20210315', '2021-3-15', '2021/03/15', '15-03-2021',
+        '2021-02-29', '2021-13-01', '2021-04-31', '2021-00-10', '2021-03-15T00:00:00Z', ' 2021-03-15',
+    ])('rejects %j', value => {
+        expect(isIsoDate(value)).toBe(false);
+    });
+});
+
+describe('toIsoDate', () => {
+    it('converts stored YYYYMMDD numbers and strings', () => {
+        expect(toIsoDate(20210315)).toBe('2021-03-15');
+        expect(toIsoDate('20200229')).toBe('2020-02-29');
+        expect(toIsoDate(' 20210315 ')).toBe('2021-03-15');
+    });
+
+    it('passes ISO dates through', () => {
+        expect(toIsoDate('2021-03-15')).toBe('2021-03-15');
+    });
+
+    it.each([0, '0', null, undefined, '', 2021, 202103, '2021-03', 20210230, 20211301, 1234567, 'not a date'])(
+        'is undefined for unknown or malformed %j',
+        value => {
+            expect(toIsoDate(value)).toBeUndefined();
+        }
+    );
+});
+
+describe('toDateNumber', () => {
+    it('converts ISO dates to the stored YYYYMMDD form', () => {
+        expect(toDateNumber('2021-03-15')).toBe(20210315);
+        expect(toDateNumber('2020-01-01')).toBe(20200101);
+    });
+
+    it('round-trips with toIsoDate', () => {
+        expect(toIsoDate(toDateNumber('2024-02-29'))).toBe('2024-02-29');
+    });
+
+    it.each(['', '2021', '2021-03', '20210315', '2021-02-30', 'today'])('is NaN for partial or invalid %j', value => {
+        expect(toDateNumber(value)).toBeNaN();
+    });
+});
+
+describe('yearOf', () => {
+    it('reads the year of valid dates only', () => {
+        expect(yearOf('2021-03-15')).toBe(2021);
+        expect(yearOf('2021')).toBeUndefined();
+        expect(yearOf('')).toBeUndefined();
+    });
+});
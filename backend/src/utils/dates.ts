@@ -0,0 +1,60 @@
+/**
+ * Dates between the patents dataset and the API.
+ *
+ * The dataset stores dates as INT64 YYYYMMDD numbers (20210315), with 0 for
+ * unknown dates. The API speaks ISO 8601 calendar dates ("2021-03-15") in
+ * both directions: results carry them, and date filters take them. Queries
+ * convert filter dates with `toDateNumber`; results convert stored dates with
+ * `toIsoDate`.
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_NUMBER = /^(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * Whether `value` is a real calendar date written as YYYY-MM-DD
+ */
+export const isIsoDate = (value: string): boolean => {
+    const match = ISO_DATE.exec(value);
+    if (!match) {
+        return false;
+    }
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return date.getUTCFullYear() === Number(match[1]) &&
+        date.getUTCMonth() === Number(match[2]) - 1 &&
+        date.getUTCDate() === Number(match[3]);
+};
+
+/**
+ * ISO date of a stored YYYYMMDD date (number or string) or an ISO date.
+ * Undefined for unknown (0) and malformed dates.
+ */
+export const toIsoDate = (value: number | string | null | undefined): string | undefined => {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    const text = String(value).trim();
+    const match = DATE_NUMBER.exec(text);
+    const iso = match ? `${match[1]}-${match[2]}-${match[3]}` : text;
+    return isIsoDate(iso) ? iso : undefined;
+};
+
+/**
+ * Stored YYYYMMDD form of an ISO date, for comparing against the dataset.
+ * NaN for anything but a real YYYY-MM-DD date, so a partial date such as
+ * "2021" never turns into the number 2021.
+ */
+export const toDateNumber = (isoDate: string): number =>
+    isIsoDate(isoDate) ? parseInt(isoDate.replace(/-/g, ''), 10) : NaN;
+
+/**
+ * Keyword, classification and assignee name searches cover publications from
+ * this date on, in every patent repository
+ */
+export const EARLIEST_PUBLICATION_DATE = toDateNumber('2020-01-01');
+
+/**
+ * Year of an ISO date; undefined when the date is empty or malformed
+ */
+export const yearOf = (isoDate: string): number | undefined =>
+    isIsoDate(isoDate) ? Number(isoDate.slice(0, 4)) : undefined;
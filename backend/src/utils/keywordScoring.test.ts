@@ -0,0 +1,52 @@
+import { bm25Idf, FIELD_BOOSTS, scoreDocuments } from './keywordScoring';
+
+describe('bm25Idf', () => {
+    it('is higher for rarer terms and never negative', () => {
+        expect(bm25Idf(100, 1)).toBeGreaterThan(bm25Idf(100, 10));
+        expect(bm25Idf(100, 100)).toBeGreaterThan(0);
+        expect(bm25Idf(100, 100)).toBeCloseTo(Math.log(1 + 0.5 / 100.5), 12);
+    });
+});
+
+describe('scoreDocuments', () => {
+    const corpus = [
+        { title: 'Silicon anode', abstract: 'An anode for a lithium battery.' },
+        { title: 'Battery pack', abstract: 'A pack of cells with a silicon anode coating.' },
+        { title: 'Cooling plate', abstract: 'A plate for cooling a battery pack.' },
+    ];
+
+    it('scores only documents containing a term and lists the terms matched', () => {
+        const scores = scoreDocuments(['silicon', 'anode'], corpus);
+        expect(scores.map(doc => doc.matchedTerms)).toEqual([['silicon', 'anode'], ['silicon', 'anode'], []]);
+        expect(scores[2]?.score).toBe(0);
+    });
+
+    it('ranks title hits above abstract hits by the title boost', () => {
+        const [titleHit, abstractHit] = scoreDocuments(['silicon'], corpus);
+        expect(FIELD_BOOSTS.title).toBeGreaterThan(FIELD_BOOSTS.abstract);
+        expect(titleHit?.score).toBeGreaterThan(abstractHit?.score ?? Infinity);
+    });
+
+    it('weights rarer terms higher', () => {
+        const [lithium] = scoreDocuments(['lithium'], corpus);
+        const [battery] = scoreDocuments(['battery'], corpus);
+        expect(lithium?.score).toBeGreaterThan(battery?.score ?? Infinity);
+    });
+
+    it('saturates repeated occurrences of a term', () => {
+        const [once, twice, often] = scoreDocuments(['anode'], [
+            { abstract: 'anode cell' },
+            { abstract: 'anode anode' },
+            { abstract: 'anode anode anode anode anode anode anode anode' },
+            { abstract: 'cathode' },
+        ]);
+        expect(twice?.score).toBeGreaterThan(once?.score ?? Infinity);
+        expect((often?.score ?? 0) - (twice?.score ?? 0)).toBeLessThan((twice?.score ?? 0) - (once?.score ?? 0));
+    });
+
+    it('only reads the given fields, ignoring case', () => {
+        const claims = [{ title: 'Anode', claims: 'A CATHODE comprising nickel.' }, { title: 'Cathode' }];
+        expect(scoreDocuments(['cathode'], claims, ['claims']).map(doc => doc.matchedTerms)).toEqual([['cathode'], []]);
+        expect(scoreDocuments(['anode'], claims, ['claims'])[0]?.score).toBe(0);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * BM25F keyword relevance shared by the BigQuery SQL builder and the local
+ * repository, so both backends rank keyword hits the same way.
+ */
+
+import { SearchScope } from '@/types/patent';
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+// Title hits are stronger evidence of topic than abstract or claim hits
+export const FIELD_BOOSTS = {
+    title: 3.0,
+    abstract: 1.0,
+    claims: 1.0,
+} as const;
+
+export type ScoredField = keyof typeof FIELD_BOOSTS;
+
+/**
+ * Text fields a search scope matches and scores
+ */
+export const SCOPE_FIELDS: Record<SearchScope, ScoredField[]> = {
+    abstract: ['title', 'abstract'],
+    claims: ['claims'],
+    full: ['title', 'abstract', 'claims'],
+};
+
+export interface ScoredDocument {
+    score: number;
+    matchedTerms: string[];
+}
+
+type FieldText = Partial<Record<ScoredField, string>>;
+
+/**
+ * Probabilistic IDF with the +1 smoothing used by Lucene, never negative
+ */
+export const bm25Idf = (documentCount: number, documentFrequency: number): number =>
+    Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+/**
+ * Score documents against terms with BM25F over the given fields, taking IDF
+ * and average field lengths from the given corpus
+ */
+export const scoreDocuments = (
+    terms: string[],
+    corpus: FieldText[],
+    fields: ScoredField[] = SCOPE_FIELDS.abstract
+): ScoredDocument[] => {
+    const texts = corpus.map(doc => fields.map(field => (doc[field] || '').toLowerCase()));
+    const lengths = texts.map(doc => doc.map(wordCount));
+
+    const average = (values: number[]) => Math.max(values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1), 1);
+    const avgLengths = fields.map((_, f) => average(lengths.map(l => l[f] as number)));
+
+    const idf = new Map(terms.map(term => {
+        const df = texts.filter(doc => doc.some(text => text.includes(term))).length;
+        return [term, bm25Idf(texts.length, df)];
+    }));
+
+    return texts.map((doc, i) => {
+        const length = lengths[i] as number[];
+        let score = 0;
+        const matchedTerms: string[] = [];
+
+        for (const term of terms) {
+            const tf = doc.map(text => countOccurrences(text, term));
+            if (tf.every(count => count === 0)) {
+                continue;
+            }
+
+            matchedTerms.push(term);
+            const weightedTf = fields.reduce((sum, field, f) =>
+                sum + FIELD_BOOSTS[field] * (tf[f] as number) / (1 - BM25_B + BM25_B * (length[f] as number) / (avgLengths[f] as number)), 0);
+            score += (idf.get(term) ?? 0) * weightedTf / (BM25_K1 + weightedTf);
+        }
+
+        return { score, matchedTerms };
+    });
+};
+
+const wordCount = (text: string): number => text.split(' ').filter(word => word.length > 0).length;
+
+const countOccurrences = (text: string, term: string): number => {
+    let count = 0;
+    let index = text.indexOf(term);
+    while (index !== -1) {
+        count++;
+        index = text.indexOf(term, index + term.length);
+    }
+    return count;
+};
@@ -0,0 +1,71 @@
+import { PatentResult } from '@/types/patent';
+import { languagesOf, localizeResult, normalizeLanguage, pickLocalized } from './languages';
+
+const VARIANTS = [
+    { text: 'Batterieanode', language: 'de' },
+    { text: 'Anode de batterie', language: 'fr' },
+    { text: 'Battery anode', language: 'en' },
+];
+
+describe('normalizeLanguage', () => {
+    it.each([['en-US', 'en'], ['pt_BR', 'pt'], [' DE ', 'de'], ['zh', 'zh'], ['', '']])('reduces %j to %j', (tag, code) => {
+        expect(normalizeLanguage(tag)).toBe(code);
+    });
+});
+
+describe('pickLocalized', () => {
+    it('picks the first preferred language available', () => {
+        expect(pickLocalized(VARIANTS, ['ja', 'fr', 'de'])?.text).toBe('Anode de batterie');
+    });
+
+    it('matches regional and differently cased tags', () => {
+        expect(pickLocalized(VARIANTS, ['FR-ca'])?.text).toBe('Anode de batterie');
+        expect(pickLocalized([{ text: 'Battery anode', language: 'EN' }], ['en-GB'])?.text).toBe('Battery anode');
+    });
+
+    it('falls back to English when no preferred language is available', () => {
+        expect(pickLocalized(VARIANTS, ['ja'])?.text).toBe('Battery anode');
+        expect(pickLocalized(VARIANTS)?.text).toBe('Battery anode');
+    });
+
+    it('falls back to the first variant without English', () => {
+        expect(pickLocalized(VARIANTS.slice(0, 2), ['ja'])?.text).toBe('Batterieanode');
+    });
+
+    it('is undefined without variants', () => {
+        expect(pickLocalized(undefined)).toBeUndefined();
+        expect(pickLocalized([], ['de'])).toBeUndefined();
+    });
+});
+
+describe('localizeResult', () => {
+    const result = {
+        patent_id: 'EP-3900001-A1',
+        title: 'Battery anode',
+        abstract: 'A silicon anode.',
+        titles: VARIANTS,
+        abstracts: [{ text: 'Eine Siliziumanode.', language: 'de' }, { text: 'A silicon anode.', language: 'en' }],
+    } as PatentResult;
+
+    it('re-picks the title and abstract in the preferred languages', () => {
+        const localized = localizeResult(result, ['de']);
+        expect([localized.title, localized.abstract]).toEqual(['Batterieanode', 'Eine Siliziumanode.']);
+    });
+
+    it('picks each field on its own', () => {
+        const localized = localizeResult(result, ['fr']);
+        expect([localized.title, localized.abstract]).toEqual(['Anode de batterie', 'A silicon anode.']);
+    });
+
+    it('keeps the result without preferred languages', () => {
+        expect(localizeResult(result)).toBe(result);
+        expect(localizeResult(result, [])).toBe(result);
+    });
+});
+
+describe('languagesOf', () => {
+    it('lists the languages of every array once, in first-seen order', () => {
+        expect(languagesOf(VARIANTS, undefined, [{ text: 'Anode', language: 'en' }, { text: '负极', language: 'zh' }]))
+            .toEqual(['de', 'fr', 'en', 'zh']);
+    });
+});
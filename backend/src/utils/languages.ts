@@ -0,0 +1,62 @@
+/**
+ * Language selection for the localized text arrays of a publication
+ * (`title_localized`, `abstract_localized`, ...), which list variants in no
+ * particular order.
+ */
+
+import { LocalizedText, PatentResult } from '@/types/patent';
+
+export const DEFAULT_LANGUAGES = ['en'];
+
+/**
+ * Reduce a language tag to the two-letter code used by the dataset
+ * ("en-US" -> "en")
+ */
+export const normalizeLanguage = (language: string): string =>
+    language.trim().toLowerCase().split(/[-_]/)[0] || '';
+
+/**
+ * Pick the variant in the first preferred language available, falling back
+ * to English and then to the first variant listed
+ */
+export const pickLocalized = <T extends { language: string }>(
+    variants: T[] | undefined,
+    preferredLanguages: string[] = DEFAULT_LANGUAGES
+): T | undefined => {
+    if (!variants || variants.length === 0) {
+        return undefined;
+    }
+
+    for (const language of [...preferredLanguages.map(normalizeLanguage), ...DEFAULT_LANGUAGES]) {
+        const match = variants.find(variant => normalizeLanguage(variant.language) === language);
+        if (match) {
+            return match;
+        }
+    }
+
+    return variants[0];
+};
+
+/**
+ * Re-pick a result's title and abstract from its localized variants
+ */
+export const localizeResult = <T extends PatentResult>(result: T, preferredLanguages?: string[]): T => {
+    if (!preferredLanguages || preferredLanguages.length === 0) {
+        return result;
+    }
+
+    const title = pickLocalized(result.titles, preferredLanguages);
+    const abstract = pickLocalized(result.abstracts, preferredLanguages);
+
+    return {
+        ...result,
+        ...(title && { title: title.text }),
+        ...(abstract && { abstract: abstract.text }),
+    };
+};
+
+/**
+ * Languages present in any of the given localized arrays, in first-seen order
+ */
+export const languagesOf = (...arrays: Array<LocalizedText[] | undefined>): string[] =>
+    [...new Set(arrays.flatMap(array => (array || []).map(variant => variant.language)))];
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+
+/**
+ * Opaque search cursors.
+ *
+ * A cursor records how many results were already returned and the id of the
+ * last one. The next page resumes right after that id in the recomputed
+ * ranking, so results that shift slightly between requests are neither
+ * repeated nor skipped; the offset is only a fallback when the id is gone.
+ */
+
+interface CursorPayload {
+    /** Fingerprint of the search the cursor belongs to */
+    f: string;
+    /** Results returned so far */
+    o: number;
+    /** Id of the last result returned */
+    id: string;
+}
+
+export interface PagePosition {
+    offset: number;
+    lastId?: string;
+}
+
+/**
+ * Raised for cursors that are malformed or belong to a different search
+ */
+export class CursorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CursorError';
+    }
+}
+
+/**
+ * Stable fingerprint of everything that determines a search's ranking
+ */
+export const searchFingerprint = (search: unknown): string =>
+    crypto.createHash('sha1').update(JSON.stringify(search)).digest('hex').substring(0, 16);
+
+export const encodeCursor = (fingerprint: string, offset: number, lastId: string): string => {
+    const payload: CursorPayload = { f: fingerprint, o: offset, id: lastId };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode a cursor, checking that it was issued for the same search
+ */
+export const decodeCursor = (cursor: string | undefined, fingerprint: string): PagePosition => {
+    if (!cursor) {
+        return { offset: 0 };
+    }
+
+    let payload: Partial<CursorPayload>;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new CursorError('Invalid cursor');
+    }
+
+    if (typeof payload.o !== 'number' || !Number.isInteger(payload.o) || payload.o < 0 || typeof payload.id !== 'string') {
+        throw new CursorError('Invalid cursor');
+    }
+    if (payload.f !== fingerprint) {
+        throw new CursorError('Cursor does not belong to this search; start again without a cursor');
+    }
+
+    return { offset: payload.o, lastId: payload.id };
+};
+
+/**
+ * Slice the page that follows a position out of a full ranking
+ */
+export const pageAfter = <T extends { patent_id: string }>(
+    ranked: T[],
+    position: PagePosition,
+    pageSize: number
+): { page: T[]; start: number } => {
+    let start = position.offset;
+
+    if (position.lastId) {
+        const index = ranked.findIndex(item => item.patent_id === position.lastId);
+        if (index !== -1) {
+            start = index + 1;
+        }
+    }
+
+    return { page: ranked.slice(start, start + pageSize), start };
+};
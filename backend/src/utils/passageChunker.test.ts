@@ -0,0 +1,136 @@
+import { PatentClaim } from '@/types/patent';
+import { abstractSection, bestPassage, chunkPatent, chunkText, highlightTerms } from './passageChunker';
+
+const WINDOW = { windowWords: 4, overlapWords: 1 };
+
+const claim = (number: number, text: string): PatentClaim => ({
+    number,
+    text,
+    type: 'independent',
+    depends_on: [],
+    dependents: [],
+});
+
+describe('chunkText', () => {
+    const text = 'one two  three four\nfive six seven eight nine';
+
+    it('cuts windows of whole words that overlap by the given number of words', () => {
+        expect(chunkText(text, WINDOW).map(chunk => chunk.text)).toEqual([
+            'one two  three four',
+            'four\nfive six seven',
+            'seven eight nine',
+        ]);
+    });
+
+    it('gives each chunk its character offsets within the text', () => {
+        for (const chunk of chunkText(text, WINDOW)) {
+            expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+        }
+        expect(chunkText(`  ${text}  `, WINDOW)[0]).toEqual({ text: 'one two  three four', start: 2, end: 21 });
+    });
+
+    it('stops at the window that reaches the last word', () => {
+        expect(chunkText('one two three four five', WINDOW).map(chunk => chunk.text)).toEqual([
+            'one two three four',
+            'four five',
+        ]);
+        expect(chunkText('one two three four', WINDOW).map(chunk => chunk.text)).toEqual(['one two three four']);
+    });
+
+    it('advances by at least one word when the overlap fills the window', () => {
+        expect(chunkText('a b c', { windowWords: 2, overlapWords: 2 }).map(chunk => chunk.text)).toEqual(['a b', 'b c']);
+    });
+
+    it.each(['', '   ', '\n\t'])('returns no chunks for empty text %j', text => {
+        expect(chunkText(text, WINDOW)).toEqual([]);
+    });
+});
+
+describe('chunkPatent', () => {
+    const patent = {
+        title: 'Battery anode',
+        abstract: 'A silicon anode',
+        claims: [claim(1, 'An anode comprising silicon and graphite.'), claim(2, '')],
+        description: 'The anode is coated.',
+    };
+
+    it('chunks the abstract, each claim and the description as separate sections', () => {
+        expect(chunkPatent(patent, WINDOW).map(passage => [passage.key, passage.text])).toEqual([
+            ['abstract-0', 'Battery anode\nA silicon'],
+            ['abstract-1', 'silicon anode'],
+            ['claim-1-0', 'An anode comprising silicon'],
+            ['claim-1-1', 'silicon and graphite.'],
+            ['description-0', 'The anode is coated.'],
+        ]);
+    });
+
+    it('numbers claim passages by their claim and offsets them within the claim', () => {
+        const passages = chunkPatent(patent, WINDOW).filter(passage => passage.section === 'claim');
+        expect(passages.every(passage => passage.claim_number === 1)).toBe(true);
+        expect(passages.map(passage => patent.claims[0]?.text.slice(passage.start, passage.end))).toEqual(passages.map(passage => passage.text));
+    });
+
+    it('chunks the title and abstract once per published language', () => {
+        const passages = chunkPatent({
+            ...patent,
+            titles: [{ text: 'Batterieanode', language: 'de' }, { text: 'Battery anode', language: 'en' }],
+            abstracts: [{ text: 'Eine Siliziumanode', language: 'de' }],
+            claims: [],
+            description: '',
+        }, WINDOW);
+
+        expect(passages.map(passage => [passage.key, passage.language, passage.text])).toEqual([
+            ['abstract-de-0', 'de', 'Batterieanode\nEine Siliziumanode'],
+            ['abstract-en-0', 'en', 'Battery anode'],
+        ]);
+    });
+
+    it('leaves out empty sections', () => {
+        expect(chunkPatent({ title: '', abstract: '', claims: [claim(1, '  ')], description: '' }, WINDOW)).toEqual([]);
+    });
+});
+
+describe('abstractSection', () => {
+    it('puts the title on its own line before the abstract', () => {
+        expect(abstractSection({ title: 'Battery', abstract: 'An anode.' })).toBe('Battery\nAn anode.');
+        expect(abstractSection({ title: '', abstract: 'An anode.' })).toBe('An anode.');
+    });
+});
+
+describe('highlightTerms', () => {
+    const text = 'Anodes and the anode-cathode pair; nanode is not an anode.';
+
+    it('locates terms at word starts, extended to the end of the word', () => {
+        const spans = highlightTerms(text, ['anode']);
+        expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['Anodes', 'anode-cathode', 'anode']);
+        expect(spans[0]).toEqual({ start: 0, end: 6 });
+    });
+
+    it('treats terms as literal text', () => {
+        expect(highlightTerms('costs (c.f. 2+2) rise', ['(c.f.', '2+2'])).toEqual([
+            { start: 6, end: 11 },
+            { start: 12, end: 15 },
+        ]);
+    });
+
+    it('finds nothing without terms', () => {
+        expect(highlightTerms(text, [])).toEqual([]);
+        expect(highlightTerms(text, [''])).toEqual([]);
+    });
+});
+
+describe('bestPassage', () => {
+    const text = 'silicon anode layer with graphite binder and silicon silicon coating';
+
+    it('picks the window with the most term occurrences and locates them in it', () => {
+        const passage = bestPassage(text, ['silicon'], 'description', WINDOW);
+        expect(passage).toMatchObject({ section: 'description', text: 'and silicon silicon coating', score: 2 });
+        expect(passage && text.slice(passage.start, passage.end)).toBe(passage?.text);
+        expect(passage?.highlights.map(span => passage.text.slice(span.start, span.end))).toEqual(['silicon', 'silicon']);
+    });
+
+    it('is undefined when no term occurs or the text is empty', () => {
+        expect(bestPassage(text, ['cathode'], 'description', WINDOW)).toBeUndefined();
+        expect(bestPassage('', ['silicon'], 'description', WINDOW)).toBeUndefined();
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Split publications into overlapping word windows for passage-level
+ * indexing, and locate query terms inside a passage for highlighting.
+ *
+ * Sections are chunked independently so no passage straddles the abstract
+ * and the claims: the title and abstract form one section per published
+ * language, every claim is its own section, and the description is the last.
+ */
+
+import { LocalizedText, MatchedPassage, PassageSection, PatentClaim, TextSpan } from '@/types/patent';
+import { languagesOf, normalizeLanguage } from './languages';
+
+export interface ChunkOptions {
+    windowWords: number;
+    overlapWords: number;
+}
+
+export interface TextChunk {
+    text: string;
+    /** Character offsets of the chunk within the chunked text */
+    start: number;
+    end: number;
+}
+
+export interface Passage extends TextChunk {
+    section: PassageSection;
+    /** Suffix of the passage's vector ID, unique within the publication */
+    key: string;
+    claim_number?: number;
+    language?: string;
+}
+
+/**
+ * Cut text into windows of `windowWords` words, each starting
+ * `windowWords - overlapWords` words after the previous one
+ */
+export const chunkText = (text: string, options: ChunkOptions): TextChunk[] => {
+    const words = Array.from(text.matchAll(/\S+/g), match => ({
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+    }));
+    const step = Math.max(options.windowWords - options.overlapWords, 1);
+    const chunks: TextChunk[] = [];
+
+    for (let first = 0; first < words.length; first += step) {
+        const last = Math.min(first + options.windowWords, words.length) - 1;
+        const start = (words[first] as TextSpan).start;
+        const end = (words[last] as TextSpan).end;
+        chunks.push({ text: text.slice(start, end), start, end });
+
+        if (last === words.length - 1) {
+            break;
+        }
+    }
+
+    return chunks;
+};
+
+/**
+ * Chunk every section of a publication into passages. The title and abstract
+ * are chunked once per language in `titles`/`abstracts`, so a query in one
+ * language can match the abstract published in another.
+ */
+export const chunkPatent = (
+    patent: {
+        title: string;
+        abstract: string;
+        titles?: LocalizedText[];
+        abstracts?: LocalizedText[];
+        claims: PatentClaim[];
+        description: string;
+    },
+    options: ChunkOptions
+): Passage[] => {
+    const languages = languagesOf(patent.titles, patent.abstracts);
+    const abstract = languages.length === 0
+        ? chunkText(abstractSection(patent), options)
+            .map((chunk, i) => ({ ...chunk, section: 'abstract' as const, key: `abstract-${i}` }))
+        : languages.flatMap(language => {
+            const code = normalizeLanguage(language);
+            const section = abstractSection({
+                title: patent.titles?.find(t => t.language === language)?.text || '',
+                abstract: patent.abstracts?.find(a => a.language === language)?.text || '',
+            });
+            return chunkText(section, options)
+                .map((chunk, i) => ({ ...chunk, section: 'abstract' as const, key: `abstract-${code}-${i}`, language: code }));
+        });
+
+    const claims = patent.claims.flatMap(claim => chunkText(claim.text, options)
+        .map((chunk, i) => ({ ...chunk, section: 'claim' as const, key: `claim-${claim.number}-${i}`, claim_number: claim.number })));
+
+    const description = chunkText(patent.description, options)
+        .map((chunk, i) => ({ ...chunk, section: 'description' as const, key: `description-${i}` }));
+
+    return [...abstract, ...claims, ...description];
+};
+
+/**
+ * Text of the abstract section: the title on its own line, then the abstract
+ */
+export const abstractSection = (patent: { title: string; abstract: string }): string =>
+    `${patent.title}\n${patent.abstract}`.trim();
+
+/**
+ * Occurrences of the given lowercase terms in text, each extended to the end
+ * of the word it starts ("anode" highlights "anodes"), in reading order
+ */
+export const highlightTerms = (text: string, terms: string[]): TextSpan[] => {
+    const escaped = terms
+        .filter(term => term.length > 0)
+        .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (escaped.length === 0) {
+        return [];
+    }
+
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}-]*`, 'giu');
+    return Array.from(text.matchAll(pattern), match => ({
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+    }));
+};
+
+/**
+ * The window of `text` holding the most term occurrences, for results that
+ * were not matched through a passage vector. Undefined when no term occurs.
+ */
+export const bestPassage = (
+    text: string,
+    terms: string[],
+    section: PassageSection,
+    options: ChunkOptions
+): MatchedPassage | undefined => {
+    let best: MatchedPassage | undefined;
+
+    for (const chunk of chunkText(text, options)) {
+        const highlights = highlightTerms(chunk.text, terms);
+        if (highlights.length > 0 && (!best || highlights.length > best.highlights.length)) {
+            best = { section, ...chunk, score: highlights.length, highlights };
+        }
+    }
+
+    return best;
+};
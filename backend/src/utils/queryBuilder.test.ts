@@ -0,0 +1,52 @@
+import { QueryParameters, clampLimit, containsPattern, escapeLikePattern, prefixPattern } from './queryBuilder';
+
+describe('QueryParameters', () => {
+    it('hands back placeholders and keeps values out of the statement', () => {
+        const params = new QueryParameters();
+        const name = params.scalar('name', "'; DROP TABLE publications; --", 'STRING');
+        const ids = params.array('ids', ['US-1-A', 'O\'Reilly "quoted"'], 'STRING');
+        const first = params.indexed('term', 'back\\slash\\', 'STRING');
+        const second = params.indexed('term', '100%_done', 'STRING');
+
+        const built = params.build(`SELECT 1 WHERE a = ${name} AND b IN UNNEST(${ids}) AND c IN (${first}, ${second})`);
+
+        expect(built).toMatchSnapshot();
+        expect(built.query).not.toContain('DROP');
+        expect(built.query).not.toContain('Reilly');
+    });
+
+    it('rejects parameter names that are not identifiers', () => {
+        const params = new QueryParameters();
+        expect(() => params.scalar('x; DROP', 1, 'INT64')).toThrow('Invalid query parameter name');
+        expect(() => params.scalar('1x', 1, 'INT64')).toThrow('Invalid query parameter name');
+    });
+
+    it('rejects duplicate parameter names', () => {
+        const params = new QueryParameters();
+        params.scalar('limit', 1, 'INT64');
+        expect(() => params.array('limit', [2], 'INT64')).toThrow('Duplicate query parameter: limit');
+    });
+});
+
+describe('LIKE patterns', () => {
+    it('escapes backslashes and wildcards', () => {
+        expect(escapeLikePattern('100%_done\\')).toBe('100\\%\\_done\\\\');
+        expect(escapeLikePattern("O'Reilly")).toBe("O'Reilly");
+    });
+
+    it('builds contains and prefix patterns around the escaped text', () => {
+        expect(containsPattern('Lithium_%ION')).toBe('%lithium\\_\\%ion%');
+        expect(prefixPattern('H01M_')).toBe('H01M\\_%');
+    });
+});
+
+describe('clampLimit', () => {
+    it('keeps limits between 1 and the maximum', () => {
+        expect(clampLimit(50, 100)).toBe(50);
+        expect(clampLimit(500, 100)).toBe(100);
+        expect(clampLimit(0, 100)).toBe(1);
+        expect(clampLimit(-3, 100)).toBe(1);
+        expect(clampLimit(7.9, 100)).toBe(7);
+        expect(clampLimit(NaN, 100)).toBe(100);
+    });
+});
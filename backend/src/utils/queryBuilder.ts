@@ -0,0 +1,105 @@
+/**
+ * Small typed layer for building BigQuery SQL with named parameters.
+ *
+ * Builders never splice user input into SQL text. Instead every value is
+ * registered on a QueryParameters collector, which hands back the `@name`
+ * placeholder to embed in the statement.
+ */
+
+export type QueryParameterType = 'STRING' | 'INT64' | 'FLOAT64' | 'BOOL' | 'DATE';
+
+export type QueryParameterValue = string | number | boolean | string[] | number[];
+
+export interface ParameterizedQuery {
+    query: string;
+    params: Record<string, QueryParameterValue>;
+    types: Record<string, QueryParameterType | QueryParameterType[]>;
+}
+
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class QueryParameters {
+    private readonly params: Record<string, QueryParameterValue> = {};
+    private readonly types: Record<string, QueryParameterType | QueryParameterType[]> = {};
+    private readonly counters = new Map<string, number>();
+
+    /**
+     * Register a scalar parameter under an exact name
+     */
+    scalar(name: string, value: string | number | boolean, type: QueryParameterType): string {
+        this.register(name, value, type);
+        return `@${name}`;
+    }
+
+    /**
+     * Register an ARRAY<type> parameter under an exact name
+     */
+    array(name: string, values: string[] | number[], type: QueryParameterType): string {
+        this.register(name, values, [type]);
+        return `@${name}`;
+    }
+
+    /**
+     * Register a scalar parameter with an auto-numbered name (prefix0, prefix1, ...)
+     */
+    indexed(prefix: string, value: string | number | boolean, type: QueryParameterType): string {
+        const next = this.counters.get(prefix) ?? 0;
+        this.counters.set(prefix, next + 1);
+        return this.scalar(`${prefix}${next}`, value, type);
+    }
+
+    /**
+     * Finish a statement, attaching the parameters collected so far
+     */
+    build(query: string): ParameterizedQuery {
+        return {
+            query,
+            params: { ...this.params },
+            types: { ...this.types },
+        };
+    }
+
+    private register(
+        name: string,
+        value: QueryParameterValue,
+        type: QueryParameterType | QueryParameterType[]
+    ): void {
+        if (!PARAMETER_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid query parameter name: ${name}`);
+        }
+        if (name in this.params) {
+            throw new Error(`Duplicate query parameter: ${name}`);
+        }
+
+        this.params[name] = value;
+        this.types[name] = type;
+    }
+}
+
+/**
+ * Escape LIKE wildcards so user text only ever matches literally
+ */
+export const escapeLikePattern = (value: string): string =>
+    value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Build a case-insensitive "contains" LIKE pattern for a user-supplied term
+ */
+export const containsPattern = (term: string): string =>
+    `%${escapeLikePattern(term.toLowerCase())}%`;
+
+/**
+ * Build a "starts with" LIKE pattern for a user-supplied prefix
+ */
+export const prefixPattern = (prefix: string): string =>
+    `${escapeLikePattern(prefix)}%`;
+
+/**
+ * Clamp a caller-provided row limit to a positive integer within the configured maximum
+ */
+export const clampLimit = (limit: number, max: number): number => {
+    if (!Number.isFinite(limit)) {
+        return max;
+    }
+    return Math.max(1, Math.min(Math.floor(limit), max));
+};
@@ -0,0 +1,119 @@
+import {
+    QueryDocument,
+    compileToMetadataFilter,
+    compileToSql,
+    evaluateQuery,
+    filtersToMetadataFilter,
+    scoringTerms,
+    semanticQueryText,
+} from './queryCompiler';
+import { QueryParameters } from './queryBuilder';
+import { parseQuery } from './queryParser';
+
+const DOC: QueryDocument = {
+    titles: ['Lithium ion battery anode with silicon graphite composite'],
+    abstracts: ['A system comprising: a battery with a 3:1 silicon ratio, see https://example.com for data.'],
+    claims: ['1. An anode comprising silicon and graphite.'],
+    assignees: ['TESLA INC'],
+    inventors: ['SMITH JOHN'],
+    cpc: ['H01M4/386', 'H01M10/0525'],
+    countryCode: 'US',
+    publicationDate: 20211214,
+};
+
+const compile = (query: string, scope?: 'claims' | 'abstract' | 'full') => {
+    const params = new QueryParameters();
+    const sql = compileToSql(parseQuery(query), params, 'p', scope);
+    return { sql, ...params.build('') };
+};
+
+describe('compileToSql', () => {
+    it('binds every clause as a parameter', () => {
+        const { sql, params, types } = compile('title:battery NOT assignee:"O\'Reilly" cpc:H01M* pd:[2021 TO 2022-06-30]');
+        expect(sql).toMatchSnapshot();
+        expect(params).toEqual({
+            q0: '(?i)\\bbattery\\b',
+            q1: '(?i)\\bO\'Reilly\\b',
+            q2: '(?i)^H01M\\w*',
+            q3: 20210101,
+            q4: 20220630,
+        });
+        expect(types).toEqual({ q0: 'STRING', q1: 'STRING', q2: 'STRING', q3: 'INT64', q4: 'INT64' });
+        expect(sql).not.toContain('Reilly');
+    });
+
+    it('matches unfielded text against the fields of the scope', () => {
+        expect(compile('anode', 'abstract').sql).not.toContain('claims_localized');
+        expect(compile('anode', 'claims').sql).toContain('claims_localized');
+        expect(compile('anode', 'claims').sql).not.toContain('abstract_localized');
+        expect(compile('anode', 'full').sql).toMatch(/title_localized.*abstract_localized.*claims_localized/);
+    });
+
+    it('escapes regular expression characters of plain-text colons', () => {
+        expect(compile('https://example.com').params).toEqual({ q0: '(?i)\\bhttps://example\\.com\\b' });
+        expect(compile('3:1').params).toEqual({ q0: '(?i)\\b3:1\\b' });
+    });
+});
+
+describe('evaluateQuery', () => {
+    it.each([
+        ['battery AND anode', true],
+        ['battery AND NOT anode', false],
+        ['title:(silicon NEAR/2 composite)', true],
+        ['title:(lithium NEAR/1 anode)', false],
+        ['"silicon graphite"', true],
+        ['batt*', true],
+        ['comprising: battery', true],
+        ['ratio 3:1', true],
+        ['https://example.com', true],
+        ['https://example.org', false],
+        ['assignee:tesla cc:US cpc:H01M4', true],
+        ['cpc:H01L*', false],
+        ['pd:2021', true],
+        ['pd:[2022 TO *]', false],
+    ])('%s → %s', (query, expected) => {
+        expect(evaluateQuery(parseQuery(query), DOC)).toBe(expected);
+    });
+
+    it('matches unfielded text in claims only within a claims scope', () => {
+        expect(evaluateQuery(parseQuery('"comprising silicon"'), DOC, 'abstract')).toBe(false);
+        expect(evaluateQuery(parseQuery('"comprising silicon"'), DOC, 'claims')).toBe(true);
+    });
+});
+
+describe('compileToMetadataFilter', () => {
+    it('translates structured clauses and drops free text', () => {
+        expect(compileToMetadataFilter(parseQuery('battery assignee:"Tesla Inc" cpc:H01M* pd:[2021 TO *] NOT cc:CN'))).toEqual({
+            $and: [
+                { $and: [{ assignee_tokens: { $in: ['tesla'] } }, { assignee_tokens: { $in: ['inc'] } }] },
+                { cpc_prefixes: { $in: ['H01M'] } },
+                { publication_date_int: { $gte: 20210101 } },
+                { country_code: { $ne: 'CN' } },
+            ],
+        });
+        expect(compileToMetadataFilter(parseQuery('battery OR assignee:tesla'))).toBeUndefined();
+    });
+
+    it('translates search filters', () => {
+        expect(filtersToMetadataFilter({
+            dateRange: { start: '2021-01-01', end: '2021-12-31' },
+            countries: ['us'],
+            assignees: ['Tesla'],
+            classifications: ['h01m'],
+        })).toEqual({
+            $and: [
+                { publication_date_int: { $gte: 20210101, $lte: 20211231 } },
+                { country_code: { $in: ['US'] } },
+                { $and: [{ assignee_tokens: { $in: ['tesla'] } }, { cpc_prefixes: { $in: ['H01M'] } }] },
+            ],
+        });
+    });
+});
+
+describe('query text', () => {
+    it('embeds and scores the positive free-text terms', () => {
+        const ast = parseQuery('title:(Battery anod*) "solid state" NOT graphite assignee:tesla');
+        expect(semanticQueryText(ast)).toBe('Battery anod solid state');
+        expect(scoringTerms(ast)).toEqual(['battery', 'solid', 'state']);
+    });
+});
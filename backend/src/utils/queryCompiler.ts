@@ -0,0 +1,450 @@
+/**
+ * Compilers for the query language AST produced by queryParser.
+ *
+ * The same AST is turned into a parameterized BigQuery predicate, a vector
+ * store metadata filter, or evaluated in memory by the local repository.
+ * All three share one set of regular expressions so every backend agrees
+ * on what a term matches.
+ */
+
+import { PatentSearchFilters, SearchScope } from '@/types/patent';
+import { QueryParameters } from './queryBuilder';
+import { toDateNumber } from './dates';
+import { SCOPE_FIELDS } from './keywordScoring';
+import { NearNode, PhraseNode, QueryNode, RangeNode, TermNode } from './queryParser';
+
+type MetadataFilter = Record<string, any>;
+
+/**
+ * Searchable view of one publication, used for in-memory evaluation
+ */
+export interface QueryDocument {
+    titles: string[];
+    abstracts: string[];
+    claims: string[];
+    assignees: string[];
+    inventors: string[];
+    cpc: string[];
+    countryCode: string;
+    /** Publication date as YYYYMMDD */
+    publicationDate: number;
+}
+
+/**
+ * Derived metadata fields that make query clauses expressible as vector
+ * store filters. Stored alongside every indexed vector.
+ */
+export interface QueryMetadataFields {
+    [key: string]: number | string[];
+    publication_date_int: number;
+    assignee_tokens: string[];
+    inventor_tokens: string[];
+    cpc_prefixes: string[];
+}
+
+/**
+ * Compile a query into a BigQuery boolean expression over the publications
+ * table aliased as `alias`. Unfielded text matches the fields of `scope`.
+ */
+export const compileToSql = (
+    node: QueryNode,
+    params: QueryParameters,
+    alias: string = 'p',
+    scope: SearchScope = 'abstract'
+): string => {
+    switch (node.type) {
+        case 'and':
+        case 'or':
+            return `(${node.children.map(child => compileToSql(child, params, alias, scope)).join(` ${node.type.toUpperCase()} `)})`;
+
+        case 'not':
+            return `NOT ${compileToSql(node.child, params, alias, scope)}`;
+
+        case 'range': {
+            const bounds: string[] = [];
+            if (node.from) {
+                bounds.push(`${alias}.publication_date >= ${params.indexed('q', toDateNumber(node.from), 'INT64')}`);
+            }
+            if (node.to) {
+                bounds.push(`${alias}.publication_date <= ${params.indexed('q', toDateNumber(node.to), 'INT64')}`);
+            }
+            return bounds.length > 0 ? `(${bounds.join(' AND ')})` : 'TRUE';
+        }
+
+        default: {
+            const pattern = params.indexed('q', `(?i)${clausePattern(node)}`, 'STRING');
+            const title = `EXISTS(SELECT 1 FROM UNNEST(${alias}.title_localized) AS qt WHERE REGEXP_CONTAINS(qt.text, ${pattern}))`;
+            const abstract = `EXISTS(SELECT 1 FROM UNNEST(${alias}.abstract_localized) AS qab WHERE REGEXP_CONTAINS(qab.text, ${pattern}))`;
+            const claims = `EXISTS(SELECT 1 FROM UNNEST(${alias}.claims_localized) AS qcl WHERE REGEXP_CONTAINS(qcl.text, ${pattern}))`;
+            const textFields = { title, abstract, claims };
+
+            switch (node.field) {
+                case 'title':
+                    return title;
+                case 'abstract':
+                    return abstract;
+                case 'claims':
+                    return claims;
+                case 'text':
+                    return `(${SCOPE_FIELDS[scope].map(field => textFields[field]).join(' OR ')})`;
+                case 'assignee':
+                    return `EXISTS(SELECT 1 FROM UNNEST(${alias}.assignee_harmonized) AS qa WHERE REGEXP_CONTAINS(qa.name, ${pattern}))`;
+                case 'inventor':
+                    return `EXISTS(SELECT 1 FROM UNNEST(${alias}.inventor_harmonized) AS qi WHERE REGEXP_CONTAINS(qi.name, ${pattern}))`;
+                case 'cpc':
+                    return `EXISTS(SELECT 1 FROM UNNEST(${alias}.cpc) AS qc WHERE REGEXP_CONTAINS(qc.code, ${pattern}))`;
+                case 'country':
+                    return `REGEXP_CONTAINS(${alias}.country_code, ${pattern})`;
+                default:
+                    throw new Error(`Unsupported query field: ${node.field}`);
+            }
+        }
+    }
+};
+
+/**
+ * Evaluate a query against one publication in memory, matching unfielded
+ * text against the fields of `scope`
+ */
+export const evaluateQuery = (node: QueryNode, doc: QueryDocument, scope: SearchScope = 'abstract'): boolean => {
+    switch (node.type) {
+        case 'and':
+            return node.children.every(child => evaluateQuery(child, doc, scope));
+
+        case 'or':
+            return node.children.some(child => evaluateQuery(child, doc, scope));
+
+        case 'not':
+            return !evaluateQuery(node.child, doc, scope);
+
+        case 'range':
+            return (!node.from || doc.publicationDate >= toDateNumber(node.from)) &&
+                (!node.to || doc.publicationDate <= toDateNumber(node.to));
+
+        default: {
+            const pattern = new RegExp(clausePattern(node), 'i');
+            const matchesAny = (values: string[]) => values.some(value => pattern.test(value));
+            const textFields = { title: doc.titles, abstract: doc.abstracts, claims: doc.claims };
+
+            switch (node.field) {
+                case 'title':
+                    return matchesAny(doc.titles);
+                case 'abstract':
+                    return matchesAny(doc.abstracts);
+                case 'claims':
+                    return matchesAny(doc.claims);
+                case 'text':
+                    return SCOPE_FIELDS[scope].some(field => matchesAny(textFields[field]));
+                case 'assignee':
+                    return matchesAny(doc.assignees);
+                case 'inventor':
+                    return matchesAny(doc.inventors);
+                case 'cpc':
+                    return matchesAny(doc.cpc);
+                case 'country':
+                    return pattern.test(doc.countryCode);
+                default:
+                    throw new Error(`Unsupported query field: ${node.field}`);
+            }
+        }
+    }
+};
+
+/**
+ * Translate the structured clauses of a query (assignee, inventor, cpc,
+ * country, pd) into a metadata filter. Free-text clauses are left to the
+ * embedding, so a branch that depends on them cannot be expressed and is
+ * dropped; the filter never excludes a document the query would accept
+ * through such a branch.
+ */
+export const compileToMetadataFilter = (node: QueryNode): MetadataFilter | undefined => {
+    switch (node.type) {
+        case 'and':
+            return combineMetadataFilters(...node.children.map(compileToMetadataFilter));
+
+        case 'or': {
+            const filters = node.children.map(compileToMetadataFilter);
+            if (filters.some(filter => filter === undefined)) {
+                return undefined;
+            }
+            return { $or: filters };
+        }
+
+        case 'not':
+            return negateMetadataFilter(node.child);
+
+        case 'range': {
+            const bounds: Record<string, number> = {};
+            if (node.from) {
+                bounds.$gte = toDateNumber(node.from);
+            }
+            if (node.to) {
+                bounds.$lte = toDateNumber(node.to);
+            }
+            return Object.keys(bounds).length > 0 ? { publication_date_int: bounds } : undefined;
+        }
+
+        case 'near':
+            return undefined;
+
+        default:
+            return keywordFilter(node, false);
+    }
+};
+
+/**
+ * Express the assignee and classification filters as query clauses, so they
+ * match exactly like `assignee:"..."` and `cpc:...` (prefix) clauses do
+ */
+export const filterClauses = (filters: PatentSearchFilters): QueryNode | undefined => {
+    const groups: QueryNode[] = [];
+
+    const assignees = (filters.assignees || [])
+        .map(name => name.split(/\W+/).filter(word => word.length > 0).join(' '))
+        .filter(name => name.length > 0);
+    if (assignees.length > 0) {
+        groups.push(anyOf(assignees.map(value => ({ type: 'phrase', field: 'assignee', value, position: 0 }))));
+    }
+
+    const codes = (filters.classifications || [])
+        .map(code => code.replace(/\s+/g, '').toUpperCase())
+        .filter(code => code.length > 0);
+    if (codes.length > 0) {
+        groups.push(anyOf(codes.map(value => ({ type: 'term', field: 'cpc', value, wildcard: /[*?]/.test(value), position: 0 }))));
+    }
+
+    if (groups.length === 0) {
+        return undefined;
+    }
+    return groups.length === 1 ? groups[0] : { type: 'and', children: groups };
+};
+
+/**
+ * Translate search filters into a metadata filter over the fields written
+ * by queryMetadataFields
+ */
+export const filtersToMetadataFilter = (filters?: PatentSearchFilters): MetadataFilter | undefined => {
+    if (!filters) {
+        return undefined;
+    }
+
+    const clauses: MetadataFilter[] = [];
+
+    const bounds: Record<string, number> = {};
+    if (filters.dateRange?.start) {
+        bounds.$gte = toDateNumber(filters.dateRange.start);
+    }
+    if (filters.dateRange?.end) {
+        bounds.$lte = toDateNumber(filters.dateRange.end);
+    }
+    if (Object.keys(bounds).length > 0) {
+        clauses.push({ publication_date_int: bounds });
+    }
+
+    if (filters.countries && filters.countries.length > 0) {
+        clauses.push({ country_code: { $in: filters.countries.map(country => country.toUpperCase()) } });
+    }
+
+    const facets = filterClauses(filters);
+    const facetFilter = facets && compileToMetadataFilter(facets);
+    if (facetFilter) {
+        clauses.push(facetFilter);
+    }
+
+    return combineMetadataFilters(...clauses);
+};
+
+/**
+ * AND together metadata filters, skipping missing ones
+ */
+export const combineMetadataFilters = (...filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined => {
+    const defined = filters.filter((filter): filter is MetadataFilter => filter !== undefined);
+    if (defined.length === 0) {
+        return undefined;
+    }
+    return defined.length === 1 ? defined[0] : { $and: defined };
+};
+
+/**
+ * Text for the embedding: the positive free-text terms of the query, with
+ * operators, fields and wildcards stripped
+ */
+export const semanticQueryText = (node: QueryNode): string =>
+    positiveTextClauses(node)
+        .map(clause => clause.value.replace(/[*?]/g, ''))
+        .join(' ')
+        .trim();
+
+/**
+ * Lowercase words to score with BM25: the positive free-text terms of the
+ * query. Wildcard terms only restrict the match and are not scored.
+ */
+export const scoringTerms = (node: QueryNode): string[] => {
+    const words = positiveTextClauses(node)
+        .filter(clause => clause.type === 'phrase' || !clause.wildcard)
+        .flatMap(clause => clause.value.toLowerCase().split(/\s+/))
+        .filter(word => word.length > 0);
+
+    return [...new Set(words)];
+};
+
+/**
+ * Derive the metadata fields used by compileToMetadataFilter
+ */
+export const queryMetadataFields = (patent: {
+    publication_date: string;
+    assignee: string;
+    inventors: string[];
+    classifications: string[];
+}): QueryMetadataFields => {
+    const prefixes = new Set<string>();
+    for (const code of patent.classifications.slice(0, 10)) {
+        const compact = code.replace(/\s+/g, '').toUpperCase();
+        for (let length = 1; length <= compact.length; length++) {
+            prefixes.add(compact.slice(0, length));
+        }
+    }
+
+    return {
+        publication_date_int: toDateNumber(patent.publication_date) || 0,
+        assignee_tokens: nameTokens([patent.assignee]),
+        inventor_tokens: nameTokens(patent.inventors),
+        cpc_prefixes: Array.from(prefixes),
+    };
+};
+
+const anyOf = (nodes: QueryNode[]): QueryNode =>
+    nodes.length === 1 ? nodes[0] as QueryNode : { type: 'or', children: nodes };
+
+const nameTokens = (names: string[]): string[] =>
+    [...new Set(names.flatMap(name => name.toLowerCase().split(/\W+/)).filter(token => token.length > 0))];
+
+const positiveTextClauses = (node: QueryNode): Array<TermNode | PhraseNode> => {
+    switch (node.type) {
+        case 'and':
+        case 'or':
+            return node.children.flatMap(positiveTextClauses);
+        case 'not':
+        case 'range':
+            return [];
+        case 'near':
+            return [...node.operands];
+        default:
+            return node.field === 'text' || node.field === 'title' || node.field === 'abstract' || node.field === 'claims' ? [node] : [];
+    }
+};
+
+const keywordFilter = (node: TermNode | PhraseNode, negate: boolean): MetadataFilter | undefined => {
+    const value = node.value;
+    const wildcard = /[*?]/.test(value);
+
+    switch (node.field) {
+        case 'country':
+            return wildcard ? undefined : { country_code: { [negate ? '$ne' : '$eq']: value.toUpperCase() } };
+
+        case 'cpc': {
+            // Only trailing-wildcard prefixes map onto the stored prefix list
+            const prefix = value.replace(/\s+/g, '').toUpperCase().replace(/\*$/, '');
+            if (/[*?]/.test(prefix)) {
+                return undefined;
+            }
+            return { cpc_prefixes: { [negate ? '$nin' : '$in']: [prefix] } };
+        }
+
+        case 'assignee':
+        case 'inventor': {
+            if (wildcard) {
+                return undefined;
+            }
+            const key = node.field === 'assignee' ? 'assignee_tokens' : 'inventor_tokens';
+            const clauses = nameTokens([value]).map(token => ({ [key]: { [negate ? '$nin' : '$in']: [token] } }));
+            if (clauses.length === 0) {
+                return undefined;
+            }
+            if (clauses.length === 1) {
+                return clauses[0];
+            }
+            return negate ? { $or: clauses } : { $and: clauses };
+        }
+
+        default:
+            return undefined;
+    }
+};
+
+const negateMetadataFilter = (node: QueryNode): MetadataFilter | undefined => {
+    switch (node.type) {
+        case 'not':
+            return compileToMetadataFilter(node.child);
+
+        case 'term':
+        case 'phrase':
+            return keywordFilter(node, true);
+
+        case 'range': {
+            const outside: MetadataFilter[] = [];
+            if (node.from) {
+                outside.push({ publication_date_int: { $lt: toDateNumber(node.from) } });
+            }
+            if (node.to) {
+                outside.push({ publication_date_int: { $gt: toDateNumber(node.to) } });
+            }
+            if (outside.length === 0) {
+                return undefined;
+            }
+            return outside.length === 1 ? outside[0] : { $or: outside };
+        }
+
+        case 'and':
+        case 'or': {
+            // De Morgan: NOT (a AND b) = NOT a OR NOT b, and vice versa
+            const negated = node.children.map(negateMetadataFilter);
+            if (node.type === 'and') {
+                return negated.some(filter => filter === undefined) ? undefined : { $or: negated };
+            }
+            const defined = negated.filter((filter): filter is MetadataFilter => filter !== undefined);
+            if (defined.length === 0) {
+                return undefined;
+            }
+            return defined.length === 1 ? defined[0] : { $and: defined };
+        }
+
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * Regular expression (RE2 and JavaScript compatible) for a term, phrase or
+ * proximity clause. Words match on word boundaries; `*` and `?` match any
+ * run of word characters or a single one.
+ */
+const clausePattern = (node: TermNode | PhraseNode | NearNode): string => {
+    if (node.type === 'near') {
+        const [left, right] = node.operands.map(operand => clausePattern(operand)) as [string, string];
+        const gap = `(?:\\W+\\w+){0,${node.distance - 1}}\\W+`;
+        return `(?:${left}${gap}${right}|${right}${gap}${left})`;
+    }
+
+    if (node.field === 'cpc') {
+        return `^${wildcardPattern(node.value.replace(/\s+/g, '').toUpperCase())}`;
+    }
+    if (node.field === 'country') {
+        return `^${wildcardPattern(node.value.toUpperCase())}$`;
+    }
+
+    const words = node.type === 'phrase' ? node.value.split(/\s+/) : [node.value];
+    const body = words.map(wildcardPattern).join('\\W+');
+    const first = node.value.charAt(0);
+    const last = node.value.charAt(node.value.length - 1);
+
+    return `${isWordChar(first) ? '\\b' : ''}${body}${isWordChar(last) ? '\\b' : ''}`;
+};
+
+const isWordChar = (char: string): boolean => /[A-Za-z0-9_*?]/.test(char);
+
+const wildcardPattern = (value: string): string =>
+    value
+        .split(/([*?])/)
+        .map(part => part === '*' ? '\\w*' : part === '?' ? '\\w' : part.replace(/[.+^${}()|[\]\\*?]/g, '\\$&'))
+        .join('');
@@ -0,0 +1,76 @@
+import { QuerySyntaxError, parseQuery } from './queryParser';
+
+describe('parseQuery', () => {
+    it('parses fields, operators, phrases, wildcards and ranges', () => {
+        expect(parseQuery('title:(battery AND anode) NOT assignee:"Tesla" cpc:H01M* pd:[2021-01-01 TO 2023-12-31]')).toEqual({
+            type: 'and',
+            children: [
+                {
+                    type: 'and',
+                    children: [
+                        { type: 'term', field: 'title', value: 'battery', wildcard: false, position: 7 },
+                        { type: 'term', field: 'title', value: 'anode', wildcard: false, position: 19 },
+                    ],
+                },
+                { type: 'not', child: { type: 'phrase', field: 'assignee', value: 'Tesla', position: 39 } },
+                { type: 'term', field: 'cpc', value: 'H01M*', wildcard: true, position: 51 },
+                { type: 'range', field: 'pd', from: '2021-01-01', to: '2023-12-31', position: 60 },
+            ],
+        });
+    });
+
+    it('resolves field aliases case-insensitively', () => {
+        expect(parseQuery('TI:battery')).toMatchObject({ type: 'term', field: 'title', value: 'battery' });
+        expect(parseQuery('pa:Tesla')).toMatchObject({ type: 'term', field: 'assignee', value: 'Tesla' });
+        expect(parseQuery('date:2021')).toEqual({ type: 'range', field: 'pd', from: '2021-01-01', to: '2021-12-31', position: 5 });
+    });
+
+    it('parses NEAR with a distance', () => {
+        expect(parseQuery('battery NEAR/3 anode')).toMatchObject({
+            type: 'near',
+            field: 'text',
+            distance: 3,
+            operands: [{ value: 'battery' }, { value: 'anode' }],
+        });
+    });
+
+    it.each([
+        ['a system comprising: a battery', ['a', 'system', 'comprising:', 'a', 'battery']],
+        ['ratio 3:1 electrolyte', ['ratio', '3:1', 'electrolyte']],
+        ['https://example.com', ['https://example.com']],
+        ['constructor:x', ['constructor:x']],
+    ])('keeps a colon after anything but a field name as text: %s', (query, words) => {
+        const ast = parseQuery(query);
+        const terms = ast.type === 'and' ? ast.children : [ast];
+        expect(terms).toEqual(words.map(value => expect.objectContaining({ type: 'term', field: 'text', value })));
+    });
+
+    it.each([
+        ['', 'query is empty'],
+        ['"battery', 'unterminated phrase'],
+        ['(battery', 'missing closing parenthesis'],
+        ['battery)', 'unbalanced closing parenthesis'],
+        ['title: battery', 'field prefix must be followed directly by a value'],
+        ['title:(abstract:battery)', 'cannot be nested'],
+        ['pd:2021-02-30', 'expected a date'],
+        ['pd:[2023 TO 2021]', 'range start is after range end'],
+        ['title:[2021 TO 2022]', 'ranges are only supported on the pd: field'],
+        ['battery NEAR/99 anode', 'proximity must be between 1 and 50'],
+        ['a*', 'wildcard terms need at least two literal characters'],
+        ['battery AND', 'query ended unexpectedly'],
+    ])('rejects %j', (query, message) => {
+        expect(() => parseQuery(query)).toThrow(QuerySyntaxError);
+        expect(() => parseQuery(query)).toThrow(message);
+    });
+
+    it('reports the position of the offending token', () => {
+        try {
+            parseQuery('battery AND (anode');
+            throw new Error('expected a syntax error');
+        } catch (error) {
+            expect(error).toBeInstanceOf(QuerySyntaxError);
+            expect((error as QuerySyntaxError).position).toBe(18);
+            expect((error as QuerySyntaxError).message).toBe('Invalid query at position 18 near "<end of query>": missing closing parenthesis');
+        }
+    });
+});
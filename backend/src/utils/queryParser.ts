@@ -0,0 +1,373 @@
+/**
+ * Parser for the patent search query language.
+ *
+ *   title:(battery AND anode) NOT assignee:"Tesla" cpc:H01M* pd:[2021-01-01 TO 2023-12-31]
+ *
+ * Supports AND / OR / NOT (adjacent clauses are ANDed), parentheses, quoted
+ * phrases, NEAR/n proximity (terms at most n words apart), * and ? wildcards,
+ * and field prefixes. A colon after anything but a field name is plain text.
+ */
+
+import { isIsoDate } from './dates';
+
+export type TextField = 'text' | 'title' | 'abstract' | 'claims';
+export type KeywordField = 'assignee' | 'inventor' | 'cpc' | 'country';
+export type QueryField = TextField | KeywordField | 'pd';
+
+export interface TermNode {
+    type: 'term';
+    field: QueryField;
+    value: string;
+    wildcard: boolean;
+    position: number;
+}
+
+export interface PhraseNode {
+    type: 'phrase';
+    field: QueryField;
+    value: string;
+    position: number;
+}
+
+export interface NearNode {
+    type: 'near';
+    field: TextField;
+    distance: number;
+    operands: [TermNode | PhraseNode, TermNode | PhraseNode];
+    position: number;
+}
+
+export interface RangeNode {
+    type: 'range';
+    field: 'pd';
+    from?: string; // ISO date, inclusive
+    to?: string; // ISO date, inclusive
+    position: number;
+}
+
+export type QueryNode =
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode }
+    | TermNode
+    | PhraseNode
+    | NearNode
+    | RangeNode;
+
+/**
+ * Raised for malformed queries; `position` is the offset of the offending token
+ */
+export class QuerySyntaxError extends Error {
+    constructor(message: string, public readonly position: number, public readonly token: string) {
+        super(`Invalid query at position ${position} near "${token}": ${message}`);
+        this.name = 'QuerySyntaxError';
+    }
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+    title: 'title',
+    ti: 'title',
+    abstract: 'abstract',
+    ab: 'abstract',
+    claims: 'claims',
+    cl: 'claims',
+    assignee: 'assignee',
+    pa: 'assignee',
+    inventor: 'inventor',
+    in: 'inventor',
+    cpc: 'cpc',
+    country: 'country',
+    cc: 'country',
+    pd: 'pd',
+    date: 'pd',
+};
+
+const MAX_NEAR_DISTANCE = 50;
+
+type TokenType = 'word' | 'phrase' | 'field' | 'range' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'near' | 'eof';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    value: string;
+    position: number;
+    distance?: number;
+}
+
+const tokenizeQuery = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        const char = input[i] as string;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === '(' || char === ')') {
+            tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, value: char, position: i });
+            i++;
+            continue;
+        }
+
+        if (char === '"') {
+            const end = input.indexOf('"', i + 1);
+            if (end === -1) {
+                throw new QuerySyntaxError('unterminated phrase', i, input.slice(i, i + 20));
+            }
+            const value = input.slice(i + 1, end).trim();
+            if (!value) {
+                throw new QuerySyntaxError('empty phrase', i, input.slice(i, end + 1));
+            }
+            tokens.push({ type: 'phrase', text: input.slice(i, end + 1), value, position: i });
+            i = end + 1;
+            continue;
+        }
+
+        if (char === '[') {
+            const end = input.indexOf(']', i + 1);
+            if (end === -1) {
+                throw new QuerySyntaxError('unterminated date range', i, input.slice(i, i + 20));
+            }
+            tokens.push({ type: 'range', text: input.slice(i, end + 1), value: input.slice(i + 1, end), position: i });
+            i = end + 1;
+            continue;
+        }
+
+        let end = i;
+        while (end < input.length && !/[\s()"[\]]/.test(input[end] as string)) {
+            end++;
+        }
+        const word = input.slice(i, end);
+
+        // Only known field names make a prefix; "comprising:", "3:1" and URLs are plain text
+        const colon = word.indexOf(':');
+        const name = word.slice(0, colon).toLowerCase();
+        if (colon > 0 && Object.prototype.hasOwnProperty.call(FIELD_ALIASES, name)) {
+            tokens.push({ type: 'field', text: word.slice(0, colon + 1), value: FIELD_ALIASES[name] as string, position: i });
+            i += colon + 1;
+            continue;
+        }
+
+        const nearMatch = /^NEAR(?:\/(\d+))?$/.exec(word);
+        if (nearMatch) {
+            const distance = nearMatch[1] ? parseInt(nearMatch[1], 10) : 10;
+            if (distance < 1 || distance > MAX_NEAR_DISTANCE) {
+                throw new QuerySyntaxError(`proximity must be between 1 and ${MAX_NEAR_DISTANCE}`, i, word);
+            }
+            tokens.push({ type: 'near', text: word, value: word, position: i, distance });
+        } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+            tokens.push({ type: word.toLowerCase() as TokenType, text: word, value: word, position: i });
+        } else {
+            tokens.push({ type: 'word', text: word, value: word, position: i });
+        }
+        i = end;
+    }
+
+    tokens.push({ type: 'eof', text: '<end of query>', value: '', position: input.length });
+    return tokens;
+};
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): QueryNode {
+        const node = this.parseOr(undefined);
+        const next = this.peek();
+        if (next.type !== 'eof') {
+            this.fail(next.type === 'rparen' ? 'unbalanced closing parenthesis' : 'unexpected token', next);
+        }
+        return node;
+    }
+
+    private parseOr(field: QueryField | undefined): QueryNode {
+        const children = [this.parseAnd(field)];
+        while (this.peek().type === 'or') {
+            this.next();
+            children.push(this.parseAnd(field));
+        }
+        return children.length === 1 ? children[0] as QueryNode : { type: 'or', children };
+    }
+
+    private parseAnd(field: QueryField | undefined): QueryNode {
+        const children = [this.parseUnary(field)];
+        for (; ;) {
+            const next = this.peek();
+            if (next.type === 'eof' || next.type === 'rparen' || next.type === 'or') {
+                break;
+            }
+            if (next.type === 'and') {
+                this.next();
+            }
+            children.push(this.parseUnary(field));
+        }
+        return children.length === 1 ? children[0] as QueryNode : { type: 'and', children };
+    }
+
+    private parseUnary(field: QueryField | undefined): QueryNode {
+        if (this.peek().type === 'not') {
+            this.next();
+            return { type: 'not', child: this.parseUnary(field) };
+        }
+        return this.parseNear(field);
+    }
+
+    private parseNear(field: QueryField | undefined): QueryNode {
+        const left = this.parsePrimary(field);
+
+        if (this.peek().type !== 'near') {
+            return left;
+        }
+
+        const operator = this.next();
+        const right = this.parsePrimary(field);
+
+        if (!isTextOperand(left) || !isTextOperand(right) || left.field !== right.field) {
+            this.fail('NEAR requires a word or phrase on both sides in the same text field', operator);
+        }
+        if (this.peek().type === 'near') {
+            this.fail('chained NEAR is not supported; use parentheses and AND', this.peek());
+        }
+
+        return {
+            type: 'near',
+            field: left.field as TextField,
+            distance: operator.distance as number,
+            operands: [left as TermNode | PhraseNode, right as TermNode | PhraseNode],
+            position: operator.position,
+        };
+    }
+
+    private parsePrimary(field: QueryField | undefined): QueryNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'field': {
+                if (field) {
+                    this.fail(`field "${token.value}" cannot be nested inside field "${field}"`, token);
+                }
+                const next = this.peek();
+                if (next.type === 'eof' || next.position !== token.position + token.text.length) {
+                    this.fail('field prefix must be followed directly by a value', token);
+                }
+                return this.parsePrimary(token.value as QueryField);
+            }
+
+            case 'lparen': {
+                const node = this.parseOr(field);
+                const close = this.next();
+                if (close.type !== 'rparen') {
+                    this.fail('missing closing parenthesis', close);
+                }
+                return node;
+            }
+
+            case 'word':
+                return this.buildWord(token, field ?? 'text');
+
+            case 'phrase':
+                if (field === 'pd') {
+                    this.fail('dates must be a date or a [start TO end] range', token);
+                }
+                return { type: 'phrase', field: field ?? 'text', value: token.value, position: token.position };
+
+            case 'range':
+                if (field !== 'pd') {
+                    this.fail('ranges are only supported on the pd: field', token);
+                }
+                return this.buildRange(token);
+
+            default:
+                return this.fail(token.type === 'eof' ? 'query ended unexpectedly' : 'expected a search term', token);
+        }
+    }
+
+    private buildWord(token: Token, field: QueryField): QueryNode {
+        if (field === 'pd') {
+            const from = parseDateBound(token.value, 'start');
+            const to = parseDateBound(token.value, 'end');
+            if (!from || !to) {
+                this.fail('expected a date (YYYY, YYYY-MM-DD or YYYYMMDD)', token);
+            }
+            return { type: 'range', field: 'pd', from, to, position: token.position };
+        }
+
+        const wildcard = /[*?]/.test(token.value);
+        if (wildcard && token.value.replace(/[*?]/g, '').length < 2) {
+            this.fail('wildcard terms need at least two literal characters', token);
+        }
+
+        return { type: 'term', field, value: token.value, wildcard, position: token.position };
+    }
+
+    private buildRange(token: Token): RangeNode {
+        const parts = token.value.trim().split(/\s+TO\s+/);
+        if (parts.length !== 2) {
+            this.fail('expected [start TO end]', token);
+        }
+
+        const [start, end] = parts as [string, string];
+        const from = start === '*' ? undefined : parseDateBound(start, 'start');
+        const to = end === '*' ? undefined : parseDateBound(end, 'end');
+
+        if ((start !== '*' && !from) || (end !== '*' && !to)) {
+            this.fail('expected dates as YYYY, YYYY-MM-DD or YYYYMMDD, or * for an open end', token);
+        }
+        if (from && to && from > to) {
+            this.fail('range start is after range end', token);
+        }
+
+        return { type: 'range', field: 'pd', from, to, position: token.position };
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index] as Token;
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index] as Token;
+        if (token.type !== 'eof') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private fail(message: string, token: Token): never {
+        throw new QuerySyntaxError(message, token.position, token.text);
+    }
+}
+
+const isTextOperand = (node: QueryNode): node is TermNode | PhraseNode =>
+    (node.type === 'term' || node.type === 'phrase') &&
+    (node.field === 'text' || node.field === 'title' || node.field === 'abstract');
+
+/**
+ * Parse a date or year into an inclusive ISO bound
+ */
+const parseDateBound = (value: string, bound: 'start' | 'end'): string | undefined => {
+    if (/^\d{4}$/.test(value)) {
+        return bound === 'start' ? `${value}-01-01` : `${value}-12-31`;
+    }
+
+    const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(value);
+    if (!match) {
+        return undefined;
+    }
+
+    const iso = `${match[1]}-${match[2]}-${match[3]}`;
+    return isIsoDate(iso) ? iso : undefined;
+};
+
+/**
+ * Parse a query string into an AST
+ */
+export const parseQuery = (input: string): QueryNode => {
+    if (!input.trim()) {
+        throw new QuerySyntaxError('query is empty', 0, '');
+    }
+    return new Parser(tokenizeQuery(input)).parse();
+};
@@ -0,0 +1,36 @@
+/**
+ * Shared word tokenizer for local embeddings and keyword scoring
+ */
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+    'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'to',
+    'was', 'were', 'which', 'with', 'wherein', 'whereby', 'thereof', 'said',
+]);
+
+/**
+ * Split text into lowercase word tokens, keeping hyphenated and alphanumeric terms
+ */
+export const tokenize = (text: string): string[] =>
+    text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}-]+/u)
+        .map(token => token.replace(/^-+|-+$/g, ''))
+        .filter(token => token.length > 0);
+
+/**
+ * Tokenize and drop common English and patent-claim stopwords
+ */
+export const tokenizeForIndexing = (text: string): string[] =>
+    tokenize(text).filter(token => !STOPWORDS.has(token));
+
+/**
+ * Count occurrences of each token
+ */
+export const termFrequencies = (tokens: string[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return counts;
+};
@@ -9,6 +9,8 @@ import { Home } from './pages/Home';
 import { Search } from './pages/Search';
 import { PatentDetail } from './pages/PatentDetail';
 import { Analytics } from './pages/Analytics';
+import { Portfolio } from './pages/Portfolio';
+import { Classifications } from './pages/Classifications';
 import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import './index.css';
@@ -82,6 +84,20 @@ function App() {
                                     </Layout>
                                 </ProtectedRoute>
                             } />
+                            <Route path="/portfolio" element={
+                                <ProtectedRoute>
+                                    <Layout>
+                                        <Portfolio />
+                                    </Layout>
+                                </ProtectedRoute>
+                            } />
+                            <Route path="/classifications" element={
+                                <ProtectedRoute>
+                                    <Layout>
+                                        <Classifications />
+                                    </Layout>
+                                </ProtectedRoute>
+                            } />
                             <Route path="/dashboard" element={
                                 <ProtectedRoute>
                                     <Layout>
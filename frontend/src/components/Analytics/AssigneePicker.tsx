@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { X } from 'lucide-react';
+import { api } from '../../services/api';
+interface AssigneePickerProps {
+    selected: string[];
+    onChange: (assignees: string[]) => void;
+}
+// Picks normalized companies from the assignee autocomplete; Enter adds the typed name as is
+export const AssigneePicker: React.FC<AssigneePickerProps> = ({ selected, onChange }) => {
+    const [text, setText] = useState('');
+    const [open, setOpen] = useState(false);
+    const term = text.trim();
+    const { data } = useQuery(
+        ['assignee-suggestions', term],
+        () => api.searchAssignees(term, 8),
+        { enabled: open && term.length >= 2, keepPreviousData: true, staleTime: 60000 }
+    );
+    const suggestions = (data?.data.suggestions || []).filter(s => !selected.includes(s.name));
+    const add = (name: string) => {
+        if (name && !selected.includes(name)) {
+            onChange([...selected, name]);
+        }
+        setText('');
+        setOpen(false);
+    };
+    return (
+        <div className="relative">
+            <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border border-gray-300 rounded-md shadow-sm focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+                {selected.map(name => (
+                    <span key={name} className="inline-flex items-center bg-blue-50 text-blue-700 text-sm rounded px-2 py-0.5">
+                        {name}
+                        <button
+                            type="button"
+                            onClick={() => onChange(selected.filter(s => s !== name))}
+                            className="ml-1 text-blue-400 hover:text-blue-600"
+                            aria-label={`Remove ${name}`}
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </span>
+                ))}
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => {
+                        setText(e.target.value);
+                        setOpen(true);
+                    }}
+                    onFocus={() => setOpen(true)}
+                    onBlur={() => setOpen(false)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            add(suggestions[0]?.name || term);
+                        } else if (e.key === 'Backspace' && !text && selected.length > 0) {
+                            onChange(selected.slice(0, -1));
+                        }
+                    }}
+                    placeholder={selected.length === 0 ? 'Company, e.g. Alphabet' : 'Add another company'}
+                    className="flex-1 min-w-[10rem] py-0.5 text-sm border-0 focus:outline-none focus:ring-0"
+                />
+            </div>
+            {open && term.length >= 2 && suggestions.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 overflow-y-auto">
+                    {suggestions.map(suggestion => (
+                        <li key={suggestion.name}>
+                            <button
+                                type="button"
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => add(suggestion.name)}
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                                title={suggestion.matched_names.join('; ')}
+                            >
+                                <span className="text-gray-900">{suggestion.name}</span>
+                                {suggestion.parent && (
+                                    <span className="text-gray-500"> ({suggestion.parent})</span>
+                                )}
+                                <span className="float-right text-xs text-gray-400">
+                                    {suggestion.patent_count.toLocaleString()}
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
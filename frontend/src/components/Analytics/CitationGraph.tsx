@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CitationCategory, CitationNetwork, CitationNetworkNode } from '../../types/patent';
+interface CitationGraphProps {
+    network: CitationNetwork;
+}
+const WIDTH = 800;
+const HEIGHT = 520;
+const MARGIN = 20;
+const LAYOUT_ITERATIONS = 150;
+const LABELLED_NODES = 5;
+const HOP_COLORS = ['#2563eb', '#f59e0b', '#9ca3af'];
+const HOP_LABELS = ['Matching patents', 'One citation away', 'Two citations away'];
+const CATEGORY_COLORS: Record<CitationCategory, string> = {
+    examiner: '#dc2626',
+    search_report: '#7c3aed',
+    applicant: '#16a34a',
+    other: '#9ca3af',
+};
+const CATEGORY_LABELS: Record<CitationCategory, string> = {
+    examiner: 'Examiner',
+    search_report: 'Search report',
+    applicant: 'Applicant',
+    other: 'Other',
+};
+interface Point {
+    x: number;
+    y: number;
+}
+// Force-directed layout (Fruchterman-Reingold) starting from rings by hop, so the same network always lays out the same way
+const layoutGraph = (network: CitationNetwork): Map<string, Point> => {
+    const { nodes, edges } = network;
+    const count = nodes.length;
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+    const positions = nodes.map((node, i) => {
+        const angle = (2 * Math.PI * i) / Math.max(count, 1);
+        const radius = 60 + node.hop * 110;
+        return { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle) };
+    });
+    const links = edges
+        .map(edge => [index.get(edge.source), index.get(edge.target)])
+        .filter((link): link is [number, number] => link[0] !== undefined && link[1] !== undefined);
+    const ideal = 0.8 * Math.sqrt((WIDTH * HEIGHT) / Math.max(count, 1));
+    let temperature = WIDTH / 10;
+    for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+        const shift = positions.map(() => ({ x: 0, y: 0 }));
+        for (let i = 0; i < count; i++) {
+            for (let j = i + 1; j < count; j++) {
+                const dx = positions[i].x - positions[j].x;
+                const dy = positions[i].y - positions[j].y;
+                const distance = Math.max(Math.hypot(dx, dy), 0.01);
+                const force = (ideal * ideal) / distance;
+                shift[i].x += (dx / distance) * force;
+                shift[i].y += (dy / distance) * force;
+                shift[j].x -= (dx / distance) * force;
+                shift[j].y -= (dy / distance) * force;
+            }
+        }
+        for (const [source, target] of links) {
+            const dx = positions[source].x - positions[target].x;
+            const dy = positions[source].y - positions[target].y;
+            const distance = Math.max(Math.hypot(dx, dy), 0.01);
+            const force = (distance * distance) / ideal;
+            shift[source].x -= (dx / distance) * force;
+            shift[source].y -= (dy / distance) * force;
+            shift[target].x += (dx / distance) * force;
+            shift[target].y += (dy / distance) * force;
+        }
+        for (let i = 0; i < count; i++) {
+            const position = positions[i];
+            // Gravity keeps publications without citations from drifting to the edges
+            shift[i].x -= (position.x - WIDTH / 2) * 0.1;
+            shift[i].y -= (position.y - HEIGHT / 2) * 0.1;
+            const length = Math.max(Math.hypot(shift[i].x, shift[i].y), 0.01);
+            const step = Math.min(length, temperature);
+            position.x = Math.min(WIDTH - MARGIN, Math.max(MARGIN, position.x + (shift[i].x / length) * step));
+            position.y = Math.min(HEIGHT - MARGIN, Math.max(MARGIN, position.y + (shift[i].y / length) * step));
+        }
+        temperature *= 0.97;
+    }
+    return new Map(nodes.map((node, i) => [node.id, positions[i]]));
+};
+// Citing publications point at the publications they cite; node size follows PageRank
+export const CitationGraph: React.FC<CitationGraphProps> = ({ network }) => {
+    const navigate = useNavigate();
+    const [hovered, setHovered] = useState<CitationNetworkNode>();
+    const positions = useMemo(() => layoutGraph(network), [network]);
+    const maxRank = Math.max(...network.nodes.map(node => node.pagerank), 0);
+    const radius = (node: CitationNetworkNode) => 4 + (maxRank > 0 ? 10 * Math.sqrt(node.pagerank / maxRank) : 0);
+    const radii = new Map(network.nodes.map(node => [node.id, radius(node)]));
+    const labelled = new Set(
+        [...network.nodes].sort((a, b) => b.pagerank - a.pagerank).slice(0, LABELLED_NODES).map(node => node.id)
+    );
+    const neighbours = new Set(
+        hovered
+            ? network.edges
+                .filter(edge => edge.source === hovered.id || edge.target === hovered.id)
+                .flatMap(edge => [edge.source, edge.target])
+            : []
+    );
+    const faded = (id: string) => !!hovered && id !== hovered.id && !neighbours.has(id);
+    if (network.nodes.length === 0) {
+        return <p className="text-sm text-gray-500">No patents in the citation network.</p>;
+    }
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-gray-50 rounded">
+                <defs>
+                    {(Object.keys(CATEGORY_COLORS) as CitationCategory[]).map(category => (
+                        <marker
+                            key={category}
+                            id={`arrow-${category}`}
+                            viewBox="0 0 10 10"
+                            refX="10"
+                            refY="5"
+                            markerWidth="6"
+                            markerHeight="6"
+                            orient="auto-start-reverse"
+                        >
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={CATEGORY_COLORS[category]} />
+                        </marker>
+                    ))}
+                </defs>
+                {network.edges.map(edge => {
+                    const source = positions.get(edge.source);
+                    const target = positions.get(edge.target);
+                    if (!source || !target) {
+                        return null;
+                    }
+                    // End the line at the edge of the cited node so the arrowhead stays visible
+                    const length = Math.max(Math.hypot(target.x - source.x, target.y - source.y), 0.01);
+                    const inset = (radii.get(edge.target) || 4) + 1;
+                    const dimmed = !!hovered && edge.source !== hovered.id && edge.target !== hovered.id;
+                    return (
+                        <line
+                            key={`${edge.source}-${edge.target}`}
+                            x1={source.x}
+                            y1={source.y}
+                            x2={target.x - ((target.x - source.x) / length) * inset}
+                            y2={target.y - ((target.y - source.y) / length) * inset}
+                            stroke={CATEGORY_COLORS[edge.category]}
+                            strokeWidth={1 + Math.log2(edge.weight)}
+                            strokeOpacity={dimmed ? 0.1 : 0.7}
+                            markerEnd={`url(#arrow-${edge.category})`}
+                        />
+                    );
+                })}
+                {network.nodes.map(node => {
+                    const position = positions.get(node.id);
+                    if (!position) {
+                        return null;
+                    }
+                    return (
+                        <g
+                            key={node.id}
+                            className="cursor-pointer"
+                            opacity={faded(node.id) ? 0.2 : 1}
+                            onMouseEnter={() => setHovered(node)}
+                            onMouseLeave={() => setHovered(undefined)}
+                            onClick={() => navigate(`/patent/${node.id}`)}
+                        >
+                            <circle
+                                cx={position.x}
+                                cy={position.y}
+                                r={radii.get(node.id)}
+                                fill={HOP_COLORS[node.hop] || HOP_COLORS[HOP_COLORS.length - 1]}
+                                stroke="#ffffff"
+                                strokeWidth={1.5}
+                            />
+                            {(labelled.has(node.id) || hovered?.id === node.id) && (
+                                <text
+                                    x={position.x + (radii.get(node.id) || 4) + 3}
+                                    y={position.y + 4}
+                                    className="font-mono"
+                                    fontSize={11}
+                                    fill="#374151"
+                                >
+                                    {node.id}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+            <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+                {HOP_LABELS.map((label, hop) => (
+                    <span key={label} className="inline-flex items-center">
+                        <span className="w-2.5 h-2.5 rounded-full mr-1.5" style={{ backgroundColor: HOP_COLORS[hop] }} />
+                        {label}
+                    </span>
+                ))}
+                {(Object.keys(CATEGORY_LABELS) as CitationCategory[]).map(category => (
+                    <span key={category} className="inline-flex items-center">
+                        <span className="w-4 h-0.5 mr-1.5" style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+                        {CATEGORY_LABELS[category]}
+                    </span>
+                ))}
+            </div>
+            <div className="mt-2 h-10 text-sm text-gray-700">
+                {hovered ? (
+                    <>
+                        <span className="font-mono text-blue-600 mr-2">{hovered.id}</span>
+                        {hovered.title}
+                        <span className="ml-2 text-xs text-gray-500">
+                            {hovered.year && `${hovered.year} · `}
+                            cited {hovered.in_degree}× · cites {hovered.out_degree} · PageRank {hovered.pagerank.toFixed(3)}
+                        </span>
+                    </>
+                ) : (
+                    <span className="text-gray-500">
+                        {network.edges.length === 0
+                            ? 'No citations recorded between these patents.'
+                            : 'Hover a patent to see its citations; click to open it.'}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, Tooltip, TooltipProps } from 'recharts';
+import { PatentLandscapeData, PatentMapPoint } from '../../types/patent';
+const CLUSTER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4b5563'];
+export const clusterColor = (index: number) => CLUSTER_COLORS[index % CLUSTER_COLORS.length];
+interface ClusterMapProps {
+    clusters: PatentLandscapeData['technologyClusters'];
+    points: PatentMapPoint[];
+}
+// Each patent at its map position, coloured by cluster; similar patents lie close together
+export const ClusterMap: React.FC<ClusterMapProps> = ({ clusters, points }) => {
+    const navigate = useNavigate();
+    if (points.length === 0) {
+        return <p className="text-sm text-gray-500">No patents to map.</p>;
+    }
+    return (
+        <ResponsiveContainer width="100%" height={360}>
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                <XAxis type="number" dataKey="x" hide domain={['dataMin - 0.1', 'dataMax + 0.1']} />
+                <YAxis type="number" dataKey="y" hide domain={['dataMin - 0.1', 'dataMax + 0.1']} />
+                <Tooltip content={<PointTooltip />} cursor={false} />
+                {clusters.map((cluster, index) => (
+                    <Scatter
+                        key={cluster.cluster_id}
+                        name={cluster.label || cluster.cluster_id}
+                        data={points.filter(point => point.cluster_id === cluster.cluster_id)}
+                        fill={clusterColor(index)}
+                        className="cursor-pointer"
+                        onClick={(item) => navigate(`/patent/${item.payload.patent_id}`)}
+                    />
+                ))}
+            </ScatterChart>
+        </ResponsiveContainer>
+    );
+};
+const PointTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload }) => {
+    const point = payload?.[0]?.payload as PatentMapPoint | undefined;
+    if (!active || !point) {
+        return null;
+    }
+    return (
+        <div className="bg-white border rounded shadow-sm px-3 py-2 text-xs max-w-xs">
+            <div className="font-mono text-blue-600">{point.patent_id}</div>
+            <div className="text-gray-700 mt-1">{point.title}</div>
+        </div>
+    );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+interface FamilySizeChartProps {
+    data: { size: number; families: number }[];
+}
+export const FamilySizeChart: React.FC<FamilySizeChartProps> = ({ data }) => {
+    if (data.length === 0) {
+        return <p className="text-sm text-gray-500">No families in this portfolio.</p>;
+    }
+    return (
+        <ResponsiveContainer width="100%" height={240}>
+            <BarChart data={data} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                <XAxis
+                    dataKey="size"
+                    tick={{ fontSize: 12 }}
+                    label={{ value: 'Publications per family', position: 'insideBottom', offset: -5, fontSize: 12 }}
+                />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip
+                    formatter={(value) => [value, 'Families']}
+                    labelFormatter={(size) => `${size} publication${size === 1 ? '' : 's'}`}
+                />
+                <Bar dataKey="families" fill="#7c3aed" radius={[4, 4, 0, 0]} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+interface FilingTrendChartProps {
+    data: { year: number; count: number }[];
+}
+// Years without filings are drawn as zero so gaps show in the trend
+const fillYears = (data: FilingTrendChartProps['data']) => {
+    if (data.length === 0) {
+        return [];
+    }
+    const counts = new Map(data.map(point => [point.year, point.count]));
+    const years = data.map(point => point.year);
+    const filled = [];
+    for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+        filled.push({ year, count: counts.get(year) || 0 });
+    }
+    return filled;
+};
+export const FilingTrendChart: React.FC<FilingTrendChartProps> = ({ data }) => {
+    const points = fillYears(data);
+    if (points.length === 0) {
+        return <p className="text-sm text-gray-500">No publication dates in this landscape.</p>;
+    }
+    return (
+        <ResponsiveContainer width="100%" height={260}>
+            <AreaChart data={points} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value) => [value, 'Patents published']} />
+                <Area type="monotone" dataKey="count" stroke="#2563eb" fill="#bfdbfe" strokeWidth={2} />
+            </AreaChart>
+        </ResponsiveContainer>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { clusterColor } from './ClusterMap';
+interface JurisdictionTrendChartProps {
+    data: { year: number; country_code: string; count: number }[];
+    // Jurisdictions shown separately; the rest are stacked as "Other"
+    maxJurisdictions?: number;
+}
+const OTHER = 'Other';
+export const JurisdictionTrendChart: React.FC<JurisdictionTrendChartProps> = ({ data, maxJurisdictions = 6 }) => {
+    if (data.length === 0) {
+        return <p className="text-sm text-gray-500">No filing dates in this portfolio.</p>;
+    }
+    const totals = new Map<string, number>();
+    data.forEach(point => totals.set(point.country_code, (totals.get(point.country_code) || 0) + point.count));
+    const ranked = Array.from(totals.entries()).sort(([, a], [, b]) => b - a).map(([country]) => country);
+    const shown = ranked.length > maxJurisdictions ? ranked.slice(0, maxJurisdictions - 1) : ranked;
+    const series = ranked.length > shown.length ? [...shown, OTHER] : shown;
+    // One row per year, gaps included, with a count per jurisdiction
+    const years = data.map(point => point.year);
+    const rows: Record<string, number>[] = [];
+    for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+        const row: Record<string, number> = { year };
+        series.forEach(country => { row[country] = 0; });
+        rows.push(row);
+    }
+    data.forEach(point => {
+        const row = rows[point.year - rows[0].year];
+        const key = shown.includes(point.country_code) ? point.country_code : OTHER;
+        row[key] += point.count;
+    });
+    return (
+        <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={rows} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {series.map((country, index) => (
+                    <Bar
+                        key={country}
+                        dataKey={country}
+                        stackId="filings"
+                        fill={country === OTHER ? '#9ca3af' : clusterColor(index)}
+                    />
+                ))}
+            </BarChart>
+        </ResponsiveContainer>
+    );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+interface RankingBarChartProps {
+    data: { label: string; count: number }[];
+    color: string;
+    emptyMessage: string;
+}
+// Horizontal bars, largest first, with room for long assignee names
+export const RankingBarChart: React.FC<RankingBarChartProps> = ({ data, color, emptyMessage }) => {
+    if (data.length === 0) {
+        return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+    }
+    return (
+        <ResponsiveContainer width="100%" height={Math.max(160, data.length * 28 + 40)}>
+            <BarChart data={data} layout="vertical" margin={{ top: 0, right: 20, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                <YAxis
+                    type="category"
+                    dataKey="label"
+                    width={160}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(label: string) => (label.length > 24 ? `${label.slice(0, 23)}…` : label)}
+                />
+                <Tooltip formatter={(value) => [value, 'Patents']} />
+                <Bar dataKey="count" fill={color} radius={[0, 4, 4, 0]} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+};
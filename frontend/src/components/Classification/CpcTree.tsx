@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { api } from '../../services/api';
+import { CpcNode } from '../../types/patent';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+interface CpcTreeProps {
+    nodes: CpcNode[];
+    selected?: string;
+    onSelect: (node: CpcNode) => void;
+}
+export const CpcTree: React.FC<CpcTreeProps> = ({ nodes, selected, onSelect }) => {
+    return (
+        <ul className="space-y-0.5">
+            {nodes.map(node => (
+                <CpcTreeItem key={node.symbol} node={node} selected={selected} onSelect={onSelect} />
+            ))}
+        </ul>
+    );
+};
+interface CpcTreeItemProps {
+    node: CpcNode;
+    selected?: string;
+    onSelect: (node: CpcNode) => void;
+}
+const CpcTreeItem: React.FC<CpcTreeItemProps> = ({ node, selected, onSelect }) => {
+    const [expanded, setExpanded] = useState(false);
+    // Children load on first expand and stay cached while the tree is open
+    const { data, isLoading } = useQuery(
+        ['cpc-classification', node.symbol],
+        () => api.getClassification(node.symbol),
+        { enabled: expanded && node.has_children }
+    );
+    const Chevron = expanded ? ChevronDown : ChevronRight;
+    return (
+        <li>
+            <div
+                className={`flex items-start gap-1 rounded px-1 py-1 text-sm ${selected === node.symbol ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+                {node.has_children ? (
+                    <button
+                        type="button"
+                        onClick={() => setExpanded(!expanded)}
+                        className="mt-0.5 text-gray-400 hover:text-gray-600"
+                        aria-label={expanded ? `Collapse ${node.symbol}` : `Expand ${node.symbol}`}
+                    >
+                        <Chevron className="w-4 h-4" />
+                    </button>
+                ) : (
+                    <span className="w-4 flex-shrink-0" />
+                )}
+                <button
+                    type="button"
+                    onClick={() => {
+                        onSelect(node);
+                        setExpanded(true);
+                    }}
+                    className="text-left min-w-0"
+                    title={node.title}
+                >
+                    <span className="font-mono font-medium mr-2">{node.symbol}</span>
+                    <span className="text-gray-500">{node.title}</span>
+                </button>
+            </div>
+            {expanded && node.has_children && (
+                <div className="ml-4 border-l border-gray-100 pl-1">
+                    {isLoading && <LoadingSpinner size="sm" className="py-1" />}
+                    {data && <CpcTree nodes={data.data.children} selected={selected} onSelect={onSelect} />}
+                </div>
+            )}
+        </li>
+    );
+};
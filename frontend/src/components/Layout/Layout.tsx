@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Search, BarChart3, Home, User, LogOut } from 'lucide-react';
+import { Search, BarChart3, Home, User, LogOut, FolderTree, Briefcase } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 interface LayoutProps {
     children: React.ReactNode;
@@ -11,7 +11,9 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
     const navigation = [
         { name: 'Home', href: '/', icon: Home },
         { name: 'Search', href: '/search', icon: Search },
+        { name: 'Classifications', href: '/classifications', icon: FolderTree },
         { name: 'Analytics', href: '/analytics', icon: BarChart3 },
+        { name: 'Portfolio', href: '/portfolio', icon: Briefcase },
         { name: 'Dashboard', href: '/dashboard', icon: User },
     ];
     const isActive = (path: string) => {
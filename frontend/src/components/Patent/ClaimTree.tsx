@@ -0,0 +1,46 @@
+import React from 'react';
+import { PatentClaim } from '../../types/patent';
+interface ClaimTreeProps {
+    claims: PatentClaim[];
+}
+// Dependent claims nest under the last claim they refer back to
+const parentOf = (claim: PatentClaim) => claim.depends_on[claim.depends_on.length - 1];
+export const ClaimTree: React.FC<ClaimTreeProps> = ({ claims }) => {
+    const roots = claims.filter(claim => claim.type === 'independent');
+    return (
+        <ol className="space-y-4">
+            {roots.map(claim => (
+                <ClaimItem key={claim.number} claim={claim} claims={claims} />
+            ))}
+        </ol>
+    );
+};
+interface ClaimItemProps {
+    claim: PatentClaim;
+    claims: PatentClaim[];
+}
+const ClaimItem: React.FC<ClaimItemProps> = ({ claim, claims }) => {
+    const children = claims.filter(other => other.type === 'dependent' && parentOf(other) === claim.number);
+    return (
+        <li>
+            <div className="text-sm text-gray-700">
+                <span className={`font-medium mr-2 ${claim.type === 'independent' ? 'text-blue-700' : 'text-gray-900'}`}>
+                    {claim.number}.
+                </span>
+                {claim.text}
+                {claim.depends_on.length > 1 && (
+                    <span className="ml-2 text-xs text-gray-400">
+                        (refers to claims {claim.depends_on.join(', ')})
+                    </span>
+                )}
+            </div>
+            {children.length > 0 && (
+                <ol className="mt-2 ml-6 pl-4 border-l border-gray-200 space-y-2">
+                    {children.map(child => (
+                        <ClaimItem key={child.number} claim={child} claims={claims} />
+                    ))}
+                </ol>
+            )}
+        </li>
+    );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { PatentFamilyMember } from '../../types/patent';
+import { formatDate } from '../../utils/dates';
+interface FamilyMembersProps {
+    members: PatentFamilyMember[];
+}
+// Collapsed to the members' publication numbers and kind codes; expanded to a list with dates and titles
+export const FamilyMembers: React.FC<FamilyMembersProps> = ({ members }) => {
+    const [expanded, setExpanded] = useState(false);
+    if (members.length === 0) {
+        return null;
+    }
+    const Chevron = expanded ? ChevronDown : ChevronRight;
+    return (
+        <div className="mt-3 text-sm">
+            <button
+                type="button"
+                className="inline-flex items-center text-gray-600 hover:text-gray-800 font-medium"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <Chevron className="w-4 h-4 mr-1" />
+                {members.length} other family {members.length === 1 ? 'member' : 'members'}
+            </button>
+            {expanded ? (
+                <ul className="mt-2 ml-5 space-y-1">
+                    {members.map(member => (
+                        <li key={member.patent_id} className="text-gray-600">
+                            <Link to={`/patent/${member.patent_id}`} className="font-mono text-blue-600 hover:underline">
+                                {member.patent_id}
+                            </Link>
+                            <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
+                                {member.kind_code || '?'}
+                            </span>
+                            <span className="ml-2 text-xs text-gray-500">
+                                {formatDate(member.publication_date)}
+                            </span>
+                            <span className="ml-2">{member.title}</span>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="mt-1 ml-5 flex flex-wrap gap-1">
+                    {members.map(member => (
+                        <span key={member.patent_id} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+                            {member.country_code} {member.kind_code}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
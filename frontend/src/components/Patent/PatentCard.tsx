@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { PatentResult } from '../../types/patent';
 interface PatentCardProps {
     patent: PatentResult;
@@ -6,10 +7,14 @@ interface PatentCardProps {
 export const PatentCard: React.FC<PatentCardProps> = ({ patent }) => {
     return (
         <div className="border border-gray-200 rounded-lg p-4">
-            <h3 className="font-medium text-gray-900">{patent.title}</h3>
+            <h3 className="font-medium text-gray-900">
+                <Link to={`/patent/${patent.patent_id}`} className="hover:text-blue-600">
+                    {patent.title}
+                </Link>
+            </h3>
             <p className="text-sm text-gray-600 mt-2">{patent.abstract}</p>
             <div className="mt-2 text-xs text-gray-500">
-                {patent.patent_id} • {patent.assignee}
+                {patent.patent_id} • {patent.assignee_normalized || patent.assignee}
             </div>
         </div>
     );
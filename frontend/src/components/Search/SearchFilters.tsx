@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
+import { useQuery } from 'react-query';
 import { SearchFilters as SearchFiltersType } from '../../types/patent';
+import { api } from '../../services/api';
 interface SearchFiltersProps {
     filters?: SearchFiltersType;
     onFiltersChange: (filters: SearchFiltersType) => void;
@@ -9,11 +11,34 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
     onFiltersChange,
 }) => {
     const [localFilters, setLocalFilters] = useState<SearchFiltersType>(filters || {});
+    // Raw text of the assignee input, so a trailing comma survives while typing
+    const [assigneeText, setAssigneeText] = useState(filters?.assignees?.join(', ') || '');
+    const [showAssigneeSuggestions, setShowAssigneeSuggestions] = useState(false);
+    const assigneeTerm = assigneeText.split(',').pop()?.trim() || '';
+    const { data: assigneeSuggestions } = useQuery(
+        ['assignee-suggestions', assigneeTerm],
+        () => api.searchAssignees(assigneeTerm, 8),
+        { enabled: showAssigneeSuggestions && assigneeTerm.length >= 2, keepPreviousData: true, staleTime: 60000 }
+    );
     const handleFilterChange = (key: keyof SearchFiltersType, value: any) => {
         const newFilters = { ...localFilters, [key]: value };
         setLocalFilters(newFilters);
         onFiltersChange(newFilters);
     };
+    const updateAssignees = (text: string) => {
+        setAssigneeText(text);
+        const assignees = text
+            .split(',')
+            .map(a => a.trim())
+            .filter(a => a.length > 0);
+        handleFilterChange('assignees', assignees.length > 0 ? assignees : undefined);
+    };
+    // Replace the name being typed with the picked company
+    const pickAssignee = (name: string) => {
+        const previous = assigneeText.split(',').slice(0, -1).map(a => a.trim()).filter(a => a.length > 0);
+        updateAssignees([...previous, name].join(', ') + ', ');
+        setShowAssigneeSuggestions(false);
+    };
     const commonCountries = ['US', 'EP', 'JP', 'CN', 'KR', 'CA', 'AU', 'GB', 'DE', 'FR'];
     return (
         <div className="space-y-6">
@@ -31,7 +56,7 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                             value={localFilters.dateRange?.start || ''}
                             onChange={(e) => handleFilterChange('dateRange', {
                                 ...localFilters.dateRange,
-                                start: e.target.value
+                                start: e.target.value || undefined
                             })}
                         />
                     </div>
@@ -43,7 +68,7 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                             value={localFilters.dateRange?.end || ''}
                             onChange={(e) => handleFilterChange('dateRange', {
                                 ...localFilters.dateRange,
-                                end: e.target.value
+                                end: e.target.value || undefined
                             })}
                         />
                     </div>
@@ -79,19 +104,47 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                     Assignees
                 </label>
-                <input
-                    type="text"
-                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="e.g., Apple, Google, Microsoft (comma separated)"
-                    value={localFilters.assignees?.join(', ') || ''}
-                    onChange={(e) => {
-                        const assignees = e.target.value
-                            .split(',')
-                            .map(a => a.trim())
-                            .filter(a => a.length > 0);
-                        handleFilterChange('assignees', assignees.length > 0 ? assignees : undefined);
-                    }}
-                />
+                <div className="relative">
+                    <input
+                        type="text"
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="e.g., Apple, Google, Microsoft (comma separated)"
+                        value={assigneeText}
+                        onChange={(e) => {
+                            updateAssignees(e.target.value);
+                            setShowAssigneeSuggestions(true);
+                        }}
+                        onFocus={() => setShowAssigneeSuggestions(true)}
+                        onBlur={() => setShowAssigneeSuggestions(false)}
+                    />
+                    {showAssigneeSuggestions && assigneeTerm.length >= 2 && (assigneeSuggestions?.data.suggestions.length ?? 0) > 0 && (
+                        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 overflow-y-auto">
+                            {assigneeSuggestions?.data.suggestions.map((suggestion) => (
+                                <li key={suggestion.name}>
+                                    <button
+                                        type="button"
+                                        // Keep focus in the input so blur does not close the list first
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => pickAssignee(suggestion.name)}
+                                        className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                                        title={suggestion.matched_names.join('; ')}
+                                    >
+                                        <span className="text-gray-900">{suggestion.name}</span>
+                                        {suggestion.parent && (
+                                            <span className="text-gray-500"> ({suggestion.parent})</span>
+                                        )}
+                                        <span className="float-right text-xs text-gray-400">
+                                            {suggestion.patent_count.toLocaleString()}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                    Companies include their other names and subsidiaries
+                </p>
             </div>
             {}
             <div>
@@ -118,6 +171,7 @@ export const SearchFilters: React.FC<SearchFiltersProps> = ({
                     type="button"
                     onClick={() => {
                         setLocalFilters({});
+                        setAssigneeText('');
                         onFiltersChange({});
                     }}
                     className="text-sm text-gray-600 hover:text-gray-800"
@@ -1,16 +1,40 @@
 import React, { useState } from 'react';
 import { Search as SearchIcon, Sparkles } from 'lucide-react';
+import { FusionOptions, SearchGrouping, SearchScope } from '../../types/patent';
 interface SearchFormProps {
     onSearch: (query: {
         query: string;
         searchType: 'semantic' | 'keyword' | 'hybrid';
+        scope?: SearchScope;
         limit?: number;
         minSimilarity?: number;
+        fusion?: FusionOptions;
+        preferredLanguages?: string[];
+        groupBy?: SearchGrouping;
+        preferredJurisdictions?: string[];
     }) => void;
     isLoading: boolean;
     initialQuery?: string;
     initialSearchType?: 'semantic' | 'keyword' | 'hybrid';
 }
+// Titles and abstracts fall back to English when a publication has no text in the chosen language
+// A family is shown through its member from the chosen jurisdiction, or its best match
+const jurisdictions = [
+    { value: '', label: 'Best match' },
+    { value: 'US', label: 'United States' },
+    { value: 'EP', label: 'European Patent Office' },
+    { value: 'WO', label: 'WIPO (PCT)' },
+    { value: 'CN', label: 'China' },
+    { value: 'JP', label: 'Japan' },
+];
+const resultLanguages = [
+    { value: 'en', label: 'English' },
+    { value: 'de', label: 'German' },
+    { value: 'fr', label: 'French' },
+    { value: 'ja', label: 'Japanese' },
+    { value: 'zh', label: 'Chinese' },
+    { value: 'ko', label: 'Korean' },
+];
 export const SearchForm: React.FC<SearchFormProps> = ({
     onSearch,
     isLoading,
@@ -19,14 +43,24 @@ export const SearchForm: React.FC<SearchFormProps> = ({
 }) => {
     const [query, setQuery] = useState(initialQuery);
     const [searchType, setSearchType] = useState<'semantic' | 'keyword' | 'hybrid'>(initialSearchType);
+    const [fusionMethod, setFusionMethod] = useState<FusionOptions['method']>('rrf');
+    const [scope, setScope] = useState<SearchScope>('abstract');
+    const [language, setLanguage] = useState('en');
+    const [groupBy, setGroupBy] = useState<SearchGrouping>('publication');
+    const [jurisdiction, setJurisdiction] = useState('');
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (query.trim()) {
             onSearch({
                 query: query.trim(),
                 searchType,
+                scope,
                 limit: 50,
                 minSimilarity: 0.7,
+                ...(searchType === 'hybrid' && { fusion: { method: fusionMethod } }),
+                ...(language !== 'en' && { preferredLanguages: [language] }),
+                groupBy,
+                ...(groupBy === 'family' && jurisdiction && { preferredJurisdictions: [jurisdiction] }),
             });
         }
     };
@@ -72,6 +106,9 @@ export const SearchForm: React.FC<SearchFormProps> = ({
                 <p className="mt-1 text-xs text-gray-500">
                     Tip: Be descriptive about your technology, include key features and use cases
                 </p>
+                <p className="mt-1 text-xs text-gray-500">
+                    Advanced: <code>title:(battery AND anode) claims:binder NOT assignee:"Tesla" cpc:H01M* pd:[2021-01-01 TO 2023-12-31]</code>, phrases in quotes, <code>NEAR/5</code> for proximity
+                </p>
             </div>
             {}
             <div>
@@ -119,6 +156,90 @@ export const SearchForm: React.FC<SearchFormProps> = ({
                     })}
                 </div>
             </div>
+            <div className="flex flex-wrap gap-6">
+                <div>
+                    <label htmlFor="search-scope" className="block text-sm font-medium text-gray-700 mb-2">
+                        Search In
+                    </label>
+                    <select
+                        id="search-scope"
+                        className="block w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        value={scope}
+                        onChange={(e) => setScope(e.target.value as SearchScope)}
+                        disabled={isLoading}
+                    >
+                        <option value="abstract">Title and abstract</option>
+                        <option value="claims">Claims</option>
+                        <option value="full">Title, abstract and claims</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="result-language" className="block text-sm font-medium text-gray-700 mb-2">
+                        Show Results In
+                    </label>
+                    <select
+                        id="result-language"
+                        className="block w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value)}
+                        disabled={isLoading}
+                    >
+                        {resultLanguages.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="result-grouping" className="block text-sm font-medium text-gray-700 mb-2">
+                        Group Results
+                    </label>
+                    <select
+                        id="result-grouping"
+                        className="block w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        value={groupBy}
+                        onChange={(e) => setGroupBy(e.target.value as SearchGrouping)}
+                        disabled={isLoading}
+                    >
+                        <option value="publication">Every publication</option>
+                        <option value="family">One per patent family</option>
+                    </select>
+                </div>
+                {groupBy === 'family' && (
+                    <div>
+                        <label htmlFor="preferred-jurisdiction" className="block text-sm font-medium text-gray-700 mb-2">
+                            Show Family As
+                        </label>
+                        <select
+                            id="preferred-jurisdiction"
+                            className="block w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            value={jurisdiction}
+                            onChange={(e) => setJurisdiction(e.target.value)}
+                            disabled={isLoading}
+                        >
+                            {jurisdictions.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {searchType === 'hybrid' && (
+                    <div>
+                        <label htmlFor="fusion-method" className="block text-sm font-medium text-gray-700 mb-2">
+                            Result Ranking
+                        </label>
+                        <select
+                            id="fusion-method"
+                            className="block w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            value={fusionMethod}
+                            onChange={(e) => setFusionMethod(e.target.value as FusionOptions['method'])}
+                            disabled={isLoading}
+                        >
+                            <option value="rrf">Reciprocal rank fusion</option>
+                            <option value="weighted">Weighted score blend</option>
+                        </select>
+                    </div>
+                )}
+            </div>
             {}
             <div className="flex justify-end">
                 <button
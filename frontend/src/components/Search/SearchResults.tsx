@@ -1,9 +1,37 @@
 import React from 'react';
-import { Clock, FileText } from 'lucide-react';
-import { PatentResult } from '../../types/patent';
+import { Link } from 'react-router-dom';
+import { Clock, FileText, ChevronDown } from 'lucide-react';
+import { MatchedPassage, PatentResult } from '../../types/patent';
+import { HighlightedText } from '../UI/HighlightedText';
+import { FamilyMembers } from '../Patent/FamilyMembers';
+import { formatDate } from '../../utils/dates';
+// Keyword-only hits carry an unbounded BM25 relevance rather than a 0-1 similarity
+const isKeywordOnly = (patent: PatentResult) =>
+    patent.ranking?.method === 'single' && !!patent.ranking.sources.keyword;
+const describeClassification = (patent: PatentResult, code: string) => {
+    const detail = patent.classification_details?.find(c => c.scheme === 'CPC' && c.code === code);
+    if (!detail) {
+        return `CPC ${code}`;
+    }
+    return `CPC ${code} (${detail.first ? 'first-listed, ' : ''}${detail.inventive ? 'inventive' : 'additional'})`;
+};
+const passageLabel = (passage: MatchedPassage) => {
+    switch (passage.section) {
+        case 'claim':
+            return `Claim ${passage.claim_number}`;
+        case 'description':
+            return 'Description';
+        default:
+            return passage.language ? `Abstract (${passage.language.toUpperCase()})` : 'Abstract';
+    }
+};
+// Languages the title is also published in, besides the one shown
+const otherLanguages = (patent: PatentResult) =>
+    patent.titles.filter(title => title.text !== patent.title).map(title => title.language.toUpperCase());
 interface SearchResultsProps {
     results: PatentResult[];
     totalResults: number;
+    totalIsEstimate?: boolean;
     searchTime: number;
     searchMetadata?: {
         semantic_results?: number;
@@ -12,6 +40,9 @@ interface SearchResultsProps {
         filters_applied?: string[];
     };
     query: string;
+    hasMore?: boolean;
+    isLoadingMore?: boolean;
+    onLoadMore?: () => void;
 }
 export const SearchResults: React.FC<SearchResultsProps> = ({
     results,
@@ -19,6 +50,10 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
     searchTime,
     searchMetadata,
     query,
+    totalIsEstimate = false,
+    hasMore = false,
+    isLoadingMore = false,
+    onLoadMore,
 }) => {
     return (
         <div className="p-6">
@@ -27,10 +62,10 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                 <div className="flex items-center justify-between">
                     <div>
                         <h3 className="text-lg font-medium text-gray-900">
-                            {totalResults.toLocaleString()} patents found
+                            {totalIsEstimate ? 'About ' : ''}{totalResults.toLocaleString()}{totalIsEstimate ? '+' : ''} patents found
                         </h3>
                         <p className="text-sm text-gray-500">
-                            Showing {results.length} results for "{query}"
+                            Showing {results.length} of {totalResults.toLocaleString()} results for "{query}"
                         </p>
                     </div>
                     <div className="flex items-center text-sm text-gray-500">
@@ -67,24 +102,88 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                     <span className="text-sm text-gray-500">
                                         {patent.country_code}
                                     </span>
-                                    {patent.similarity_score > 0 && (
+                                    {patent.similarity_score > 0 && (isKeywordOnly(patent) ? (
+                                        <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
+                                            Relevance {patent.similarity_score.toFixed(2)}
+                                        </span>
+                                    ) : (
                                         <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                                             {Math.round(patent.similarity_score * 100)}% match
                                         </span>
-                                    )}
+                                    ))}
                                 </div>
+                                {patent.ranking && patent.ranking.method !== 'single' && (
+                                    <div className="flex flex-wrap gap-2 mb-2 text-xs text-gray-500">
+                                        {patent.ranking.sources.semantic && (
+                                            <span title={`Semantic score ${patent.ranking.sources.semantic.score.toFixed(3)}`}>
+                                                Semantic #{patent.ranking.sources.semantic.rank}
+                                            </span>
+                                        )}
+                                        {patent.ranking.sources.keyword && (
+                                            <span title={`Keyword score ${patent.ranking.sources.keyword.score.toFixed(3)}`}>
+                                                Keyword #{patent.ranking.sources.keyword.rank}
+                                            </span>
+                                        )}
+                                        <span className="text-gray-400">
+                                            ({patent.ranking.method === 'rrf' ? 'reciprocal rank fusion' : 'weighted blend'})
+                                        </span>
+                                    </div>
+                                )}
                                 <h4 className="text-lg font-medium text-gray-900 mb-2">
                                     {patent.title}
                                 </h4>
+                                {otherLanguages(patent).length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1 mb-2 text-xs text-gray-500">
+                                        Also in:
+                                        {otherLanguages(patent).map(language => (
+                                            <span key={language} className="bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
+                                                {language}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                                 <p className="text-sm text-gray-600 mb-3 line-clamp-3">
                                     {patent.abstract}
                                 </p>
+                                {patent.matched_passage && (
+                                    <p className="mb-3 border-l-2 border-blue-200 pl-3 text-sm text-gray-600 line-clamp-3">
+                                        <span className="text-xs font-medium text-blue-700 mr-1">
+                                            {passageLabel(patent.matched_passage)}:
+                                        </span>
+                                        {patent.matched_passage.start > 0 && '… '}
+                                        <HighlightedText
+                                            text={patent.matched_passage.text}
+                                            highlights={patent.matched_passage.highlights}
+                                        />
+                                    </p>
+                                )}
+                                {!patent.matched_passage && patent.matched_claim && (
+                                    <p className="mb-3 border-l-2 border-blue-200 pl-3 text-sm text-gray-600 line-clamp-2">
+                                        <span className="text-xs font-medium text-blue-700 mr-1">
+                                            Claim {patent.matched_claim.number}:
+                                        </span>
+                                        {patent.matched_claim.text}
+                                    </p>
+                                )}
+                                {patent.keyword_matches && patent.keyword_matches.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1 mb-3 text-xs text-gray-500">
+                                        <span>Matched:</span>
+                                        {patent.keyword_matches.map((term) => (
+                                            <span key={term} className="bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">
+                                                {term}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                                 <div className="flex flex-wrap gap-4 text-sm text-gray-500">
                                     <span>
-                                        <strong>Assignee:</strong> {patent.assignee}
+                                        <strong>Assignee:</strong> {patent.assignee_normalized || patent.assignee}
+                                        {patent.assignee_normalized && patent.assignee_normalized !== patent.assignee && (
+                                            <span className="text-gray-400" title="Name as published"> ({patent.assignee})</span>
+                                        )}
                                     </span>
                                     <span>
-                                        <strong>Published:</strong> {new Date(patent.publication_date).toLocaleDateString()}
+                                        <strong>Published:</strong> {formatDate(patent.publication_date)}
                                     </span>
                                     {patent.inventors.length > 0 && (
                                         <span>
@@ -100,6 +199,7 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                                 <span
                                                     key={index}
                                                     className="inline-block bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded"
+                                                    title={describeClassification(patent, classification)}
                                                 >
                                                     {classification}
                                                 </span>
@@ -112,13 +212,19 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                                         </div>
                                     </div>
                                 )}
+                                {patent.family_members && (
+                                    <FamilyMembers members={patent.family_members} />
+                                )}
                             </div>
                         </div>
                         <div className="mt-4 pt-4 border-t border-gray-100 flex justify-between items-center">
                             <div className="flex gap-2">
-                                <button className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                                <Link
+                                    to={`/patent/${patent.patent_id}`}
+                                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                                >
                                     View Details
-                                </button>
+                                </Link>
                                 <button className="text-sm text-gray-600 hover:text-gray-800 font-medium">
                                     Find Similar
                                 </button>
@@ -137,6 +243,19 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                     </div>
                 ))}
             </div>
+            {}
+            {hasMore && onLoadMore && (
+                <div className="mt-6 flex justify-center">
+                    <button
+                        onClick={onLoadMore}
+                        disabled={isLoadingMore}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                        <ChevronDown className="w-4 h-4 mr-2" />
+                        {isLoadingMore ? 'Loading...' : 'Load more results'}
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,30 @@
+import React from 'react';
+import { TextSpan } from '../../types/patent';
+interface HighlightedTextProps {
+    text: string;
+    highlights: TextSpan[];
+}
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights }) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    // Spans arrive in reading order; overlapping ones are merged into the earlier one
+    highlights.forEach(({ start, end }, index) => {
+        if (end <= position) {
+            return;
+        }
+        const from = Math.max(start, position);
+        if (from > position) {
+            parts.push(text.slice(position, from));
+        }
+        parts.push(
+            <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+                {text.slice(from, end)}
+            </mark>
+        );
+        position = end;
+    });
+    if (position < text.length) {
+        parts.push(text.slice(position));
+    }
+    return <>{parts}</>;
+};
@@ -1,15 +1,332 @@
-import React from 'react';
-import { BarChart3 } from 'lucide-react';
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { Link } from 'react-router-dom';
+import { BarChart3, Filter, Search as SearchIcon } from 'lucide-react';
+import { SearchFilters } from '../components/Search/SearchFilters';
+import { FilingTrendChart } from '../components/Analytics/FilingTrendChart';
+import { RankingBarChart } from '../components/Analytics/RankingBarChart';
+import { ClusterMap, clusterColor } from '../components/Analytics/ClusterMap';
+import { CitationGraph } from '../components/Analytics/CitationGraph';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { EmptyState } from '../components/UI/EmptyState';
+import { api } from '../services/api';
+import { CitationCategory, CitationNetworkOptions, SearchFilters as SearchFiltersType } from '../types/patent';
+
+interface LandscapeRequest {
+    query: string;
+    filters?: SearchFiltersType;
+    citations: CitationNetworkOptions;
+    clusters?: number;
+}
+
+const CITATION_CATEGORIES: { value: CitationCategory; label: string }[] = [
+    { value: 'examiner', label: 'Examiner' },
+    { value: 'search_report', label: 'Search report' },
+    { value: 'applicant', label: 'Applicant' },
+    { value: 'other', label: 'Other' },
+];
+
 export const Analytics: React.FC = () => {
+    const [request, setRequest] = useState<LandscapeRequest | null>(null);
+    const [showFilters, setShowFilters] = useState(false);
+    const [query, setQuery] = useState('');
+    const [hops, setHops] = useState<CitationNetworkOptions['hops']>(0);
+    const [categories, setCategories] = useState<CitationCategory[]>(CITATION_CATEGORIES.map(c => c.value));
+    const [clusters, setClusters] = useState('');
+
+    const { data, isLoading, error, refetch } = useQuery(
+        ['patent-landscape', request],
+        () => api.getPatentLandscape(
+            request!.query,
+            request!.filters,
+            request!.citations,
+            request!.clusters ? { k: request!.clusters } : undefined
+        ),
+        { enabled: !!request, keepPreviousData: true }
+    );
+    const landscape = data?.data;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim() || categories.length === 0) {
+            return;
+        }
+        setRequest({
+            query: query.trim(),
+            filters: request?.filters,
+            // Every category selected is the same as no category filter
+            citations: {
+                hops,
+                ...(categories.length < CITATION_CATEGORIES.length && { categories }),
+            },
+            clusters: clusters ? Number(clusters) : undefined,
+        });
+    };
+
+    const handleFiltersChange = (filters: SearchFiltersType) => {
+        if (request) {
+            setRequest({ ...request, filters });
+        }
+    };
+
+    const toggleCategory = (category: CitationCategory) => {
+        setCategories(categories.includes(category)
+            ? categories.filter(c => c !== category)
+            : [...categories, category]);
+    };
+
     return (
         <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow-sm border-b">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                            <BarChart3 className="w-8 h-8 text-blue-600" />
+                            <div>
+                                <h1 className="text-2xl font-bold text-gray-900">Patent Analytics</h1>
+                                <p className="text-sm text-gray-600">
+                                    Filing trends, key players, technology clusters and citations for any technology area
+                                </p>
+                            </div>
+                        </div>
+
+                        <button
+                            onClick={() => setShowFilters(!showFilters)}
+                            className={`inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${showFilters ? 'bg-blue-50 border-blue-300 text-blue-700' : ''
+                                }`}
+                        >
+                            <Filter className="w-4 h-4 mr-2" />
+                            Filters
+                        </button>
+                    </div>
+                </div>
+            </div>
+
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                <div className="text-center">
-                    <BarChart3 className="mx-auto h-12 w-12 text-gray-400" />
-                    <h1 className="mt-2 text-2xl font-bold text-gray-900">Patent Analytics</h1>
-                    <p className="mt-1 text-sm text-gray-600">
-                        Coming soon - Patent landscape analysis and insights
-                    </p>
+                <div className="flex gap-8">
+                    {/* Sidebar - Filters */}
+                    {showFilters && (
+                        <div className="w-80 flex-shrink-0">
+                            <div className="bg-white rounded-lg shadow-sm border p-6">
+                                <h3 className="text-lg font-medium text-gray-900 mb-4">Landscape Filters</h3>
+                                <SearchFilters
+                                    filters={request?.filters}
+                                    onFiltersChange={handleFiltersChange}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Main Content */}
+                    <div className="flex-1 min-w-0 space-y-6">
+                        {/* Landscape Form */}
+                        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+                            <div className="flex items-center space-x-2">
+                                <div className="relative flex-1">
+                                    <SearchIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                                    <input
+                                        type="text"
+                                        value={query}
+                                        onChange={(e) => setQuery(e.target.value)}
+                                        placeholder="Technology area, e.g. solid state battery electrolyte"
+                                        className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                                    />
+                                </div>
+                                <button
+                                    type="submit"
+                                    disabled={!query.trim() || categories.length === 0 || isLoading}
+                                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                >
+                                    Analyze
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Citation Network
+                                    </label>
+                                    <select
+                                        value={hops}
+                                        onChange={(e) => setHops(Number(e.target.value) as CitationNetworkOptions['hops'])}
+                                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        <option value={0}>Matching patents only</option>
+                                        <option value={1}>Expand one citation step</option>
+                                        <option value={2}>Expand two citation steps</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Technology Clusters
+                                    </label>
+                                    <select
+                                        value={clusters}
+                                        onChange={(e) => setClusters(e.target.value)}
+                                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        <option value="">Automatic</option>
+                                        {[2, 3, 4, 5, 6, 8, 10].map(k => (
+                                            <option key={k} value={k}>{k} clusters</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <span className="block text-sm font-medium text-gray-700 mb-1">
+                                        Citations Followed
+                                    </span>
+                                    <div className="grid grid-cols-2 gap-1">
+                                        {CITATION_CATEGORIES.map(category => (
+                                            <label key={category.value} className="inline-flex items-center">
+                                                <input
+                                                    type="checkbox"
+                                                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                                                    checked={categories.includes(category.value)}
+                                                    onChange={() => toggleCategory(category.value)}
+                                                />
+                                                <span className="ml-2 text-sm text-gray-700">{category.label}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        </form>
+
+                        {!request && (
+                            <div className="bg-white rounded-lg shadow-sm border">
+                                <EmptyState
+                                    icon={BarChart3}
+                                    title="Map a technology landscape"
+                                    description="Describe a technology area to see who files in it, how it is growing and how its patents cite each other"
+                                />
+                            </div>
+                        )}
+
+                        {isLoading && (
+                            <div className="bg-white rounded-lg shadow-sm border p-8">
+                                <LoadingSpinner size="lg" />
+                                <p className="text-center text-gray-600 mt-4">
+                                    Analyzing the patent landscape...
+                                </p>
+                            </div>
+                        )}
+
+                        {!!error && !isLoading && (
+                            <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
+                                <p className="text-red-600 mb-4">
+                                    The landscape could not be generated. Please try again.
+                                </p>
+                                <button
+                                    onClick={() => refetch()}
+                                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                                >
+                                    Retry
+                                </button>
+                            </div>
+                        )}
+
+                        {landscape && !isLoading && (
+                            <>
+                                {/* Summary */}
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                    {[
+                                        { label: 'Matching patents', value: landscape.statistics.totalPatents.toLocaleString() },
+                                        { label: 'Technology clusters', value: landscape.clustering.k },
+                                        { label: 'Citation network', value: `${landscape.citationNetwork.nodes.length} patents` },
+                                        { label: 'Citations', value: landscape.citationNetwork.edges.length },
+                                    ].map(stat => (
+                                        <div key={stat.label} className="bg-white rounded-lg shadow-sm border p-4">
+                                            <p className="text-xs text-gray-500">{stat.label}</p>
+                                            <p className="mt-1 text-2xl font-semibold text-gray-900">{stat.value}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-500 -mt-2">
+                                    Trend, assignee and CPC figures cover: {landscape.statistics.population.description}.
+                                </p>
+
+                                <div className="bg-white rounded-lg shadow-sm border p-6">
+                                    <h3 className="text-sm font-medium text-gray-900 mb-4">Publications by Year</h3>
+                                    <FilingTrendChart data={landscape.statistics.yearlyDistribution} />
+                                </div>
+
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                    <div className="bg-white rounded-lg shadow-sm border p-6">
+                                        <h3 className="text-sm font-medium text-gray-900 mb-4">Top Assignees</h3>
+                                        <RankingBarChart
+                                            data={landscape.statistics.topAssignees.map(a => ({ label: a.assignee, count: a.count }))}
+                                            color="#2563eb"
+                                            emptyMessage="No assignees recorded."
+                                        />
+                                        {landscape.statistics.topAssignees
+                                            .filter(a => a.companies.length > 1)
+                                            .map(a => (
+                                                <p key={a.assignee} className="mt-2 text-xs text-gray-500">
+                                                    {a.assignee}: {a.companies.map(c => `${c.name} ${c.count}`).join(', ')}
+                                                </p>
+                                            ))}
+                                    </div>
+                                    <div className="bg-white rounded-lg shadow-sm border p-6">
+                                        <h3 className="text-sm font-medium text-gray-900 mb-4">Top CPC Classifications</h3>
+                                        <RankingBarChart
+                                            data={landscape.statistics.topClassifications.map(c => ({ label: c.classification, count: c.count }))}
+                                            color="#16a34a"
+                                            emptyMessage="No classifications recorded."
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="bg-white rounded-lg shadow-sm border p-6">
+                                    <div className="flex items-baseline justify-between mb-4">
+                                        <h3 className="text-sm font-medium text-gray-900">Technology Clusters</h3>
+                                        {landscape.clustering.k > 1 && (
+                                            <span className="text-xs text-gray-500">
+                                                Silhouette {landscape.clustering.silhouette.toFixed(2)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex flex-col lg:flex-row gap-6">
+                                        <div className="flex-1 min-w-0">
+                                            <ClusterMap
+                                                clusters={landscape.technologyClusters}
+                                                points={landscape.patentMap}
+                                            />
+                                        </div>
+                                        <ul className="lg:w-72 flex-shrink-0 space-y-3">
+                                            {landscape.technologyClusters.map((cluster, index) => (
+                                                <li key={cluster.cluster_id} className="text-sm">
+                                                    <div className="flex items-center">
+                                                        <span
+                                                            className="w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0"
+                                                            style={{ backgroundColor: clusterColor(index) }}
+                                                        />
+                                                        <span className="font-medium text-gray-900">{cluster.label || cluster.cluster_id}</span>
+                                                        <span className="ml-auto text-xs text-gray-500">{cluster.patent_count}</span>
+                                                    </div>
+                                                    <div className="mt-1 ml-4 flex flex-wrap gap-1">
+                                                        {cluster.representative_patents.slice(0, 3).map(patentId => (
+                                                            <Link
+                                                                key={patentId}
+                                                                to={`/patent/${patentId}`}
+                                                                className="text-xs font-mono text-blue-600 hover:underline"
+                                                            >
+                                                                {patentId}
+                                                            </Link>
+                                                        ))}
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+
+                                <div className="bg-white rounded-lg shadow-sm border p-6">
+                                    <h3 className="text-sm font-medium text-gray-900 mb-4">Citation Network</h3>
+                                    <CitationGraph network={landscape.citationNetwork} />
+                                </div>
+                            </>
+                        )}
+                    </div>
                 </div>
             </div>
         </div>
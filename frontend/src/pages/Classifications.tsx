@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { FolderTree, ChevronRight, Search as SearchIcon } from 'lucide-react';
+import { CpcTree } from '../components/Classification/CpcTree';
+import { PatentCard } from '../components/Patent/PatentCard';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { EmptyState } from '../components/UI/EmptyState';
+import { api } from '../services/api';
+import { CpcNode } from '../types/patent';
+
+export const Classifications: React.FC = () => {
+    const [selected, setSelected] = useState<string>();
+    const [codeInput, setCodeInput] = useState('');
+    const [searchText, setSearchText] = useState('');
+    const [withinQuery, setWithinQuery] = useState('');
+
+    const { data: sections, isLoading: sectionsLoading } = useQuery(
+        'cpc-sections',
+        () => api.getClassificationSections()
+    );
+
+    // Selected entry with its ancestors and children
+    const { data: detail, error: detailError } = useQuery(
+        ['cpc-classification', selected],
+        () => api.getClassification(selected!),
+        { enabled: !!selected, retry: false }
+    );
+    const node = detail?.data;
+    const searchPrefix = node?.search_prefix;
+
+    // Newest patents under the selection, or search results within it once a query is entered
+    const { data: patents, isLoading: patentsLoading } = useQuery(
+        ['cpc-patents', selected, withinQuery],
+        async () => withinQuery
+            ? (await api.searchPatents({
+                query: withinQuery,
+                searchType: 'hybrid',
+                limit: 20,
+                filters: { classifications: [searchPrefix!] },
+            })).data.results
+            : (await api.getClassificationPatents(selected!, 20)).data.results,
+        { enabled: !!searchPrefix }
+    );
+
+    const select = (symbol: string) => {
+        setSelected(symbol.replace(/\s+/g, '').toUpperCase());
+        setSearchText('');
+        setWithinQuery('');
+    };
+
+    const handleJump = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (codeInput.trim()) {
+            select(codeInput);
+        }
+    };
+
+    const handleSearchWithin = (e: React.FormEvent) => {
+        e.preventDefault();
+        setWithinQuery(searchText.trim());
+    };
+
+    const breadcrumb = (item: CpcNode) => (
+        <button
+            key={item.symbol}
+            type="button"
+            onClick={() => select(item.symbol)}
+            className="font-mono text-blue-600 hover:underline"
+        >
+            {item.symbol}
+        </button>
+    );
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow-sm border-b">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                            <FolderTree className="w-8 h-8 text-blue-600" />
+                            <div>
+                                <h1 className="text-2xl font-bold text-gray-900">CPC Browser</h1>
+                                <p className="text-sm text-gray-600">
+                                    Drill into the Cooperative Patent Classification and search within any code
+                                </p>
+                            </div>
+                        </div>
+                        <form onSubmit={handleJump} className="flex items-center space-x-2">
+                            <input
+                                type="text"
+                                value={codeInput}
+                                onChange={(e) => setCodeInput(e.target.value)}
+                                placeholder="e.g. H01M4/38"
+                                className="block w-40 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                            <button
+                                type="submit"
+                                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                            >
+                                Go
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                <div className="flex gap-8">
+                    {/* Sidebar - Hierarchy */}
+                    <div className="w-96 flex-shrink-0">
+                        <div className="bg-white rounded-lg shadow-sm border p-4">
+                            {sectionsLoading && <LoadingSpinner />}
+                            {sections && (
+                                <CpcTree
+                                    nodes={sections.data.sections}
+                                    selected={selected}
+                                    onSelect={(item) => select(item.symbol)}
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Main Content */}
+                    <div className="flex-1 min-w-0">
+                        {!selected && (
+                            <div className="bg-white rounded-lg shadow-sm border">
+                                <EmptyState
+                                    icon={FolderTree}
+                                    title="Pick a classification"
+                                    description="Expand a section on the left or jump straight to a CPC code"
+                                />
+                            </div>
+                        )}
+
+                        {selected && !!detailError && (
+                            <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-red-600">
+                                {selected} is not in the classification scheme.
+                            </div>
+                        )}
+
+                        {node && (
+                            <div className="space-y-6">
+                                <div className="bg-white rounded-lg shadow-sm border p-6">
+                                    {node.ancestors.length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-1 text-sm mb-2">
+                                            {node.ancestors.map(ancestor => (
+                                                <React.Fragment key={ancestor.symbol}>
+                                                    {breadcrumb(ancestor)}
+                                                    <ChevronRight className="w-3 h-3 text-gray-400" />
+                                                </React.Fragment>
+                                            ))}
+                                            <span className="font-mono text-gray-700">{node.symbol}</span>
+                                        </div>
+                                    )}
+                                    <h2 className="text-lg font-medium text-gray-900">
+                                        <span className="font-mono mr-2">{node.symbol}</span>
+                                        {node.title}
+                                    </h2>
+                                    <p className="text-xs text-gray-500 mt-1 capitalize">{node.level}</p>
+
+                                    {node.children.length > 0 && (
+                                        <div className="mt-4 grid grid-cols-1 gap-1">
+                                            {node.children.map(child => (
+                                                <button
+                                                    key={child.symbol}
+                                                    type="button"
+                                                    onClick={() => select(child.symbol)}
+                                                    className="text-left text-sm px-2 py-1 rounded hover:bg-gray-50"
+                                                >
+                                                    <span className="font-mono font-medium text-blue-600 mr-2">{child.symbol}</span>
+                                                    <span className="text-gray-600">{child.title}</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <form onSubmit={handleSearchWithin} className="mt-6 flex items-center space-x-2">
+                                        <div className="relative flex-1">
+                                            <SearchIcon className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                                            <input
+                                                type="text"
+                                                value={searchText}
+                                                onChange={(e) => setSearchText(e.target.value)}
+                                                placeholder={`Search within ${node.symbol}`}
+                                                className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                                            />
+                                        </div>
+                                        <button
+                                            type="submit"
+                                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                        >
+                                            Search
+                                        </button>
+                                    </form>
+                                </div>
+
+                                <div className="bg-white rounded-lg shadow-sm border p-6">
+                                    <h3 className="text-sm font-medium text-gray-900 mb-4">
+                                        {withinQuery ? `Results for "${withinQuery}" in ${node.symbol}` : `Latest patents in ${node.symbol}`}
+                                    </h3>
+                                    {patentsLoading && <LoadingSpinner />}
+                                    {patents && patents.length === 0 && (
+                                        <p className="text-sm text-gray-500">No patents found.</p>
+                                    )}
+                                    {patents && patents.length > 0 && (
+                                        <div className="space-y-3">
+                                            {patents.map(patent => (
+                                                <PatentCard key={patent.patent_id} patent={patent} />
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
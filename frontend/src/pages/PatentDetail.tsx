@@ -1,20 +1,287 @@
-import React from 'react';
-import { useParams } from 'react-router-dom';
-import { FileText } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useInfiniteQuery, useQuery } from 'react-query';
+import { FileText, ExternalLink } from 'lucide-react';
+import { PatentCard } from '../components/Patent/PatentCard';
+import { ClaimTree } from '../components/Patent/ClaimTree';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { EmptyState } from '../components/UI/EmptyState';
+import { api } from '../services/api';
+import { PatentResult } from '../types/patent';
+import { formatDate } from '../utils/dates';
+
+type DetailTab = 'claims' | 'citations' | 'similar' | 'family';
+
+const PatentList: React.FC<{ patents: PatentResult[]; empty: string }> = ({ patents, empty }) => {
+    if (patents.length === 0) {
+        return <p className="text-sm text-gray-500">{empty}</p>;
+    }
+    return (
+        <div className="space-y-3">
+            {patents.map(patent => (
+                <PatentCard key={patent.patent_id} patent={patent} />
+            ))}
+        </div>
+    );
+};
+
 export const PatentDetail: React.FC = () => {
     const { patentId } = useParams<{ patentId: string }>();
+    const [activeTab, setActiveTab] = useState<DetailTab>('claims');
+    const [citationsByFamily, setCitationsByFamily] = useState(false);
+
+    const { data, isLoading, error } = useQuery(
+        ['patent-detail', patentId],
+        () => api.getPatent(patentId!),
+        { enabled: !!patentId, retry: false }
+    );
+
+    // Citations and similar patents come from one request, fetched when either tab opens;
+    // later pages add citations only
+    const {
+        data: related,
+        isLoading: relatedLoading,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery(
+        ['patent-related', patentId, citationsByFamily],
+        ({ pageParam }) => api.getRelatedPatents(patentId!, { family: citationsByFamily, cursor: pageParam }),
+        {
+            enabled: !!patentId && (activeTab === 'citations' || activeTab === 'similar'),
+            getNextPageParam: (lastPage) => lastPage.data.next_cursor ?? undefined,
+        }
+    );
+
+    if (isLoading) {
+        return (
+            <div className="p-8">
+                <LoadingSpinner size="lg" />
+            </div>
+        );
+    }
+
+    const patent = data?.data;
+    if (error || !patent) {
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <EmptyState
+                        icon={FileText}
+                        title="Patent not found"
+                        description={`No patent with ID ${patentId} could be loaded`}
+                    />
+                </div>
+            </div>
+        );
+    }
+
+    const otherTitles = patent.titles.filter(title => title.text !== patent.title);
+    const relatedPages = related?.pages.map(page => page.data) ?? [];
+    const relatedPatents = relatedPages[0] && {
+        citing: relatedPages.flatMap(page => page.related_patents.citing),
+        cited: relatedPages.flatMap(page => page.related_patents.cited),
+        similar: relatedPages[0].related_patents.similar,
+        total_citing: relatedPages[0].total_citing,
+        total_cited: relatedPages[0].total_cited,
+    };
+
+    const tabs: { id: DetailTab; label: string }[] = [
+        { id: 'claims', label: 'Claims' },
+        { id: 'citations', label: `Citations (${patent.citation_counts.backward} / ${patent.citation_counts.forward})` },
+        { id: 'similar', label: 'Similar' },
+        { id: 'family', label: `Family (${patent.family_members.length})` },
+    ];
+
+    const facts: [string, React.ReactNode][] = [
+        ['Publication', `${patent.patent_id} (${patent.kind_code})`],
+        ['Application', patent.application_number || '—'],
+        ['Priority date', formatDate(patent.priority_date)],
+        ['Filing date', formatDate(patent.filing_date)],
+        ['Publication date', formatDate(patent.publication_date)],
+        ['Grant date', formatDate(patent.grant_date)],
+        ['Assignees', patent.assignees.map(a => a.name).join('; ') || '—'],
+        ['Inventors', patent.inventor_details.map(i => i.name).join('; ') || '—'],
+        ['Non-patent citations', patent.citation_counts.non_patent],
+    ];
+
     return (
         <div className="min-h-screen bg-gray-50">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                <div className="text-center">
-                    <FileText className="mx-auto h-12 w-12 text-gray-400" />
-                    <h1 className="mt-2 text-2xl font-bold text-gray-900">Patent Detail</h1>
-                    <p className="mt-1 text-sm text-gray-600">
-                        Patent ID: {patentId}
-                    </p>
-                    <p className="mt-1 text-sm text-gray-600">
-                        Coming soon - Detailed patent view with citations and analysis
-                    </p>
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {/* Header */}
+                <div className="bg-white rounded-lg shadow-sm border p-6">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <p className="text-sm font-mono text-gray-500">{patent.patent_id}</p>
+                            <h1 className="mt-1 text-2xl font-bold text-gray-900">{patent.title}</h1>
+                            {otherTitles.map(title => (
+                                <p key={title.language} className="mt-1 text-sm text-gray-600">
+                                    <span className="uppercase text-xs text-gray-400 mr-2">{title.language}</span>
+                                    {title.text}
+                                </p>
+                            ))}
+                        </div>
+                        <a
+                            href={patent.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium flex-shrink-0"
+                        >
+                            View Original
+                            <ExternalLink className="w-4 h-4 ml-1" />
+                        </a>
+                    </div>
+
+                    {patent.abstracts.map(abstract => (
+                        <p key={abstract.language} className="mt-4 text-sm text-gray-700">
+                            {patent.abstracts.length > 1 && (
+                                <span className="uppercase text-xs text-gray-400 mr-2">{abstract.language}</span>
+                            )}
+                            {abstract.text}
+                        </p>
+                    ))}
+
+                    <dl className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-3 text-sm">
+                        {facts.map(([label, value]) => (
+                            <div key={label}>
+                                <dt className="text-gray-500">{label}</dt>
+                                <dd className="text-gray-900">{value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+
+                    {patent.classification_details && patent.classification_details.length > 0 && (
+                        <div className="mt-6 flex flex-wrap gap-1">
+                            {patent.classification_details.map(classification => (
+                                <span
+                                    key={`${classification.scheme}-${classification.code}`}
+                                    className={`inline-block text-xs px-2 py-1 rounded ${classification.inventive ? 'bg-blue-50 text-blue-800' : 'bg-gray-100 text-gray-700'}`}
+                                    title={`${classification.scheme} ${classification.inventive ? 'inventive' : 'additional'}${classification.first ? ', first-listed' : ''}`}
+                                >
+                                    <span className="text-gray-400 mr-1">{classification.scheme}</span>
+                                    {classification.code}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Tabs */}
+                <div className="bg-white rounded-lg shadow-sm border">
+                    <div className="border-b border-gray-200 px-6">
+                        <nav className="-mb-px flex space-x-8">
+                            {tabs.map(tab => (
+                                <button
+                                    key={tab.id}
+                                    onClick={() => setActiveTab(tab.id)}
+                                    className={`${activeTab === tab.id
+                                            ? 'border-blue-500 text-blue-600'
+                                            : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                                        } py-4 px-1 border-b-2 text-sm font-medium`}
+                                >
+                                    {tab.label}
+                                </button>
+                            ))}
+                        </nav>
+                    </div>
+
+                    <div className="p-6">
+                        {activeTab === 'claims' && (
+                            patent.parsed_claims.length > 0 ? (
+                                <div>
+                                    <p className="mb-4 text-xs text-gray-500">
+                                        {patent.parsed_claims.filter(c => c.type === 'independent').length} independent, {patent.parsed_claims.filter(c => c.type === 'dependent').length} dependent claims
+                                    </p>
+                                    <ClaimTree claims={patent.parsed_claims} />
+                                    {patent.claims.some(c => c.truncated) && (
+                                        <p className="mt-2 text-xs text-gray-400">Claims text truncated at source.</p>
+                                    )}
+                                </div>
+                            ) : patent.claims.length > 0 ? (
+                                patent.claims.map(claims => (
+                                    <div key={claims.language} className="text-sm text-gray-700 whitespace-pre-line">
+                                        {claims.text}
+                                        {claims.truncated && (
+                                            <p className="mt-2 text-xs text-gray-400">Claims text truncated at source.</p>
+                                        )}
+                                    </div>
+                                ))
+                            ) : (
+                                <p className="text-sm text-gray-500">No claims text available.</p>
+                            )
+                        )}
+
+                        {(activeTab === 'citations' || activeTab === 'similar') && relatedLoading && <LoadingSpinner />}
+
+                        {activeTab === 'citations' && relatedPatents && (
+                            <div className="space-y-6">
+                                <label className="inline-flex items-center text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        checked={citationsByFamily}
+                                        onChange={(e) => setCitationsByFamily(e.target.checked)}
+                                    />
+                                    Combine citations of the whole family, one entry per family
+                                </label>
+                                <div>
+                                    <h3 className="text-sm font-medium text-gray-900 mb-3">Cited by ({relatedPatents.total_citing})</h3>
+                                    <PatentList patents={relatedPatents.citing} empty="No citing patents found." />
+                                </div>
+                                <div>
+                                    <h3 className="text-sm font-medium text-gray-900 mb-3">Cites ({relatedPatents.total_cited})</h3>
+                                    <PatentList patents={relatedPatents.cited} empty="No cited patents found." />
+                                </div>
+                                {hasNextPage && (
+                                    <button
+                                        type="button"
+                                        className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                                        onClick={() => fetchNextPage()}
+                                        disabled={isFetchingNextPage}
+                                    >
+                                        {isFetchingNextPage ? 'Loading…' : 'Load more citations'}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {activeTab === 'similar' && relatedPatents && (
+                            <PatentList patents={relatedPatents.similar} empty="No semantically similar patents found." />
+                        )}
+
+                        {activeTab === 'family' && (
+                            patent.family_members.length > 0 ? (
+                                <table className="min-w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-gray-500">
+                                            <th className="py-2 pr-4 font-medium">Publication</th>
+                                            <th className="py-2 pr-4 font-medium">Country</th>
+                                            <th className="py-2 pr-4 font-medium">Kind</th>
+                                            <th className="py-2 pr-4 font-medium">Published</th>
+                                            <th className="py-2 font-medium">Title</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {patent.family_members.map(member => (
+                                            <tr key={member.patent_id}>
+                                                <td className="py-2 pr-4 font-mono">
+                                                    <Link to={`/patent/${member.patent_id}`} className="text-blue-600 hover:underline">
+                                                        {member.patent_id}
+                                                    </Link>
+                                                </td>
+                                                <td className="py-2 pr-4">{member.country_code}</td>
+                                                <td className="py-2 pr-4">{member.kind_code}</td>
+                                                <td className="py-2 pr-4">{formatDate(member.publication_date)}</td>
+                                                <td className="py-2 text-gray-700">{member.title}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            ) : (
+                                <p className="text-sm text-gray-500">No other family members.</p>
+                            )
+                        )}
+                    </div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { Link } from 'react-router-dom';
+import { Briefcase } from 'lucide-react';
+import { AssigneePicker } from '../components/Analytics/AssigneePicker';
+import { JurisdictionTrendChart } from '../components/Analytics/JurisdictionTrendChart';
+import { RankingBarChart } from '../components/Analytics/RankingBarChart';
+import { FamilySizeChart } from '../components/Analytics/FamilySizeChart';
+import { LoadingSpinner } from '../components/UI/LoadingSpinner';
+import { EmptyState } from '../components/UI/EmptyState';
+import { api } from '../services/api';
+import { formatDate } from '../utils/dates';
+
+interface PortfolioRequest {
+    assignees: string[];
+    start?: string;
+    end?: string;
+}
+
+export const Portfolio: React.FC = () => {
+    const [request, setRequest] = useState<PortfolioRequest | null>(null);
+    const [assignees, setAssignees] = useState<string[]>([]);
+    const [start, setStart] = useState('');
+    const [end, setEnd] = useState('');
+
+    const { data, isLoading, error, refetch } = useQuery(
+        ['patent-portfolio', request],
+        () => api.getPortfolio(
+            request!.assignees,
+            request!.start || request!.end ? { dateRange: { start: request!.start, end: request!.end } } : undefined
+        ),
+        { enabled: !!request, keepPreviousData: true }
+    );
+    const portfolio = data?.data;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (assignees.length === 0) {
+            return;
+        }
+        setRequest({
+            assignees,
+            start: start || undefined,
+            end: end || undefined,
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="bg-white shadow-sm border-b">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                    <div className="flex items-center space-x-4">
+                        <Briefcase className="w-8 h-8 text-blue-600" />
+                        <div>
+                            <h1 className="text-2xl font-bold text-gray-900">Portfolio Analysis</h1>
+                            <p className="text-sm text-gray-600">
+                                Filing activity, technology focus, inventors and citation impact of a company's patents
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {/* Portfolio Form */}
+                <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border p-6">
+                    <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                        <div className="md:col-span-3">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Companies
+                            </label>
+                            <AssigneePicker selected={assignees} onChange={setAssignees} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Published from
+                            </label>
+                            <input
+                                type="date"
+                                value={start}
+                                onChange={(e) => setStart(e.target.value)}
+                                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Published to
+                            </label>
+                            <input
+                                type="date"
+                                value={end}
+                                onChange={(e) => setEnd(e.target.value)}
+                                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={assignees.length === 0 || isLoading}
+                            className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                            Analyze
+                        </button>
+                    </div>
+                </form>
+
+                {!request && (
+                    <div className="bg-white rounded-lg shadow-sm border">
+                        <EmptyState
+                            icon={Briefcase}
+                            title="Profile a patent portfolio"
+                            description="Pick one or more companies to see where and when they file, what they work on and how often their patents are cited"
+                        />
+                    </div>
+                )}
+
+                {isLoading && (
+                    <div className="bg-white rounded-lg shadow-sm border p-8">
+                        <LoadingSpinner size="lg" />
+                        <p className="text-center text-gray-600 mt-4">
+                            Analyzing the portfolio...
+                        </p>
+                    </div>
+                )}
+
+                {!!error && !isLoading && (
+                    <div className="bg-white rounded-lg shadow-sm border p-8 text-center">
+                        <p className="text-red-600 mb-4">
+                            The portfolio could not be analyzed. Please try again.
+                        </p>
+                        <button
+                            onClick={() => refetch()}
+                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                        >
+                            Retry
+                        </button>
+                    </div>
+                )}
+
+                {portfolio && !isLoading && (
+                    <>
+                        {/* Summary */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {[
+                                { label: 'Publications', value: portfolio.totalPatents.toLocaleString() },
+                                { label: 'Patent families', value: portfolio.totalFamilies.toLocaleString() },
+                                { label: 'Forward citations', value: portfolio.citationImpact.forward_citations.toLocaleString() },
+                                { label: 'Citations per patent', value: portfolio.citationImpact.citations_per_patent.toFixed(2) },
+                            ].map(stat => (
+                                <div key={stat.label} className="bg-white rounded-lg shadow-sm border p-4">
+                                    <p className="text-xs text-gray-500">{stat.label}</p>
+                                    <p className="mt-1 text-2xl font-semibold text-gray-900">{stat.value}</p>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 -mt-2">
+                            {portfolio.assignees.map(a => (a.parent ? `${a.name} (${a.parent})` : a.name)).join(', ')}
+                            {' '}— matching assignee names: {portfolio.matched_names.join(', ') || 'none'}.
+                            {' '}{portfolio.citationImpact.cited_patents.toLocaleString()} of the publications are cited at least once.
+                        </p>
+
+                        <div className="bg-white rounded-lg shadow-sm border p-6">
+                            <h3 className="text-sm font-medium text-gray-900 mb-4">Filings by Year and Jurisdiction</h3>
+                            <JurisdictionTrendChart data={portfolio.filingTrend} />
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="bg-white rounded-lg shadow-sm border p-6">
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">CPC Subclasses</h3>
+                                <RankingBarChart
+                                    data={portfolio.cpcDistribution.map(c => ({ label: c.classification, count: c.count }))}
+                                    color="#16a34a"
+                                    emptyMessage="No classifications recorded."
+                                />
+                            </div>
+                            <div className="bg-white rounded-lg shadow-sm border p-6">
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">Top Inventors</h3>
+                                <RankingBarChart
+                                    data={portfolio.topInventors.map(i => ({ label: i.inventor, count: i.count }))}
+                                    color="#2563eb"
+                                    emptyMessage="No inventors recorded."
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="bg-white rounded-lg shadow-sm border p-6">
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">Family Sizes</h3>
+                                <FamilySizeChart data={portfolio.familySizes} />
+                            </div>
+                            <div className="bg-white rounded-lg shadow-sm border p-6">
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">Most Cited Patents</h3>
+                                {portfolio.topCitedPatents.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No publication in this portfolio has been cited.</p>
+                                ) : (
+                                    <table className="min-w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-xs text-gray-500">
+                                                <th className="pb-2 font-medium">Patent</th>
+                                                <th className="pb-2 font-medium">Published</th>
+                                                <th className="pb-2 font-medium text-right">Cited by</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100">
+                                            {portfolio.topCitedPatents.map(patent => (
+                                                <tr key={patent.patent_id}>
+                                                    <td className="py-2 pr-4">
+                                                        <Link
+                                                            to={`/patent/${patent.patent_id}`}
+                                                            className="font-mono text-xs text-blue-600 hover:underline"
+                                                        >
+                                                            {patent.patent_id}
+                                                        </Link>
+                                                        <p className="text-gray-700 line-clamp-1">{patent.title}</p>
+                                                    </td>
+                                                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                                                        {formatDate(patent.publication_date)}
+                                                    </td>
+                                                    <td className="py-2 text-right font-medium text-gray-900">
+                                                        {patent.forward_citations}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,41 +1,60 @@
 import React, { useState } from 'react';
-import { useQuery } from 'react-query';
+import { useInfiniteQuery } from 'react-query';
 import { Search as SearchIcon, Filter, Download, BookOpen } from 'lucide-react';
 import { SearchForm } from '../components/Search/SearchForm';
 import { SearchResults } from '../components/Search/SearchResults';
 import { SearchFilters } from '../components/Search/SearchFilters';
 import { LoadingSpinner } from '../components/UI/LoadingSpinner';
 import { EmptyState } from '../components/UI/EmptyState';
-import { api } from '../services/api';
-import { PatentResult, SearchFilters as SearchFiltersType } from '../types/patent';
+import { api, clientErrorMessage } from '../services/api';
+import { PatentResult, SearchFilters as SearchFiltersType, FusionOptions, SearchGrouping, SearchScope } from '../types/patent';
 
 interface SearchQuery {
     query: string;
     searchType: 'semantic' | 'keyword' | 'hybrid';
+    scope?: SearchScope;
     filters?: SearchFiltersType;
     limit?: number;
+    pageSize?: number;
     minSimilarity?: number;
+    fusion?: FusionOptions;
+    preferredLanguages?: string[];
+    groupBy?: SearchGrouping;
+    preferredJurisdictions?: string[];
 }
 
 export const Search: React.FC = () => {
     const [searchQuery, setSearchQuery] = useState<SearchQuery | null>(null);
     const [showFilters, setShowFilters] = useState(false);
 
-    // Search results query
+    // Search results, one page per request; later pages follow the previous page's cursor
     const {
-        data: searchResults,
+        data,
         isLoading,
         error,
         refetch,
-    } = useQuery(
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery(
         ['patent-search', searchQuery],
-        () => searchQuery ? api.searchPatents(searchQuery) : null,
+        ({ pageParam }) => api.searchPatents({ ...searchQuery!, cursor: pageParam }),
         {
             enabled: !!searchQuery,
             keepPreviousData: true,
+            getNextPageParam: (lastPage) => lastPage.data.next_cursor ?? undefined,
         }
     );
 
+    const pages = data?.pages ?? [];
+    const lastPage = pages[pages.length - 1];
+    const searchResults = lastPage && {
+        data: {
+            ...lastPage.data,
+            results: pages.flatMap(page => page.data.results),
+        },
+    };
+
     const handleSearch = (newQuery: SearchQuery) => {
         setSearchQuery(newQuery);
     };
@@ -200,7 +219,7 @@ export const Search: React.FC = () => {
                                     <div className="p-8">
                                         <div className="text-center">
                                             <p className="text-red-600 mb-4">
-                                                An error occurred while searching. Please try again.
+                                                {clientErrorMessage(error) ?? 'An error occurred while searching. Please try again.'}
                                             </p>
                                             <button
                                                 onClick={() => refetch()}
@@ -216,9 +235,13 @@ export const Search: React.FC = () => {
                                     <SearchResults
                                         results={searchResults.data.results}
                                         totalResults={searchResults.data.total_results}
+                                        totalIsEstimate={searchResults.data.total_is_estimate}
                                         searchTime={searchResults.data.search_time_ms}
                                         searchMetadata={searchResults.data.search_metadata}
                                         query={searchQuery?.query || ''}
+                                        hasMore={!!hasNextPage}
+                                        isLoadingMore={isFetchingNextPage}
+                                        onLoadMore={() => fetchNextPage()}
                                     />
                                 )}
                             </>
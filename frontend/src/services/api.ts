@@ -1,5 +1,22 @@
 import axios from 'axios';
-import { SearchResponse, SearchFilters, PatentLandscapeData } from '../types/patent';
+import {
+    SearchResponse,
+    SearchFilters,
+    PatentLandscapeData,
+    CitationNetworkOptions,
+    ClusteringOptions,
+    FusionOptions,
+    PatentDetail,
+    RelatedPatentsOptions,
+    RelatedPatentsResponse,
+    CpcNode,
+    CpcNodeDetail,
+    ClassificationPatentsResponse,
+    SearchGrouping,
+    SearchScope,
+    AssigneeSuggestion,
+    PatentPortfolio,
+} from '../types/patent';
 
 // Use window for environment variables in React
 declare global {
@@ -47,12 +64,35 @@ apiClient.interceptors.response.use(
     }
 );
 
+/**
+ * The server's message for a rejected request (4xx), such as a query syntax
+ * error; undefined for server failures and network errors
+ */
+export const clientErrorMessage = (error: unknown): string | undefined => {
+    if (!axios.isAxiosError(error)) {
+        return undefined;
+    }
+    const status = error.response?.status;
+    if (!status || status < 400 || status >= 500) {
+        return undefined;
+    }
+    const message = (error.response?.data as { error?: { message?: unknown } } | undefined)?.error?.message;
+    return typeof message === 'string' ? message : undefined;
+};
+
 export interface SearchQuery {
     query: string;
     searchType: 'semantic' | 'keyword' | 'hybrid';
+    scope?: SearchScope;
     filters?: SearchFilters;
     limit?: number;
+    pageSize?: number;
+    cursor?: string;
     minSimilarity?: number;
+    fusion?: FusionOptions;
+    preferredLanguages?: string[];
+    groupBy?: SearchGrouping;
+    preferredJurisdictions?: string[];
 }
 
 export const api = {
@@ -69,14 +109,20 @@ export const api = {
     },
 
     // Quick search
-    quickSearch: async (query: string): Promise<{ data: SearchResponse }> => {
-        const response = await apiClient.post('/api/search/quick', { query });
+    quickSearch: async (query: string, filters?: SearchFilters): Promise<{ data: SearchResponse }> => {
+        const response = await apiClient.post('/api/search/quick', { query, filters });
+        return response.data;
+    },
+
+    // Full patent record
+    getPatent: async (patentId: string): Promise<{ data: PatentDetail }> => {
+        const response = await apiClient.get(`/api/patents/${encodeURIComponent(patentId)}`);
         return response.data;
     },
 
     // Get related patents
-    getRelatedPatents: async (patentId: string) => {
-        const response = await apiClient.get(`/api/search/related/${patentId}`);
+    getRelatedPatents: async (patentId: string, options: RelatedPatentsOptions = {}): Promise<{ data: RelatedPatentsResponse }> => {
+        const response = await apiClient.get(`/api/search/related/${patentId}`, { params: options });
         return response.data;
     },
 
@@ -89,17 +135,61 @@ export const api = {
     },
 
     // Analytics - Patent landscape
-    getPatentLandscape: async (query: string, filters?: SearchFilters): Promise<{ data: PatentLandscapeData }> => {
+    getPatentLandscape: async (
+        query: string,
+        filters?: SearchFilters,
+        citations?: CitationNetworkOptions,
+        clustering?: ClusteringOptions
+    ): Promise<{ data: PatentLandscapeData }> => {
         const response = await apiClient.post('/api/analytics/landscape', {
             query,
             filters,
+            citations,
+            clustering,
+        });
+        return response.data;
+    },
+
+    // Analytics - Portfolio of one or more companies
+    getPortfolio: async (assignees: string[], filters?: Omit<SearchFilters, 'assignees'>): Promise<{ data: PatentPortfolio }> => {
+        const response = await apiClient.post('/api/analytics/portfolio', {
+            assignees,
+            filters,
         });
         return response.data;
     },
 
     // Batch search
-    batchSearch: async (queries: string[]) => {
-        const response = await apiClient.post('/api/search/batch', { queries });
+    batchSearch: async (queries: string[], filters?: SearchFilters) => {
+        const response = await apiClient.post('/api/search/batch', { queries, filters });
+        return response.data;
+    },
+
+    // CPC hierarchy - top-level sections
+    getClassificationSections: async (): Promise<{ data: { sections: CpcNode[] } }> => {
+        const response = await apiClient.get('/api/classifications');
+        return response.data;
+    },
+
+    // CPC hierarchy - one entry with its ancestors and children
+    getClassification: async (code: string): Promise<{ data: CpcNodeDetail }> => {
+        const response = await apiClient.get(`/api/classifications/${encodeURIComponent(code)}`);
+        return response.data;
+    },
+
+    // Newest patents under a CPC code
+    getClassificationPatents: async (code: string, limit?: number): Promise<{ data: ClassificationPatentsResponse }> => {
+        const response = await apiClient.get(`/api/classifications/${encodeURIComponent(code)}/patents`, {
+            params: { limit },
+        });
+        return response.data;
+    },
+
+    // Normalized assignees for a partial name
+    searchAssignees: async (query: string, limit?: number): Promise<{ data: { query: string; suggestions: AssigneeSuggestion[] } }> => {
+        const response = await apiClient.get('/api/assignees/search', {
+            params: { q: query, limit },
+        });
         return response.data;
     },
 
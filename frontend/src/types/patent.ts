@@ -2,18 +2,127 @@ export interface PatentResult {
     patent_id: string;
     title: string;
     abstract: string;
+    titles: LocalizedText[];
+    abstracts: LocalizedText[];
     publication_date: string;
+    priority_date?: string;
+    filing_date?: string;
+    grant_date?: string;
     assignee: string;
+    assignee_normalized: string;
     inventors: string[];
     classifications: string[];
+    classification_details?: PatentClassification[];
     similarity_score: number;
     keyword_matches?: string[];
+    matched_claim?: MatchedClaim;
+    matched_passage?: MatchedPassage;
     country_code: string;
     url: string;
     family_id?: string;
-    priority_date?: string;
     citation_count?: number;
     family_size?: number;
+    ranking?: RankingExplanation;
+    family_members?: PatentFamilyMember[];
+}
+export interface LocalizedText {
+    text: string;
+    language: string;
+    truncated?: boolean;
+}
+export type SearchScope = 'claims' | 'abstract' | 'full';
+export type SearchGrouping = 'publication' | 'family';
+export interface PatentClaim {
+    number: number;
+    text: string;
+    type: 'independent' | 'dependent';
+    depends_on: number[];
+    dependents: number[];
+}
+export interface MatchedClaim {
+    number: number;
+    text: string;
+    score: number;
+}
+export interface TextSpan {
+    start: number;
+    end: number;
+}
+export interface MatchedPassage {
+    section: 'abstract' | 'claim' | 'description';
+    language?: string;
+    claim_number?: number;
+    text: string;
+    start: number;
+    end: number;
+    score: number;
+    highlights: TextSpan[];
+}
+export interface PatentParty {
+    name: string;
+    country_code?: string;
+}
+export interface PatentFamilyMember {
+    patent_id: string;
+    title: string;
+    country_code: string;
+    kind_code: string;
+    publication_date: string;
+}
+export interface PatentDetail extends PatentResult {
+    application_number: string;
+    kind_code: string;
+    claims: LocalizedText[];
+    parsed_claims: PatentClaim[];
+    descriptions: LocalizedText[];
+    assignees: PatentParty[];
+    inventor_details: PatentParty[];
+    family_members: PatentFamilyMember[];
+    citation_counts: {
+        backward: number;
+        forward: number;
+        non_patent: number;
+    };
+}
+export interface RelatedPatents {
+    citing: PatentResult[];
+    cited: PatentResult[];
+    similar: PatentResult[];
+}
+export interface RelatedPatentsResponse {
+    patent_id: string;
+    related_patents: RelatedPatents;
+    total_citing: number;
+    total_cited: number;
+    total_similar: number;
+    next_cursor: string | null;
+}
+export interface RelatedPatentsOptions {
+    limit?: number;
+    cursor?: string;
+    family?: boolean;
+}
+export interface PatentClassification {
+    scheme: 'CPC' | 'IPC';
+    code: string;
+    inventive: boolean;
+    first: boolean;
+}
+export type RankingSource = 'semantic' | 'keyword';
+export interface SourceRanking {
+    rank: number;
+    score: number;
+    normalized_score: number;
+}
+export interface RankingExplanation {
+    method: 'rrf' | 'weighted' | 'single';
+    fused_score: number;
+    sources: Partial<Record<RankingSource, SourceRanking>>;
+}
+export interface FusionOptions {
+    method: 'rrf' | 'weighted';
+    k?: number;
+    weights?: Partial<Record<RankingSource, number>>;
 }
 export interface SearchFilters {
     dateRange?: {
@@ -27,29 +136,136 @@ export interface SearchFilters {
 export interface SearchResponse {
     results: PatentResult[];
     total_results: number;
+    total_is_estimate: boolean;
+    page_size: number;
+    next_cursor: string | null;
     search_time_ms: number;
     search_metadata: {
         semantic_results?: number;
         keyword_results?: number;
         query_tokens?: number;
         filters_applied?: string[];
+        fusion_method?: string;
+        scope?: SearchScope;
     };
 }
 export interface PatentLandscapeData {
     statistics: {
         totalPatents: number;
         yearlyDistribution: { year: number; count: number }[];
-        topAssignees: { assignee: string; count: number }[];
+        topAssignees: AssigneeRollup[];
         topClassifications: { classification: string; count: number }[];
+        population: StatisticsPopulation;
     };
     technologyClusters: {
         cluster_id: string;
+        label: string;
         representative_patents: string[];
         keywords: string[];
         patent_count: number;
     }[];
-    citationNetwork: {
-        nodes: { id: string; title: string; year: number }[];
-        edges: { source: string; target: string; weight: number }[];
+    patentMap: PatentMapPoint[];
+    clustering: {
+        method: 'kmeans';
+        k: number;
+        silhouette: number;
+        seed: number;
     };
+    citationNetwork: CitationNetwork;
+}
+export interface StatisticsPopulation {
+    basis: 'keyword' | 'keyword_or_semantic';
+    description: string;
+    query: string;
+    semantic_top_n: number;
+    filters: SearchFilters;
+    date_range: { start: string | null; end: string | null };
+}
+export interface PatentPortfolio {
+    assignees: { name: string; parent?: string }[];
+    matched_names: string[];
+    filters: SearchFilters;
+    totalPatents: number;
+    totalFamilies: number;
+    filingTrend: { year: number; country_code: string; count: number }[];
+    cpcDistribution: { classification: string; count: number }[];
+    topInventors: { inventor: string; count: number }[];
+    familySizes: { size: number; families: number }[];
+    citationImpact: {
+        forward_citations: number;
+        cited_patents: number;
+        citations_per_patent: number;
+    };
+    topCitedPatents: {
+        patent_id: string;
+        title: string;
+        publication_date: string;
+        country_code: string;
+        forward_citations: number;
+    }[];
+}
+export interface PatentMapPoint {
+    patent_id: string;
+    title: string;
+    cluster_id: string;
+    x: number;
+    y: number;
+}
+export interface ClusteringOptions {
+    k?: number;
+    seed?: number;
+}
+export type CitationCategory = 'applicant' | 'examiner' | 'search_report' | 'other';
+export interface CitationNetworkNode {
+    id: string;
+    title: string;
+    year?: number;
+    hop: number;
+    in_degree: number;
+    out_degree: number;
+    pagerank: number;
+}
+export interface CitationNetworkEdge {
+    source: string;
+    target: string;
+    weight: number;
+    category: CitationCategory;
+}
+export interface CitationNetwork {
+    nodes: CitationNetworkNode[];
+    edges: CitationNetworkEdge[];
+}
+export interface CitationNetworkOptions {
+    hops: 0 | 1 | 2;
+    categories?: CitationCategory[];
+}
+export type CpcLevel = 'section' | 'class' | 'subclass' | 'group' | 'subgroup';
+export interface CpcNode {
+    symbol: string;
+    title: string;
+    level: CpcLevel;
+    parent?: string;
+    search_prefix: string;
+    has_children: boolean;
+}
+export interface CpcNodeDetail extends CpcNode {
+    ancestors: CpcNode[];
+    children: CpcNode[];
+}
+export interface AssigneeRollup {
+    assignee: string;
+    count: number;
+    companies: { name: string; count: number }[];
+}
+export interface AssigneeSuggestion {
+    name: string;
+    parent?: string;
+    matched_names: string[];
+    patent_count: number;
+}
+export interface ClassificationPatentsResponse {
+    classification: { symbol: string; title?: string; level?: CpcLevel };
+    search_prefix: string;
+    results: PatentResult[];
+    total_results: number;
 }
@@ -0,0 +1,8 @@
+// The API sends ISO dates (YYYY-MM-DD); parse them as local dates so the day shown never shifts with the time zone
+export const formatDate = (date?: string): string => {
+    const match = date ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(date) : null;
+    if (!match) {
+        return date || '—';
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).toLocaleDateString();
+};